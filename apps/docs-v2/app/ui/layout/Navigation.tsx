@@ -192,6 +192,8 @@ const navigation = (
       </NavItem>
       <NavItem href="/scoping">Scoped abstractions</NavItem>
       <NavItem href="/state-mode">State mode</NavItem>
+      <NavItem href="/multi-step-forms">Multi-step forms</NavItem>
+      <NavItem href="/web-workers">Validating in a Web Worker</NavItem>
       <NavItem href="/supporting-no-js">Support users without JS</NavItem>
     </NavigationGroup>
     <NavigationGroup title="Recipes">
@@ -230,6 +232,10 @@ const navigation = (
     </NavigationGroup>
     <NavigationGroup title="Adapters">
       <NavItem href="/remix">Remix</NavItem>
+      <NavItem href="/react-router">React Router</NavItem>
+      <NavItem href="/nextjs">Next.js</NavItem>
+      <NavItem href="/vanilla-dom">Vanilla DOM</NavItem>
+      <NavItem href="/server">Server</NavItem>
     </NavigationGroup>
   </>
 );
@@ -0,0 +1,99 @@
+import {
+  type AllFieldErrors,
+  type FieldErrors,
+  type Validator,
+  type ValidatorFieldErrors,
+  createValidator,
+} from "@rvf/core";
+import { pathArrayToString } from "@rvf/set-get";
+import { type ArkError, type ArkErrors, type Type, type } from "arktype";
+
+/**
+ * Unions report a single error containing the errors for each branch,
+ * and several errors for the same value are grouped into an intersection.
+ * Both are flattened out to find the errors for each field.
+ */
+const getIssuesForError = (error: ArkError): ArkError[] => {
+  if (error.hasCode("union") || error.hasCode("intersection"))
+    return error.errors.flatMap((err) => getIssuesForError(err));
+  return [error];
+};
+
+function formatIssuePath(error: ArkError): string {
+  const pathArray = error.path.map((key) =>
+    typeof key === "number" ? key : String(key),
+  );
+  return pathArrayToString(pathArray);
+}
+
+function errorsToFieldErrors(errors: ArkErrors): FieldErrors {
+  const fieldErrors: FieldErrors = {};
+  errors.flatMap(getIssuesForError).forEach((error) => {
+    const path = formatIssuePath(error);
+    if (!fieldErrors[path]) fieldErrors[path] = error.message;
+  });
+  return fieldErrors;
+}
+
+function errorsToAllFieldErrors(errors: ArkErrors): AllFieldErrors {
+  const fieldErrors: Record<string, string[]> = {};
+  errors.flatMap(getIssuesForError).forEach((error) => {
+    const path = formatIssuePath(error);
+    fieldErrors[path] ??= [];
+    // Union branches can report the same error more than once
+    if (!fieldErrors[path].includes(error.message))
+      fieldErrors[path].push(error.message);
+  });
+  return fieldErrors;
+}
+
+export type WithArktypeOptions<AllErrors extends boolean = boolean> = {
+  /**
+   * A schema for things the user should know about, but that shouldn't stop the form from being submitted.
+   * Any errors from this schema are shown as warnings instead of errors.
+   */
+  warnings?: Type;
+
+  /**
+   * Return every error message for each field instead of only the first one.
+   * Use `errors(fieldName)` to access all the messages.
+   */
+  allErrors?: AllErrors;
+};
+
+/**
+ * Create a validator using an `arktype` type.
+ */
+export function withArktype<
+  Schema extends Type,
+  AllErrors extends boolean = false,
+>(
+  schema: Schema,
+  options?: WithArktypeOptions<AllErrors>,
+): Validator<Schema["infer"], ValidatorFieldErrors<AllErrors>> {
+  const getWarnings = (value: unknown) => {
+    if (!options?.warnings) return undefined;
+    const result = options.warnings(value);
+    return result instanceof type.errors
+      ? errorsToFieldErrors(result)
+      : undefined;
+  };
+
+  return createValidator<Schema["infer"], ValidatorFieldErrors<AllErrors>>({
+    validate: async (value) => {
+      const result = schema(value);
+      const warnings = getWarnings(value);
+
+      if (!(result instanceof type.errors))
+        return { data: result as Schema["infer"], error: undefined, warnings };
+
+      return {
+        data: undefined,
+        error: (options?.allErrors
+          ? errorsToAllFieldErrors(result)
+          : errorsToFieldErrors(result)) as ValidatorFieldErrors<AllErrors>,
+        warnings,
+      };
+    },
+  });
+}
@@ -0,0 +1,197 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { anyString } from "@remix-validated-form/test-utils";
+import * as semver from "semver";
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { type Validator } from "@rvf/core";
+import { type } from "arktype";
+import { withArktype } from "./";
+
+describe("withArktype", () => {
+  it("returns coherent errors for complex schemas", async () => {
+    const schema = type({ foo: "string" }).or({ bar: "string" });
+    const obj = {
+      bar: 123,
+      foo: 123,
+    };
+
+    expect(await withArktype(schema).validate(obj)).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          bar: anyString,
+          foo: anyString,
+        },
+        subaction: undefined,
+      },
+      submittedData: obj,
+    });
+  });
+
+  it("returns errors for fields that are unions", async () => {
+    const schema = type({
+      field1: "'foo' | 'bar'",
+      field2: "'foo' | 'bar'",
+    });
+    const obj = {
+      field1: "a value",
+      // field2 missing
+    };
+
+    const validator = withArktype(schema);
+    expect(await validator.validate(obj)).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          field1: anyString,
+          field2: anyString,
+        },
+        subaction: undefined,
+      },
+      submittedData: obj,
+    });
+  });
+
+  it("flattens nested paths into field names", async () => {
+    const schema = type({
+      todos: type({ title: "string > 0" }).array(),
+    });
+    const obj = { todos: [{ title: "Foo" }, { title: "" }] };
+
+    expect(await withArktype(schema).validate(obj)).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          "todos[1].title": anyString,
+        },
+        subaction: undefined,
+      },
+      submittedData: obj,
+    });
+  });
+
+  it("returns custom error messages", async () => {
+    const schema = type({
+      type: type("string").configure({ message: "Custom error" }),
+    });
+    const obj = {
+      type: 123,
+    };
+
+    expect(await withArktype(schema).validate(obj)).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          type: "Custom error",
+        },
+        subaction: undefined,
+      },
+      submittedData: obj,
+    });
+  });
+
+  it("returns every error message for a field when allErrors is set", async () => {
+    const schema = type({
+      password: type(/[0-9]/).and(/[^a-zA-Z0-9]/),
+      name: "string > 0",
+    });
+    const obj = { password: "password", name: "" };
+
+    expect(await withArktype(schema).validate(obj)).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          password: anyString,
+          name: anyString,
+        },
+        subaction: undefined,
+      },
+      submittedData: obj,
+    });
+
+    expect(
+      await withArktype(schema, { allErrors: true }).validate(obj),
+    ).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          password: [anyString, anyString],
+          name: [anyString],
+        },
+        subaction: undefined,
+      },
+      submittedData: obj,
+    });
+  });
+
+  it("returns warnings without blocking validation", async () => {
+    const schema = type({
+      email: "string.email",
+      password: "string",
+    });
+    const warnings = type({
+      email: /\.com$/,
+      password: "string >= 12",
+    });
+
+    const obj = { email: "bob@example.zzz", password: "secret" };
+    expect(await withArktype(schema, { warnings }).validate(obj)).toEqual({
+      data: obj,
+      error: undefined,
+      warnings: {
+        email: anyString,
+        password: anyString,
+      },
+      submittedData: obj,
+    });
+
+    const invalid = { email: "bob", password: "a strong password" };
+    expect(await withArktype(schema, { warnings }).validate(invalid)).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          email: anyString,
+        },
+        subaction: undefined,
+      },
+      warnings: {
+        email: anyString,
+      },
+      submittedData: invalid,
+    });
+  });
+
+  it("infers the output type of the schema", async () => {
+    const schema = type({
+      name: "string",
+      age: "string.numeric.parse",
+    });
+    const validator = withArktype(schema);
+    expectTypeOf(validator).toEqualTypeOf<
+      Validator<{ name: string; age: number }>
+    >();
+
+    const obj = { name: "Bob", age: "42" };
+    expect((await validator.validate(obj)).data).toEqual({
+      name: "Bob",
+      age: 42,
+    });
+  });
+});
+
+const packageDir = path.join(__dirname, "..");
+const packageJsonPath = path.join(packageDir, "package.json");
+const corePackageJsonPath = path.join(packageDir, "../core/package.json");
+
+describe("peer dependecy version", () => {
+  it("should have a peer dependency version that matches the lastet version of RVF", async () => {
+    const packageJson = JSON.parse(await fs.readFile(packageJsonPath, "utf-8"));
+    const peerDependencyVersion = packageJson.peerDependencies["@rvf/core"];
+    const rvfPackageJson = JSON.parse(
+      await fs.readFile(corePackageJsonPath, "utf-8"),
+    );
+    const rvfVersion = rvfPackageJson.version;
+
+    expect(semver.satisfies(rvfVersion, peerDependencyVersion)).toBe(true);
+  });
+});
@@ -0,0 +1,64 @@
+import { getPath, setPath } from "@rvf/set-get";
+import { current, isDraft, produce } from "immer";
+import { isEqual } from "./equality";
+
+export type ComputedField<FormInputData = any> = {
+  /**
+   * Computes the value of the field from the values of the form.
+   * Computed fields can depend on other computed fields that are declared before them.
+   */
+  compute: (values: FormInputData) => unknown;
+
+  /**
+   * Whether the computed value is included in validation and submission.
+   * In the `dom` submit source, the value is only submitted if there is an input for it.
+   *
+   * Defaults to `false`.
+   */
+  includeInSubmission?: boolean;
+};
+
+export type ComputedFields<FormInputData = any> = Partial<
+  Record<string, ComputedField<FormInputData>>
+>;
+
+export const isComputedField = (
+  computedFields: ComputedFields | undefined,
+  fieldName: string,
+) => !!fieldName && !!computedFields?.[fieldName];
+
+/**
+ * Gets the names of the computed fields that should be left out of validation and submission.
+ */
+export const getUnsubmittedComputedFields = (
+  computedFields: ComputedFields | undefined,
+): string[] =>
+  Object.entries(computedFields ?? {})
+    .filter(([, computedField]) => !computedField?.includeInSubmission)
+    .map(([fieldName]) => fieldName);
+
+/**
+ * Sets the value of each computed field, in the order they're declared.
+ * `values` is mutated, so it should usually be an immer draft.
+ * If `prevValues` is given, nothing is computed unless `values` differs from it.
+ */
+export const updateComputedFields = (
+  computedFields: ComputedFields,
+  values: any,
+  prevValues?: unknown,
+) => {
+  // Snapshotting a draft copies everything that changed, so it's only done once.
+  // The snapshot gets each computed value too, so later fields can depend on it.
+  // A draft that wasn't modified snapshots to the object it was created from.
+  let snapshot = isDraft(values) ? current(values) : values;
+  if (prevValues !== undefined && snapshot === prevValues) return;
+  Object.entries(computedFields).forEach(([fieldName, computedField]) => {
+    if (!computedField) return;
+    const nextValue = computedField.compute(snapshot);
+    if (isEqual(getPath(snapshot, fieldName), nextValue)) return;
+    setPath(values, fieldName, nextValue);
+    snapshot = produce(snapshot, (draft: any) => {
+      setPath(draft, fieldName, nextValue);
+    });
+  });
+};
@@ -0,0 +1,171 @@
+import { pathArrayToString, stringToPathArray } from "@rvf/set-get";
+import { isFieldWithin } from "./getters";
+
+export type ConditionalField<FormInputData = any> = {
+  /**
+   * Determines if the field is active based on the values of the form.
+   * Inactive fields are left out of validation and submission.
+   */
+  when: (values: FormInputData) => boolean;
+
+  /**
+   * What to do with the value of the field when it becomes active again.
+   * - `retain` keeps the value the field had before it became inactive.
+   * - `reset` resets the field to its default value.
+   *
+   * Defaults to `retain`.
+   */
+  whenReactivated?: "retain" | "reset";
+};
+
+export type ConditionalFields<FormInputData = any> = Partial<
+  Record<string, ConditionalField<FormInputData>>
+>;
+
+export const getInactiveFields = (
+  conditionalFields: ConditionalFields | undefined,
+  values: unknown,
+): string[] =>
+  Object.entries(conditionalFields ?? {})
+    .filter(
+      ([, conditionalField]) =>
+        !!conditionalField && !conditionalField.when(values),
+    )
+    .map(([fieldName]) => fieldName);
+
+/**
+ * Gets the conditions of the field and the fields it's nested in.
+ */
+export const getFieldConditions = (
+  conditionalFields: ConditionalFields | undefined,
+  fieldName: string,
+): ConditionalField[] =>
+  Object.entries(conditionalFields ?? {})
+    .filter(([path]) => isFieldWithin(fieldName, path))
+    .map(([, conditionalField]) => conditionalField)
+    .filter((conditionalField) => !!conditionalField);
+
+export const isFieldInactive = (fieldName: string, inactiveFields: string[]) =>
+  inactiveFields.some((path) => isFieldWithin(fieldName, path));
+
+const omitPath = (
+  obj: any,
+  [key, ...rest]: (string | number)[],
+  removeArrayItems: boolean,
+): any => {
+  if (typeof obj !== "object" || obj === null || !(key in obj)) return obj;
+
+  const copy = Array.isArray(obj) ? [...obj] : { ...obj };
+  if (rest.length > 0) copy[key] = omitPath(obj[key], rest, removeArrayItems);
+  else if (!Array.isArray(copy)) delete copy[key];
+  // Deleting an array item would leave a hole, so the later items are moved down instead
+  else if (removeArrayItems) copy.splice(Number(key), 1);
+  else copy[Number(key)] = undefined;
+  return copy;
+};
+
+/**
+ * Orders paths so removing one doesn't change what the others point to.
+ * Later array items come before earlier ones, and nested fields come before their parents.
+ */
+const comparePaths = (
+  a: (string | number)[],
+  b: (string | number)[],
+): number => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] === b[i]) continue;
+    if (typeof a[i] === "number" && typeof b[i] === "number")
+      return (b[i] as number) - (a[i] as number);
+    return String(a[i]).localeCompare(String(b[i]));
+  }
+  return b.length - a.length;
+};
+
+/**
+ * Returns a copy of the values without the given fields.
+ * Array items are removed from the array rather than left as holes.
+ */
+export const omitFields = <Values>(values: Values, fieldNames: string[]) =>
+  fieldNames
+    .map(stringToPathArray)
+    .sort(comparePaths)
+    .reduce<Values>((acc, path) => omitPath(acc, path, true), values);
+
+/**
+ * Returns a copy of the values without the given fields.
+ * Array items are set to `undefined`, so the items after them keep their indices.
+ */
+export const clearFields = <Values>(values: Values, fieldNames: string[]) =>
+  fieldNames
+    .map(stringToPathArray)
+    .reduce<Values>((acc, path) => omitPath(acc, path, false), values);
+
+/**
+ * Gets the indices of the items that `omitFields` removes from the array at `arrayPath`, from lowest to highest.
+ */
+const getRemovedIndices = (
+  omittedPaths: (string | number)[][],
+  arrayPath: (string | number)[],
+) =>
+  omittedPaths
+    .filter(
+      (path) =>
+        path.length === arrayPath.length + 1 &&
+        typeof path[arrayPath.length] === "number" &&
+        arrayPath.every((key, i) => path[i] === key),
+    )
+    .map((path) => path[arrayPath.length] as number)
+    .sort((a, b) => a - b);
+
+/**
+ * Gets the name of a field in the values returned by `omitFields`.
+ * This is different from the name in the form when array items before it were removed.
+ * Returns `null` if the field was omitted.
+ */
+export const toOmittedFieldName = (
+  fieldName: string,
+  omittedFields: string[],
+): string | null => {
+  if (omittedFields.length === 0) return fieldName;
+  if (isFieldInactive(fieldName, omittedFields)) return null;
+
+  const omittedPaths = omittedFields.map(stringToPathArray);
+  const path = stringToPathArray(fieldName);
+  return pathArrayToString(
+    path.map((key, i) => {
+      if (typeof key !== "number") return key;
+      const removedBefore = getRemovedIndices(
+        omittedPaths,
+        path.slice(0, i),
+      ).filter((removed) => removed < key);
+      return key - removedBefore.length;
+    }),
+  );
+};
+
+/**
+ * Gets the name in the form of a field from the values returned by `omitFields`.
+ * This is the opposite of `toOmittedFieldName`.
+ */
+export const fromOmittedFieldName = (
+  fieldName: string,
+  omittedFields: string[],
+): string => {
+  if (omittedFields.length === 0) return fieldName;
+
+  const omittedPaths = omittedFields.map(stringToPathArray);
+  const path: (string | number)[] = [];
+  stringToPathArray(fieldName).forEach((key) => {
+    if (typeof key !== "number") {
+      path.push(key);
+      return;
+    }
+    // Each removed item at or before the index moves the item down by one
+    const index = getRemovedIndices(omittedPaths, path).reduce(
+      (index, removed) => (removed <= index ? index + 1 : index),
+      key,
+    );
+    path.push(index);
+  });
+  return pathArrayToString(path);
+};
@@ -1,5 +1,7 @@
 import {
+  AllFieldErrors,
   CreateValidatorArg,
+  FieldErrors,
   ValidationErrorResponseData,
   Validator,
 } from "./types";
@@ -11,13 +13,16 @@ import { FORM_ID_FIELD_NAME } from "./constants";
  * It provides built-in handling for unflattening nested objects and
  * extracting the values from FormData.
  */
-export function createValidator<T>(
-  validator: CreateValidatorArg<T>,
-): Validator<T> {
+export function createValidator<
+  T,
+  Errors extends FieldErrors | AllFieldErrors = FieldErrors,
+>(validator: CreateValidatorArg<T, NoInfer<Errors>>): Validator<T, Errors> {
   return {
-    validate: async (value) => {
+    validate: async (value, options) => {
       const data = preprocessFormData(value);
-      const result = await validator.validate(data);
+      const result = await validator.validate(data, {
+        signal: options?.signal,
+      });
       const formId = data[FORM_ID_FIELD_NAME];
 
       if (result.error) {
@@ -29,16 +34,24 @@ export function createValidator<T>(
           },
           submittedData: data,
           formId,
+          warnings: result.warnings,
         };
       }
 
       return {
-        data: result.data,
+        data: result.data as T,
         error: undefined,
         submittedData: data,
         formId,
+        warnings: result.warnings,
       };
     },
+    validateField:
+      validator.validateField &&
+      ((fieldName, value, options) =>
+        validator.validateField!(fieldName, preprocessFormData(value), {
+          signal: options?.signal,
+        })),
   };
 }
 
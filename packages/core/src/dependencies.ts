@@ -0,0 +1,25 @@
+import { isFieldWithin } from "./getters";
+
+/**
+ * Maps the names of fields to the names of the fields they depend on.
+ * When a field changes, the fields that depend on it are revalidated.
+ */
+export type FieldDependencies = Partial<Record<string, string[]>>;
+
+/**
+ * Gets the fields that depend on the given field,
+ * including those that depend on an object or array the field is nested in.
+ */
+export const getDependentFields = (
+  fieldDependencies: FieldDependencies | undefined,
+  fieldName: string,
+): string[] =>
+  Object.entries(fieldDependencies ?? {})
+    .filter(
+      ([dependent, dependencies]) =>
+        dependent !== fieldName &&
+        !!dependencies?.some((dependency) =>
+          isFieldWithin(fieldName, dependency),
+        ),
+    )
+    .map(([dependent]) => dependent);
@@ -0,0 +1,56 @@
+import { getChangedValues, isEqual } from "./equality";
+
+describe("isEqual", () => {
+  it("should compare arrays and objects by their contents", () => {
+    expect(isEqual(["a", "b"], ["a", "b"])).toBe(true);
+    expect(isEqual(["a", "b"], ["b", "a"])).toBe(false);
+    expect(isEqual({ a: [{ b: 1 }] }, { a: [{ b: 1 }] })).toBe(true);
+    expect(isEqual({ a: [{ b: 1 }] }, { a: [{ b: 2 }] })).toBe(false);
+    expect(isEqual({ a: 1, b: undefined }, { a: 1 })).toBe(true);
+  });
+
+  it("should compare dates by their time", () => {
+    expect(isEqual(new Date(1000), new Date(1000))).toBe(true);
+    expect(isEqual(new Date(1000), new Date(2000))).toBe(false);
+  });
+
+  it("should not treat different types as equal", () => {
+    expect(isEqual([], {})).toBe(false);
+    expect(isEqual("1", 1)).toBe(false);
+    expect(isEqual(null, undefined)).toBe(false);
+    expect(isEqual(NaN, NaN)).toBe(true);
+  });
+});
+
+describe("getChangedValues", () => {
+  it("should only include the changed keys of objects", () => {
+    expect(
+      getChangedValues(
+        { name: "Jane", address: { city: "Paris", zip: "75001" } },
+        { name: "Jane", address: { city: "Lyon", zip: "75001" } },
+      ),
+    ).toEqual({ address: { city: "Paris" } });
+  });
+
+  it("should include changed arrays in full", () => {
+    expect(
+      getChangedValues(
+        { tags: ["a", "c"], other: ["b"] },
+        { tags: ["a", "b"], other: ["b"] },
+      ),
+    ).toEqual({ tags: ["a", "c"] });
+  });
+
+  it("should include fields that were cleared to undefined", () => {
+    const changed = getChangedValues(
+      { name: "Jane", nickname: undefined },
+      { name: "Jane", nickname: "JJ" },
+    );
+    expect(changed).toStrictEqual({ nickname: undefined });
+    expect(changed).toHaveProperty("nickname");
+  });
+
+  it("should return undefined when nothing changed", () => {
+    expect(getChangedValues({ a: { b: 1 } }, { a: { b: 1 } })).toBeUndefined();
+  });
+});
@@ -0,0 +1,52 @@
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" &&
+  value !== null &&
+  Object.getPrototypeOf(value) === Object.prototype;
+
+/**
+ * Checks if two form values are structurally equal.
+ * Arrays and plain objects are compared by their contents and dates by their time.
+ * Anything else, like files, is compared by reference.
+ * Missing object keys are treated the same as keys set to `undefined`.
+ */
+export const isEqual = (a: unknown, b: unknown): boolean => {
+  if (Object.is(a, b)) return true;
+
+  if (a instanceof Date && b instanceof Date)
+    return a.getTime() === b.getTime();
+
+  if (Array.isArray(a) && Array.isArray(b))
+    return (
+      a.length === b.length && a.every((item, index) => isEqual(item, b[index]))
+    );
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every((key) => isEqual(a[key], b[key]));
+  }
+
+  return false;
+};
+
+/**
+ * Gets the parts of `value` that are different from `defaultValue`.
+ * Objects only include the keys that changed, but arrays are always included in full,
+ * since there's no unambiguous way to represent part of an array.
+ * Keys that were cleared are included with a value of `undefined`.
+ * Returns `undefined` if nothing changed.
+ */
+export const getChangedValues = (
+  value: unknown,
+  defaultValue: unknown,
+): unknown => {
+  if (isEqual(value, defaultValue)) return undefined;
+  if (!isPlainObject(value) || !isPlainObject(defaultValue)) return value;
+
+  const changed: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(value), ...Object.keys(defaultValue)]);
+  keys.forEach((key) => {
+    if (isEqual(value[key], defaultValue[key])) return;
+    changed[key] = getChangedValues(value[key], defaultValue[key]);
+  });
+  return changed;
+};
@@ -1,5 +1,7 @@
 import {
+  AllFieldErrors,
   FieldErrors,
+  FieldValidator,
   FieldValues,
   ValidationBehaviorConfig,
   Validator,
@@ -19,6 +21,15 @@ import {
   createRefStore,
   createResolverQueue,
 } from "./store";
+import {
+  FormPersistence,
+  PersistOptions,
+  createFormPersistence,
+} from "./persistence";
+import { FormHistory, HistoryOptions, createFormHistory } from "./history";
+import { ConditionalFields } from "./conditional";
+import { ComputedFields } from "./computed";
+import { FieldDependencies } from "./dependencies";
 import { createTrackedSelector } from "react-tracked";
 import {
   StringToPathTuple,
@@ -39,8 +50,8 @@ type SubmitTypes<FormOutputData> =
 
 type FormInit<FormInputData extends FieldValues, FormOutputData> = {
   defaultValues: FormInputData;
-  serverValidationErrors: FieldErrors;
-  validator: Validator<FormOutputData>;
+  serverValidationErrors: FieldErrors | AllFieldErrors;
+  validator: Validator<FormOutputData, FieldErrors | AllFieldErrors>;
   validationBehaviorConfig?: ValidationBehaviorConfig;
   onSubmit: StateSubmitHandler | DomSubmitHandler;
   onSubmitSuccess: (responseData: unknown) => void | Promise<void>;
@@ -49,6 +60,12 @@ type FormInit<FormInputData extends FieldValues, FormOutputData> = {
   onInvalidSubmit: () => void | Promise<void>;
   formProps: StoreFormProps;
   flags: StoreFlags;
+  persist?: PersistOptions;
+  history?: HistoryOptions;
+  conditionalFields?: ConditionalFields<FormInputData>;
+  computedFields?: ComputedFields<FormInputData>;
+  fieldDependencies?: FieldDependencies;
+  formAction?: (formData: FormData) => void | Promise<void>;
 } & SubmitTypes<FormOutputData>;
 
 export interface FormScope<FormInputData> {
@@ -65,10 +82,13 @@ export interface FormStore {
   transientFieldRefs: RefStore;
   controlledFieldRefs: RefStore;
   fieldSerializerRefs: RefStore<FieldSerializer>;
+  fieldValidatorRefs: RefStore<FieldValidator>;
   resolvers: ResolverQueue;
   formRef: { current: HTMLFormElement | null };
   mutableImplStore: MutableImplStore;
   store: ReturnType<typeof createFormStateStore>;
+  persistence: FormPersistence | null;
+  history: FormHistory | null;
   useStoreState: () => FormStoreValue;
   subformCache: Map<string, any>;
 }
@@ -89,10 +109,17 @@ export const createFormScope = <
   submitSource,
   formProps,
   flags,
+  persist,
+  history: historyOptions,
+  conditionalFields,
+  computedFields,
+  fieldDependencies,
+  formAction,
 }: FormInit<FormInputData, FormOutputData>): FormScope<FormInputData> => {
   const transientFieldRefs = createRefStore<HTMLElement>();
   const controlledFieldRefs = createRefStore<HTMLElement>();
   const fieldSerializerRefs = createRefStore<FieldSerializer>();
+  const fieldValidatorRefs = createRefStore<FieldValidator>();
   const resolvers = createResolverQueue();
   const formRef = { current: null as HTMLFormElement | null };
   const mutableImplStore = {
@@ -102,6 +129,10 @@ export const createFormScope = <
     onSubmitFailure,
     onBeforeSubmit,
     onInvalidSubmit,
+    conditionalFields,
+    computedFields,
+    fieldDependencies,
+    formAction,
   } satisfies MutableImplStore;
   const store = createFormStateStore({
     defaultValues,
@@ -109,6 +140,7 @@ export const createFormScope = <
     transientFieldRefs,
     controlledFieldRefs,
     fieldSerializerRefs,
+    fieldValidatorRefs,
     resolvers,
     formRef,
     submitSource,
@@ -119,14 +151,28 @@ export const createFormScope = <
   });
   const subformCache = new Map<string, any>();
 
+  // Restore the draft right away, so the first render already has the restored values.
+  // Inputs aren't mounted yet, so they get the restored values when their refs register.
+  const persistence = persist
+    ? createFormPersistence({ store, transientFieldRefs, options: persist })
+    : null;
+  persistence?.hydrate();
+
+  const history = historyOptions
+    ? createFormHistory({ store, transientFieldRefs, options: historyOptions })
+    : null;
+
   const rvfStore: FormStore = {
     transientFieldRefs,
     controlledFieldRefs,
     fieldSerializerRefs,
+    fieldValidatorRefs,
     resolvers,
     formRef,
     mutableImplStore,
     store,
+    persistence,
+    history,
     subformCache,
     useStoreState: createTrackedSelector(store),
   };
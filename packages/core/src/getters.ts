@@ -1,5 +1,15 @@
 import { getPath } from "@rvf/set-get";
 import { FormStoreValue } from "./store";
+import { getChangedValues } from "./equality";
+import { FieldErrors } from "./types";
+
+/**
+ * Checks if the field is the given path, or is nested inside it.
+ */
+export const isFieldWithin = (fieldName: string, path: string) =>
+  fieldName === path ||
+  fieldName.startsWith(`${path}.`) ||
+  fieldName.startsWith(`${path}[`);
 
 export const getFieldValue = (
   state: FormStoreValue,
@@ -11,6 +21,15 @@ export const getFieldDefaultValue = (
   fieldName: string,
 ): unknown => getPath(state.defaultValues, fieldName);
 
+/**
+ * Gets the parts of the field's value that are different from its default value.
+ */
+export const getDirtyValues = (state: FormStoreValue, fieldName: string) =>
+  getChangedValues(
+    getFieldValue(state, fieldName),
+    getFieldDefaultValue(state, fieldName),
+  );
+
 export const getFieldTouched = (state: FormStoreValue, fieldName: string) =>
   state.touchedFields[fieldName] ?? false;
 
@@ -18,7 +37,45 @@ export const getFieldDirty = (state: FormStoreValue, fieldName: string) =>
   state.dirtyFields[fieldName] ?? false;
 
 export const getFieldError = (state: FormStoreValue, fieldName: string) => {
-  return state.validationErrors[fieldName] ?? null;
+  const error = state.validationErrors[fieldName];
+  if (Array.isArray(error)) return error[0] ?? null;
+  return error ?? null;
+};
+
+export const getFieldErrors = (
+  state: FormStoreValue,
+  fieldName: string,
+): string[] => {
+  const error = state.validationErrors[fieldName];
+  if (Array.isArray(error)) return error;
+  return error ? [error] : [];
+};
+
+/**
+ * Keeps only the first message for each field when a validator returned all of them.
+ */
+export const getFirstErrors = (
+  errors: FormStoreValue["validationErrors"],
+): FieldErrors =>
+  Object.fromEntries(
+    Object.entries(errors).map(([fieldName, error]) => [
+      fieldName,
+      Array.isArray(error) ? error[0] : error,
+    ]),
+  );
+
+export const getFieldWarning = (state: FormStoreValue, fieldName: string) =>
+  state.validationWarnings[fieldName] ?? null;
+
+export const getFieldValidating = (
+  state: FormStoreValue,
+  fieldName: string,
+) => {
+  if (state.formValidating) return true;
+  if (!fieldName) return Object.values(state.validatingFields).some(Boolean);
+  return Object.keys(state.validatingFields).some((name) =>
+    isFieldWithin(name, fieldName),
+  );
 };
 
 export const getFieldArrayKeys = (state: FormStoreValue, fieldName: string) =>
@@ -32,13 +89,18 @@ export const getAllTouched = (state: FormStoreValue) => state.touchedFields;
 export const getAllDirty = (state: FormStoreValue) => state.dirtyFields;
 
 export const getAllErrors = (state: FormStoreValue) => {
-  if (state.submitStatus !== "idle") return state.validationErrors;
-  const fieldsWithErrors = Object.entries(state.validationErrors).filter(
-    ([fieldName]) =>
+  const fieldsWithErrors = Object.keys(state.validationErrors).filter(
+    (fieldName) =>
+      state.submitStatus !== "idle" ||
       state.touchedFields[fieldName] ||
       state.validationBehaviorConfig.initial === "onChange",
   );
-  return Object.fromEntries(fieldsWithErrors);
+  return Object.fromEntries(
+    fieldsWithErrors.map((fieldName) => [
+      fieldName,
+      getFieldError(state, fieldName) as string,
+    ]),
+  );
 };
 
 export const getFormId = (state: FormStoreValue) => state.formProps.id;
@@ -0,0 +1,205 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { HistoryOptions, createFormHistory } from "./history";
+import {
+  createFormStateStore,
+  createRefStore,
+  createResolverQueue,
+} from "./store";
+import { createValidator } from "./createValidator";
+import { Validator } from "./types";
+
+const testHistory = (
+  defaultValues: Record<string, unknown>,
+  options: HistoryOptions = {},
+  validator: Validator<any> = createValidator({
+    validate: (data) => Promise.resolve({ data, error: undefined }),
+  }),
+) => {
+  const transientFieldRefs = createRefStore<HTMLElement>();
+  const store = createFormStateStore({
+    defaultValues,
+    controlledFieldRefs: createRefStore<HTMLElement>(),
+    transientFieldRefs,
+    fieldSerializerRefs: createRefStore(),
+    fieldValidatorRefs: createRefStore(),
+    resolvers: createResolverQueue(),
+    formRef: { current: null },
+    submitSource: "state",
+    mutableImplStore: {
+      onSubmitFailure: vi.fn(),
+      onSubmitSuccess: vi.fn(),
+      onBeforeSubmit: vi.fn(),
+      onInvalidSubmit: vi.fn(),
+      validator,
+      onSubmit: () => Promise.resolve(),
+    },
+    flags: {
+      disableFocusOnError: false,
+      reloadDocument: false,
+    },
+    serverValidationErrors: {},
+    formProps: { id: "test-form" },
+  });
+  const history = createFormHistory({
+    store,
+    transientFieldRefs,
+    options,
+  });
+  history.subscribe();
+  return { store, history, transientFieldRefs };
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("createFormHistory", () => {
+  it("should undo and redo value changes", async () => {
+    const { store, history } = testHistory({ name: "", age: 0 });
+
+    store.getState().setValue("name", "Jane");
+    await Promise.resolve();
+    store.getState().setValue("age", 30);
+    expect(store.getState().canUndo).toBe(true);
+    expect(store.getState().canRedo).toBe(false);
+
+    history.undo();
+    expect(store.getState().values).toEqual({ name: "Jane", age: 0 });
+    history.undo();
+    expect(store.getState().values).toEqual({ name: "", age: 0 });
+    expect(store.getState().canUndo).toBe(false);
+    expect(store.getState().canRedo).toBe(true);
+
+    history.redo();
+    history.redo();
+    expect(store.getState().values).toEqual({ name: "Jane", age: 30 });
+    expect(store.getState().canRedo).toBe(false);
+  });
+
+  it("should coalesce rapid changes to the same field", async () => {
+    vi.useFakeTimers();
+    const { store, history } = testHistory(
+      { name: "", age: 0 },
+      { coalesce: 100 },
+    );
+
+    store.getState().setValue("name", "J");
+    await vi.advanceTimersByTimeAsync(50);
+    store.getState().setValue("name", "Ja");
+    await vi.advanceTimersByTimeAsync(50);
+    store.getState().setValue("name", "Jan");
+    await vi.advanceTimersByTimeAsync(150);
+    store.getState().setValue("name", "Jane");
+
+    history.undo();
+    expect(store.getState().values.name).toBe("Jan");
+    history.undo();
+    expect(store.getState().values.name).toBe("");
+  });
+
+  it("should restore field arrays along with their field state", async () => {
+    const { store, history } = testHistory({
+      items: [{ name: "a" }, { name: "b" }, { name: "c" }],
+    });
+    store.setState((state) => {
+      state.fieldArrayKeys.items = ["1", "2", "3"];
+    });
+    store.getState().setTouched("items[1].name", true);
+    store.getState().setError("items[2].name", "Invalid");
+    expect(store.getState().canUndo).toBe(false);
+
+    store.getState().arrayRemove("items", 1);
+    await Promise.resolve();
+    store.getState().arrayMove("items", 0, 1);
+    expect(store.getState().values.items).toEqual([
+      { name: "c" },
+      { name: "a" },
+    ]);
+
+    history.undo();
+    history.undo();
+    expect(store.getState().values.items).toEqual([
+      { name: "a" },
+      { name: "b" },
+      { name: "c" },
+    ]);
+    expect(store.getState().fieldArrayKeys.items).toEqual(["1", "2", "3"]);
+    expect(store.getState().touchedFields).toEqual({ "items[1].name": true });
+    expect(store.getState().validationErrors).toEqual({
+      "items[2].name": "Invalid",
+    });
+  });
+
+  it("should drop the oldest changes when the depth is exceeded", async () => {
+    const { store, history } = testHistory(
+      { count: 0 },
+      { depth: 2, coalesce: 0 },
+    );
+
+    for (const count of [1, 2, 3]) {
+      store.getState().setValue("count", count);
+      await Promise.resolve();
+    }
+
+    history.undo();
+    history.undo();
+    history.undo();
+    expect(store.getState().values.count).toBe(1);
+    expect(store.getState().canUndo).toBe(false);
+  });
+
+  it("should discard the redo steps when a new change is made", async () => {
+    const { store, history } = testHistory({ name: "" });
+
+    store.getState().setValue("name", "Jane");
+    history.undo();
+    store.getState().setValue("name", "Bob");
+
+    expect(store.getState().canRedo).toBe(false);
+    history.redo();
+    expect(store.getState().values.name).toBe("Bob");
+  });
+
+  it("should not add the results of undone validations to the history", async () => {
+    let finishValidation = (_error: Record<string, string>) => {};
+    const { store, history } = testHistory(
+      { name: "" },
+      { coalesce: 0 },
+      createValidator({
+        validate: (data) =>
+          new Promise((resolve) => {
+            finishValidation = (error) => resolve({ error, data: undefined });
+          }),
+      }),
+    );
+
+    store.getState().setValue("name", "Jane");
+    await Promise.resolve();
+    store.getState().setValue("name", "Bad");
+    const validation = store.getState().validateField("name");
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    history.undo();
+    finishValidation({ name: "Invalid" });
+    await validation;
+    expect(store.getState().validationErrors).toEqual({});
+    expect(store.getState().validatingFields).toEqual({});
+
+    history.undo();
+    history.redo();
+    expect(store.getState().values.name).toBe("Jane");
+    expect(store.getState().validationErrors).toEqual({});
+  });
+
+  it("should update uncontrolled inputs", () => {
+    const { store, history, transientFieldRefs } = testHistory({ name: "" });
+    const input = document.createElement("input");
+    transientFieldRefs.setRef("name", input);
+
+    store.getState().setValue("name", "Jane");
+    input.value = "Jane";
+
+    history.undo();
+    expect(input.value).toBe("");
+  });
+});
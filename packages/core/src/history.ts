@@ -0,0 +1,261 @@
+import { Patch } from "immer";
+import { getPath, pathArrayToString } from "@rvf/set-get";
+import { setFormControlValue } from "./dom/dom";
+import { applyPatches, subscribeToPatches } from "./immer";
+import { RefStore, createFormStateStore, genKey } from "./store";
+import { isFieldWithin } from "./getters";
+
+export type HistoryOptions = {
+  /**
+   * The maximum number of changes that can be undone. Defaults to `100`.
+   */
+  depth?: number;
+
+  /**
+   * Consecutive changes to the same field made within this many milliseconds
+   * are undone together. This keeps each keystroke from being its own step.
+   * Defaults to `500`.
+   */
+  coalesce?: number;
+};
+
+export type FormHistory = {
+  undo: () => void;
+  redo: () => void;
+  /**
+   * Removes all undo and redo steps.
+   */
+  clear: () => void;
+  /**
+   * Starts recording changes to the form.
+   * @returns A function that stops recording changes.
+   */
+  subscribe: () => () => void;
+};
+
+type HistoryEntry = {
+  patches: Patch[];
+  inversePatches: Patch[];
+  /**
+   * The field this entry can be coalesced with, if it only changed a single field.
+   */
+  coalesceField: string | null;
+  lastChangedAt: number;
+};
+
+// Changing these starts a new entry.
+const VALUE_KEYS = ["values"];
+// Changes to these are recorded, but are only meaningful alongside value changes.
+const VALUE_META_KEYS = ["fieldArrayKeys"];
+// Changes to these are attached to the entry of the most recent value change.
+const FIELD_STATE_KEYS = [
+  "touchedFields",
+  "dirtyFields",
+  "validationErrors",
+  "validationWarnings",
+];
+
+const isPatchFor = (keys: string[]) => (patch: Patch) =>
+  keys.includes(patch.path[0] as string);
+
+const isRecordedPatch = isPatchFor([
+  ...VALUE_KEYS,
+  ...VALUE_META_KEYS,
+  ...FIELD_STATE_KEYS,
+]);
+
+const getCoalesceField = (patches: Patch[]) => {
+  if (patches.some(isPatchFor(VALUE_META_KEYS))) return null;
+
+  const fields = new Set(
+    patches
+      .filter(isPatchFor(VALUE_KEYS))
+      .map((patch) => pathArrayToString(patch.path.slice(1))),
+  );
+  if (fields.size !== 1) return null;
+  const [field] = fields;
+  return field || null;
+};
+
+/**
+ * Gets the names of the field arrays whose keys are changed by the patches.
+ * The item components of those arrays are rerendered instead of being synced directly.
+ */
+const getChangedFieldArrays = (
+  patches: Patch[],
+  prevKeys: Record<string, unknown>,
+  nextKeys: Record<string, unknown>,
+) => {
+  const arrays = new Set<string>();
+  patches.filter(isPatchFor(VALUE_META_KEYS)).forEach((patch) => {
+    if (patch.path.length > 1) arrays.add(patch.path[1] as string);
+    else
+      [...Object.keys(prevKeys), ...Object.keys(nextKeys)].forEach((name) =>
+        arrays.add(name),
+      );
+  });
+  return arrays;
+};
+
+export const createFormHistory = ({
+  store,
+  transientFieldRefs,
+  options: { depth = 100, coalesce = 500 },
+}: {
+  store: ReturnType<typeof createFormStateStore>;
+  transientFieldRefs: RefStore;
+  options: HistoryOptions;
+}): FormHistory => {
+  let undoStack: HistoryEntry[] = [];
+  let redoStack: HistoryEntry[] = [];
+  let isApplying = false;
+
+  // All value changes made in the same tick are treated as a single user action.
+  let openEntry: HistoryEntry | null = null;
+
+  const syncStatus = () => {
+    const canUndo = undoStack.length > 0;
+    const canRedo = redoStack.length > 0;
+    const state = store.getState();
+    if (state.canUndo === canUndo && state.canRedo === canRedo) return;
+
+    store.setState((state) => {
+      state.canUndo = canUndo;
+      state.canRedo = canRedo;
+    });
+  };
+
+  const appendToEntry = (
+    entry: HistoryEntry,
+    patches: Patch[],
+    inversePatches: Patch[],
+  ) => {
+    entry.patches.push(...patches);
+    entry.inversePatches.unshift(...inversePatches);
+  };
+
+  const record = (allPatches: Patch[], allInversePatches: Patch[]) => {
+    if (isApplying) return;
+
+    const patches = allPatches.filter(isRecordedPatch);
+    const inversePatches = allInversePatches.filter(isRecordedPatch);
+    const topEntry = undoStack[undoStack.length - 1];
+
+    if (!patches.some(isPatchFor(VALUE_KEYS))) {
+      // Field array keys are generated lazily when an array is first rendered.
+      // That isn't something the user did, so we don't record it.
+      const fieldStatePatches = patches.filter(isPatchFor(FIELD_STATE_KEYS));
+      if (!topEntry || fieldStatePatches.length === 0) return;
+      appendToEntry(
+        topEntry,
+        fieldStatePatches,
+        inversePatches.filter(isPatchFor(FIELD_STATE_KEYS)),
+      );
+      return;
+    }
+
+    const now = Date.now();
+    const coalesceField = getCoalesceField(patches);
+    redoStack = [];
+
+    if (openEntry && openEntry === topEntry) {
+      appendToEntry(openEntry, patches, inversePatches);
+      openEntry.coalesceField =
+        openEntry.coalesceField === coalesceField ? coalesceField : null;
+      openEntry.lastChangedAt = now;
+    } else if (
+      topEntry &&
+      coalesceField &&
+      topEntry.coalesceField === coalesceField &&
+      now - topEntry.lastChangedAt < coalesce
+    ) {
+      appendToEntry(topEntry, patches, inversePatches);
+      topEntry.lastChangedAt = now;
+    } else {
+      const entry: HistoryEntry = {
+        patches: [...patches],
+        inversePatches: [...inversePatches],
+        coalesceField,
+        lastChangedAt: now,
+      };
+      undoStack.push(entry);
+      if (undoStack.length > depth) undoStack.shift();
+
+      openEntry = entry;
+      queueMicrotask(() => {
+        if (openEntry === entry) openEntry = null;
+      });
+    }
+
+    syncStatus();
+  };
+
+  const apply = (patches: Patch[]) => {
+    const prevValues = store.getState().values;
+    let changedArrays = new Set<string>();
+
+    // Validations that are still running are for the values being replaced.
+    // Their results would otherwise end up in whichever entry is on top of the stack.
+    store.getState().cancelPendingValidations();
+
+    isApplying = true;
+    try {
+      store.setState((state) => {
+        const prevKeys = { ...state.fieldArrayKeys };
+        applyPatches(state, patches);
+        changedArrays = getChangedFieldArrays(
+          patches,
+          prevKeys,
+          state.fieldArrayKeys,
+        );
+        changedArrays.forEach((array) => {
+          state.arrayUpdateKeys[array] = genKey();
+        });
+      });
+    } finally {
+      isApplying = false;
+    }
+    openEntry = null;
+
+    // Uncontrolled inputs don't rerender, so we need to update them ourselves.
+    // Inputs inside changed field arrays are remounted or moved by their keys instead.
+    const values = store.getState().values;
+    transientFieldRefs.forEach((fieldName, ref) => {
+      if (
+        !ref ||
+        [...changedArrays].some((array) => isFieldWithin(fieldName, array))
+      )
+        return;
+      const value = getPath(values, fieldName);
+      if (value === getPath(prevValues, fieldName)) return;
+      setFormControlValue(ref, value);
+    });
+  };
+
+  return {
+    undo: () => {
+      const entry = undoStack.pop();
+      if (!entry) return;
+      apply(entry.inversePatches);
+      redoStack.push(entry);
+      syncStatus();
+    },
+
+    redo: () => {
+      const entry = redoStack.pop();
+      if (!entry) return;
+      apply(entry.patches);
+      undoStack.push(entry);
+      syncStatus();
+    },
+
+    clear: () => {
+      undoStack = [];
+      redoStack = [];
+      openEntry = null;
+      syncStatus();
+    },
+
+    subscribe: () => subscribeToPatches(store, record),
+  };
+};
@@ -1,5 +1,5 @@
-import { Immer } from "immer";
-import { StateCreator } from "zustand";
+import { Immer, Patch, enablePatches } from "immer";
+import { StateCreator, StoreApi } from "zustand";
 import type { immer as immerMiddleware } from "zustand/middleware/immer";
 
 // react-tracked and immer conflict sometimes because of auto-freezing.
@@ -8,6 +8,17 @@ const immerInstance = new Immer({
   autoFreeze: false,
 });
 
+enablePatches();
+
+export type PatchListener = (patches: Patch[], inversePatches: Patch[]) => void;
+
+export type UpdateTransformer<T = any> = (draft: T, prevState: T) => void;
+
+type WithPatchListeners = {
+  subscribeToPatches: (listener: PatchListener) => () => void;
+  transformUpdates: (transformer: UpdateTransformer) => () => void;
+};
+
 /**
  * Zustand doesn't provide an option to customize the immer instance,
  * so we've copy-pasted the implementation from zustand/middleware/immer.ts
@@ -21,7 +32,42 @@ type ImmerImpl = <T>(
 const immerImpl: ImmerImpl = (initializer) => (set, get, store) => {
   type T = ReturnType<typeof initializer>;
 
-  store.setState = (updater, replace, ...a) => {
+  const patchListeners = new Set<PatchListener>();
+  (store as typeof store & WithPatchListeners).subscribeToPatches = (
+    listener,
+  ) => {
+    patchListeners.add(listener);
+    return () => patchListeners.delete(listener);
+  };
+
+  const transformers = new Set<UpdateTransformer>();
+  (store as typeof store & WithPatchListeners).transformUpdates = (
+    transformer,
+  ) => {
+    transformers.add(transformer);
+    return () => transformers.delete(transformer);
+  };
+
+  store.setState = (baseUpdater, replace, ...a) => {
+    const updater =
+      typeof baseUpdater === "function" && transformers.size > 0
+        ? (draft: T) => {
+            const prevState = get();
+            (baseUpdater as (draft: T) => void)(draft);
+            transformers.forEach((transform) => transform(draft, prevState));
+          }
+        : baseUpdater;
+
+    // Generating patches isn't free, so we only do it if someone is listening.
+    if (typeof updater === "function" && patchListeners.size > 0) {
+      const [nextState, patches, inversePatches] =
+        immerInstance.produceWithPatches(get(), updater as any);
+      const result = set(nextState as any, replace, ...a);
+      if (patches.length > 0)
+        patchListeners.forEach((listener) => listener(patches, inversePatches));
+      return result;
+    }
+
     const nextState = (
       typeof updater === "function"
         ? immerInstance.produce(updater as any)
@@ -35,3 +81,23 @@ const immerImpl: ImmerImpl = (initializer) => (set, get, store) => {
 };
 
 export const immer = immerImpl as unknown as typeof immerMiddleware;
+
+/**
+ * Calls the listener with the immer patches of every state update made through `setState`.
+ */
+export const subscribeToPatches = (
+  store: StoreApi<any>,
+  listener: PatchListener,
+) => (store as StoreApi<any> & WithPatchListeners).subscribeToPatches(listener);
+
+/**
+ * Runs the transformer on the draft of every state update made through `setState`, after the update itself.
+ * Any changes it makes to the draft are part of the same update.
+ */
+export const transformUpdates = <T>(
+  store: StoreApi<T>,
+  transformer: UpdateTransformer<T>,
+) => (store as StoreApi<T> & WithPatchListeners).transformUpdates(transformer);
+
+export const applyPatches = <T extends object>(base: T, patches: Patch[]) =>
+  immerInstance.applyPatches(base, patches);
@@ -5,7 +5,13 @@ export * from "./dom/getRadioChecked";
 export * from "./dom/getCheckboxChecked";
 export * from "./dom/event";
 export * from "./form";
+export * from "./persistence";
+export * from "./history";
+export * from "./conditional";
+export * from "./computed";
+export * from "./dependencies";
 export * from "./getters";
+export * from "./equality";
 export * from "./createValidator";
 export * from "./native-form-data/flatten";
 export * from "./constants";
@@ -0,0 +1,236 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  DraftStorage,
+  PersistOptions,
+  createFormPersistence,
+  defaultDraftSerializer,
+} from "./persistence";
+import {
+  createFormStateStore,
+  createRefStore,
+  createResolverQueue,
+} from "./store";
+import { createValidator } from "./createValidator";
+
+const memoryStorage = (): DraftStorage & { items: Map<string, string> } => {
+  const items = new Map<string, string>();
+  return {
+    items,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => items.set(key, value),
+    removeItem: (key) => items.delete(key),
+  };
+};
+
+const testPersistence = (options: PersistOptions) => {
+  const transientFieldRefs = createRefStore<HTMLElement>();
+  const store = createFormStateStore({
+    defaultValues: { name: "", age: 0 },
+    controlledFieldRefs: createRefStore<HTMLElement>(),
+    transientFieldRefs,
+    fieldSerializerRefs: createRefStore(),
+    fieldValidatorRefs: createRefStore(),
+    resolvers: createResolverQueue(),
+    formRef: { current: null },
+    submitSource: "state",
+    mutableImplStore: {
+      onSubmitFailure: vi.fn(),
+      onSubmitSuccess: vi.fn(),
+      onBeforeSubmit: vi.fn(),
+      onInvalidSubmit: vi.fn(),
+      validator: createValidator({
+        validate: (data) => Promise.resolve({ data, error: undefined }),
+      }),
+      onSubmit: () => Promise.resolve(),
+    },
+    flags: {
+      disableFocusOnError: false,
+      reloadDocument: false,
+    },
+    serverValidationErrors: {},
+    formProps: { id: "test-form" },
+  });
+  const persistence = createFormPersistence({
+    store,
+    transientFieldRefs,
+    options,
+  });
+  return { store, persistence };
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("defaultDraftSerializer", () => {
+  it("should restore dates and files", async () => {
+    const file = new File(["hello"], "hello.txt", {
+      type: "text/plain",
+      lastModified: 1234,
+    });
+    const date = new Date("2024-01-02T03:04:05.000Z");
+
+    const serialized = await defaultDraftSerializer.serialize({
+      version: 1,
+      values: { date, nested: { files: [file] }, text: "hi" },
+    });
+    const draft = defaultDraftSerializer.deserialize(serialized);
+
+    expect(draft.values.date).toBeInstanceOf(Date);
+    expect(draft.values.date.toISOString()).toBe(date.toISOString());
+    expect(draft.values.text).toBe("hi");
+
+    const restoredFile = draft.values.nested.files[0];
+    expect(restoredFile).toBeInstanceOf(File);
+    expect(restoredFile.name).toBe("hello.txt");
+    expect(restoredFile.type).toBe("text/plain");
+    expect(restoredFile.lastModified).toBe(1234);
+    expect(restoredFile.size).toBe(file.size);
+  });
+});
+
+describe("createFormPersistence", () => {
+  it("should save drafts at most once per throttle interval", async () => {
+    vi.useFakeTimers();
+    const storage = memoryStorage();
+    const { store, persistence } = testPersistence({
+      key: "test",
+      storage,
+      throttle: 100,
+    });
+    const unsubscribe = persistence.subscribe();
+
+    store.getState().setValue("name", "J");
+    store.getState().setValue("name", "Jo");
+    expect(storage.items.has("test")).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(JSON.parse(storage.items.get("test")!)).toEqual({
+      version: 1,
+      values: { name: "Jo", age: 0 },
+    });
+
+    store.getState().setValue("name", "Jon");
+    unsubscribe();
+    // Pending changes are saved when unsubscribing
+    await vi.advanceTimersByTimeAsync(0);
+    expect(JSON.parse(storage.items.get("test")!).values.name).toBe("Jon");
+  });
+
+  it("should restore a saved draft", () => {
+    const storage = memoryStorage();
+    storage.setItem(
+      "test",
+      JSON.stringify({
+        version: 1,
+        values: { name: "Jane", age: 30 },
+        touchedFields: { name: true },
+      }),
+    );
+
+    const { store, persistence } = testPersistence({
+      key: "test",
+      storage,
+      include: { touched: true },
+    });
+    expect(persistence.hasDraft()).toBe(true);
+    persistence.hydrate();
+
+    expect(store.getState().values).toEqual({ name: "Jane", age: 30 });
+    expect(store.getState().touchedFields).toEqual({ name: true });
+    expect(store.getState().defaultValues).toEqual({ name: "", age: 0 });
+  });
+
+  it("should recompute the dirty state of a draft that was saved without it", () => {
+    const storage = memoryStorage();
+    storage.setItem(
+      "test",
+      JSON.stringify({ version: 1, values: { name: "Jane", age: 0 } }),
+    );
+
+    const { store, persistence } = testPersistence({ key: "test", storage });
+    persistence.hydrate();
+
+    expect(store.getState().dirtyFields).toEqual({ name: true });
+  });
+
+  it("should discard drafts saved with a different version", () => {
+    const storage = memoryStorage();
+    storage.setItem(
+      "test",
+      JSON.stringify({ version: 1, values: { name: "Jane", age: 30 } }),
+    );
+
+    const { store, persistence } = testPersistence({
+      key: "test",
+      storage,
+      version: 2,
+    });
+    persistence.hydrate();
+
+    expect(store.getState().values).toEqual({ name: "", age: 0 });
+    expect(storage.items.has("test")).toBe(false);
+  });
+
+  it("should check for a draft without restoring or removing it", () => {
+    const storage = memoryStorage();
+    storage.setItem(
+      "test",
+      JSON.stringify({ version: 1, values: { name: "Jane", age: 30 } }),
+    );
+    const deserialize = vi.spyOn(defaultDraftSerializer, "deserialize");
+
+    const { persistence } = testPersistence({
+      key: "test",
+      storage,
+      version: 2,
+    });
+    expect(persistence.hasDraft()).toBe(false);
+    expect(storage.items.has("test")).toBe(true);
+    expect(deserialize).not.toHaveBeenCalled();
+
+    const { persistence: currentPersistence } = testPersistence({
+      key: "test",
+      storage,
+    });
+    expect(currentPersistence.hasDraft()).toBe(true);
+    expect(deserialize).not.toHaveBeenCalled();
+    deserialize.mockRestore();
+  });
+
+  it("should not save a pending draft after it has been cleared", async () => {
+    vi.useFakeTimers();
+    const storage = memoryStorage();
+    const { store, persistence } = testPersistence({
+      key: "test",
+      storage,
+      throttle: 100,
+    });
+    persistence.subscribe();
+
+    store.getState().setValue("name", "Jane");
+    persistence.clear();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(persistence.hasDraft()).toBe(false);
+  });
+
+  it("should remove the draft when the form is reset", async () => {
+    vi.useFakeTimers();
+    const storage = memoryStorage();
+    const { store, persistence } = testPersistence({
+      key: "test",
+      storage,
+      throttle: 100,
+    });
+    persistence.subscribe();
+
+    store.getState().setValue("name", "Jane");
+    await vi.advanceTimersByTimeAsync(100);
+    expect(persistence.hasDraft()).toBe(true);
+
+    store.getState().reset();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(persistence.hasDraft()).toBe(false);
+  });
+});
@@ -0,0 +1,356 @@
+import { getPath, pathArrayToString } from "@rvf/set-get";
+import { setFormControlValue } from "./dom/dom";
+import { isEqual } from "./equality";
+import { FieldValues } from "./types";
+import { RefStore, createFormStateStore } from "./store";
+
+/**
+ * A snapshot of the form state that can be restored later.
+ */
+export type FormDraft = {
+  version: number;
+  values: FieldValues;
+  touchedFields?: Record<string, boolean>;
+  dirtyFields?: Record<string, boolean>;
+};
+
+/**
+ * Where drafts are stored. `localStorage` and `sessionStorage` can be used directly.
+ * Reads need to be synchronous so the form can be restored before the first render.
+ */
+export type DraftStorage = {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+};
+
+export type DraftSerializer = {
+  serialize: (draft: FormDraft) => string | Promise<string>;
+  deserialize: (serialized: string) => FormDraft;
+  /**
+   * Reads only the version of a serialized draft, so checking for a draft doesn't restore all of its values.
+   * Uses `deserialize` if this isn't provided.
+   */
+  readVersion?: (serialized: string) => number;
+};
+
+export type PersistOptions = {
+  /**
+   * The key the draft is stored under. This should be unique for each form.
+   */
+  key: string;
+
+  /**
+   * Where to store the draft. Defaults to `localStorage`.
+   */
+  storage?: DraftStorage;
+
+  /**
+   * Drafts saved with a different version are discarded instead of restored.
+   * Increment this when the shape of your form changes.
+   * Defaults to `1`.
+   */
+  version?: number;
+
+  /**
+   * The minimum number of milliseconds between saves. Defaults to `500`.
+   */
+  throttle?: number;
+
+  /**
+   * Which field state to save along with the values.
+   */
+  include?: {
+    touched?: boolean;
+    dirty?: boolean;
+  };
+
+  /**
+   * Customizes how drafts are turned into strings.
+   * The default serializer supports `Date` and `File` values.
+   */
+  serializer?: DraftSerializer;
+};
+
+export type FormPersistence = {
+  /**
+   * Restores the saved draft, if there is one.
+   * Inputs that are already mounted are updated to show the restored values.
+   */
+  hydrate: () => void;
+  /**
+   * Starts saving drafts whenever the form state changes.
+   * @returns A function that stops saving drafts.
+   */
+  subscribe: () => () => void;
+  /**
+   * Removes the saved draft and cancels any pending saves.
+   */
+  clear: () => void;
+  /**
+   * Whether there's a saved draft with the current version.
+   */
+  hasDraft: () => boolean;
+};
+
+const TYPE_KEY = "__rvfDraftType__";
+
+type EncodedDate = { [TYPE_KEY]: "Date"; value: string };
+type EncodedFile = {
+  [TYPE_KEY]: "File";
+  name: string;
+  type: string;
+  lastModified: number;
+  dataUrl: string;
+};
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const dataUrlToFile = ({ dataUrl, name, type, lastModified }: EncodedFile) => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(",") + 1);
+  const binary = atob(base64);
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new File([bytes], name, { type, lastModified });
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" &&
+  value !== null &&
+  Object.getPrototypeOf(value) === Object.prototype;
+
+const encodeValue = async (value: unknown): Promise<unknown> => {
+  if (value instanceof Date)
+    return { [TYPE_KEY]: "Date", value: value.toISOString() } as EncodedDate;
+
+  if (typeof File !== "undefined" && value instanceof File)
+    return {
+      [TYPE_KEY]: "File",
+      name: value.name,
+      type: value.type,
+      lastModified: value.lastModified,
+      dataUrl: await readAsDataUrl(value),
+    } as EncodedFile;
+
+  if (Array.isArray(value)) return Promise.all(value.map(encodeValue));
+
+  if (isPlainObject(value)) {
+    const entries = await Promise.all(
+      Object.entries(value).map(
+        async ([key, val]) => [key, await encodeValue(val)] as const,
+      ),
+    );
+    return Object.fromEntries(entries);
+  }
+
+  return value;
+};
+
+/**
+ * The serializer used when `persist.serializer` isn't provided.
+ * `Date` and `File` values are encoded so they can be restored as the same type.
+ */
+export const defaultDraftSerializer: DraftSerializer = {
+  serialize: async (draft) => JSON.stringify(await encodeValue(draft)),
+  deserialize: (serialized) =>
+    JSON.parse(serialized, (_key, value) => {
+      if (!isPlainObject(value)) return value;
+      if (value[TYPE_KEY] === "Date")
+        return new Date((value as EncodedDate).value);
+      if (value[TYPE_KEY] === "File")
+        return dataUrlToFile(value as EncodedFile);
+      return value;
+    }),
+  readVersion: (serialized) => JSON.parse(serialized).version,
+};
+
+/**
+ * Marks each field that differs from its default value as dirty.
+ * Arrays are dirty themselves too, the same as after an array operation.
+ */
+const collectDirtyFields = (
+  value: unknown,
+  defaultValue: unknown,
+  path: (string | number)[],
+  dirtyFields: Record<string, boolean>,
+) => {
+  if (isEqual(value, defaultValue)) return;
+
+  if (Array.isArray(value)) {
+    if (path.length > 0) dirtyFields[pathArrayToString(path)] = true;
+    const defaultItems = Array.isArray(defaultValue) ? defaultValue : [];
+    value.forEach((item, index) =>
+      collectDirtyFields(
+        item,
+        defaultItems[index],
+        [...path, index],
+        dirtyFields,
+      ),
+    );
+    return;
+  }
+
+  if (isPlainObject(value)) {
+    const defaultObject = isPlainObject(defaultValue) ? defaultValue : {};
+    Object.keys(value).forEach((key) =>
+      collectDirtyFields(
+        value[key],
+        defaultObject[key],
+        [...path, key],
+        dirtyFields,
+      ),
+    );
+    return;
+  }
+
+  if (path.length > 0) dirtyFields[pathArrayToString(path)] = true;
+};
+
+const getDefaultStorage = (): DraftStorage | undefined => {
+  try {
+    return typeof localStorage === "undefined" ? undefined : localStorage;
+  } catch {
+    // Accessing `localStorage` can throw when storage is disabled
+    return undefined;
+  }
+};
+
+export const createFormPersistence = ({
+  store,
+  transientFieldRefs,
+  options: {
+    key,
+    storage = getDefaultStorage(),
+    version = 1,
+    throttle = 500,
+    include = {},
+    serializer = defaultDraftSerializer,
+  },
+}: {
+  store: ReturnType<typeof createFormStateStore>;
+  transientFieldRefs: RefStore;
+  options: PersistOptions;
+}): FormPersistence => {
+  let pendingSave: ReturnType<typeof setTimeout> | null = null;
+  // Incremented when the draft is cleared so that saves that are already in progress get discarded.
+  let generation = 0;
+
+  const cancelPendingSave = () => {
+    if (pendingSave) clearTimeout(pendingSave);
+    pendingSave = null;
+  };
+
+  const readDraft = (): FormDraft | null => {
+    const serialized = storage?.getItem(key);
+    if (!serialized) return null;
+
+    try {
+      const draft = serializer.deserialize(serialized);
+      if (draft.version === version) return draft;
+    } catch (err) {
+      console.error("RVF: Unable to restore the saved draft", err);
+    }
+
+    storage?.removeItem(key);
+    return null;
+  };
+
+  const save = async () => {
+    pendingSave = null;
+    if (!storage) return;
+
+    const saveGeneration = generation;
+    const state = store.getState();
+    const draft: FormDraft = {
+      version,
+      values: state.values,
+      touchedFields: include.touched ? state.touchedFields : undefined,
+      dirtyFields: include.dirty ? state.dirtyFields : undefined,
+    };
+
+    try {
+      const serialized = await serializer.serialize(draft);
+      if (saveGeneration === generation) storage.setItem(key, serialized);
+    } catch (err) {
+      console.error("RVF: Unable to save the draft", err);
+    }
+  };
+
+  const clear = () => {
+    generation++;
+    cancelPendingSave();
+    storage?.removeItem(key);
+  };
+
+  return {
+    hydrate: () => {
+      const draft = readDraft();
+      if (!draft) return;
+
+      const state = store.getState();
+      state.setAllValues(draft.values);
+      if (draft.touchedFields) state.setAllTouched(draft.touchedFields);
+      if (draft.dirtyFields) state.setAllDirty(draft.dirtyFields);
+      else {
+        const dirtyFields: Record<string, boolean> = {};
+        collectDirtyFields(draft.values, state.defaultValues, [], dirtyFields);
+        state.setAllDirty(dirtyFields);
+      }
+
+      transientFieldRefs.forEach((fieldName, ref) => {
+        if (!ref) return;
+        setFormControlValue(ref, getPath(draft.values, fieldName));
+      });
+    },
+
+    subscribe: () => {
+      const unsubscribe = store.subscribe((state, prevState) => {
+        const changed =
+          state.values !== prevState.values ||
+          (include.touched &&
+            state.touchedFields !== prevState.touchedFields) ||
+          (include.dirty && state.dirtyFields !== prevState.dirtyFields);
+        if (!changed) return;
+
+        // Resetting the form sets the values and default values to the same object.
+        // There's nothing worth restoring at that point.
+        if (state.values === state.defaultValues) {
+          clear();
+          return;
+        }
+
+        if (!pendingSave) pendingSave = setTimeout(save, throttle);
+      });
+
+      return () => {
+        unsubscribe();
+        // Don't lose the latest changes when the form unmounts
+        if (pendingSave) {
+          cancelPendingSave();
+          void save();
+        }
+      };
+    },
+
+    clear,
+
+    hasDraft: () => {
+      const serialized = storage?.getItem(key);
+      if (!serialized) return false;
+
+      try {
+        const draftVersion = serializer.readVersion
+          ? serializer.readVersion(serialized)
+          : serializer.deserialize(serialized).version;
+        return draftVersion === version;
+      } catch {
+        return false;
+      }
+    },
+  };
+};
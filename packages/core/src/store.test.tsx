@@ -5,7 +5,13 @@ import {
   createRefStore,
   createResolverQueue,
 } from "./store";
-import { ValidationBehavior } from "./types";
+import {
+  FieldErrors,
+  Invalid,
+  Valid,
+  ValidationBehavior,
+  Validator,
+} from "./types";
 import { createValidator } from "./createValidator";
 
 const testStore = (init?: Partial<FormStoreInit>) =>
@@ -14,6 +20,7 @@ const testStore = (init?: Partial<FormStoreInit>) =>
     controlledFieldRefs: createRefStore(),
     transientFieldRefs: createRefStore(),
     fieldSerializerRefs: createRefStore(),
+    fieldValidatorRefs: createRefStore(),
     resolvers: createResolverQueue(),
     formRef: { current: null },
     submitSource: "state",
@@ -169,6 +176,352 @@ describe("validation", () => {
   });
 });
 
+describe("async validation", () => {
+  const onChangeBehavior = {
+    initial: "onChange",
+    whenTouched: "onChange",
+    whenSubmitted: "onChange",
+  } as const;
+
+  const deferredValidator = () => {
+    const calls: Array<{
+      data: any;
+      signal?: AbortSignal;
+      resolve: (error?: FieldErrors) => void;
+    }> = [];
+    const validator = createValidator({
+      validate: (data, { signal }) =>
+        new Promise<Valid<any> | Invalid>((resolve) => {
+          calls.push({
+            data,
+            signal,
+            resolve: (error) =>
+              resolve(
+                error ? { error, data: undefined } : { data, error: undefined },
+              ),
+          });
+        }),
+    });
+    return { calls, validator };
+  };
+
+  const mutableImplStore = (validator: Validator<any>) => ({
+    onSubmitFailure: vi.fn(),
+    onSubmitSuccess: vi.fn(),
+    onBeforeSubmit: vi.fn(),
+    onInvalidSubmit: vi.fn(),
+    validator,
+    onSubmit: vi.fn(),
+  });
+
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  it("should discard the results of out-of-date validations", async () => {
+    const { calls, validator } = deferredValidator();
+    const store = testStore({
+      validationBehaviorConfig: onChangeBehavior,
+      mutableImplStore: mutableImplStore(validator),
+    });
+
+    store.getState().onFieldChange("firstName", "Ja");
+    store.getState().onFieldChange("firstName", "Jane");
+    await tick();
+    expect(calls).toHaveLength(2);
+
+    calls[1].resolve({ firstName: "Fresh error" });
+    await tick();
+    expect(store.getState().validationErrors).toEqual({
+      firstName: "Fresh error",
+    });
+
+    calls[0].resolve({ firstName: "Stale error" });
+    await tick();
+    expect(store.getState().validationErrors).toEqual({
+      firstName: "Fresh error",
+    });
+  });
+
+  it("should still show errors for fields whose validation was superseded", async () => {
+    const { calls, validator } = deferredValidator();
+    const store = testStore({
+      validationBehaviorConfig: onChangeBehavior,
+      mutableImplStore: mutableImplStore(validator),
+    });
+
+    store.getState().onFieldChange("firstName", "Jane");
+    store.getState().onFieldChange("lastName", "Doe");
+    await tick();
+
+    calls[1].resolve({ firstName: "Invalid", lastName: "Invalid" });
+    calls[0].resolve({ firstName: "Invalid" });
+    await tick();
+    expect(store.getState().validationErrors).toEqual({
+      firstName: "Invalid",
+      lastName: "Invalid",
+    });
+  });
+
+  it("should abort superseded validations", async () => {
+    const { calls, validator } = deferredValidator();
+    const store = testStore({
+      validationBehaviorConfig: onChangeBehavior,
+      mutableImplStore: mutableImplStore(validator),
+    });
+
+    store.getState().onFieldChange("firstName", "Ja");
+    await tick();
+    expect(calls[0].signal?.aborted).toBe(false);
+
+    store.getState().onFieldChange("firstName", "Jane");
+    await tick();
+    expect(calls[0].signal?.aborted).toBe(true);
+    expect(calls[1].signal?.aborted).toBe(false);
+  });
+
+  it("should not write errors from field validations that finish after a full validation starts", async () => {
+    const { calls, validator } = deferredValidator();
+    const store = testStore({
+      validationBehaviorConfig: onChangeBehavior,
+      mutableImplStore: mutableImplStore(validator),
+    });
+
+    store.getState().onFieldChange("firstName", "Jane");
+    await tick();
+    const validation = store.getState().validate();
+    await tick();
+
+    calls[1].resolve({ lastName: "Required" });
+    calls[0].resolve({ firstName: "Stale" });
+    await validation;
+    await tick();
+    expect(store.getState().validationErrors).toEqual({
+      lastName: "Required",
+    });
+  });
+
+  it("should debounce onChange validation", async () => {
+    const { calls, validator } = deferredValidator();
+    const store = testStore({
+      validationBehaviorConfig: { ...onChangeBehavior, debounce: 20 },
+      mutableImplStore: mutableImplStore(validator),
+    });
+
+    store.getState().onFieldChange("firstName", "J");
+    store.getState().onFieldChange("firstName", "Ja");
+    store.getState().onFieldChange("firstName", "Jane");
+    await tick();
+    expect(calls).toHaveLength(0);
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(calls).toHaveLength(1);
+    expect(calls[0].data).toEqual({ firstName: "Jane" });
+  });
+
+  it("should validate immediately on blur when a debounced validation is pending", async () => {
+    const { calls, validator } = deferredValidator();
+    const store = testStore({
+      validationBehaviorConfig: { ...onChangeBehavior, debounce: 1000 },
+      mutableImplStore: mutableImplStore(validator),
+    });
+
+    store.getState().onFieldChange("firstName", "Jane");
+    store.getState().onFieldBlur("firstName");
+    await tick();
+    expect(calls).toHaveLength(1);
+  });
+
+  it("should track which fields are validating", async () => {
+    const { calls, validator } = deferredValidator();
+    const store = testStore({
+      validationBehaviorConfig: onChangeBehavior,
+      mutableImplStore: mutableImplStore(validator),
+    });
+    expect(store.getState().hasBeenValidated).toBe(false);
+
+    store.getState().onFieldChange("firstName", "Jane");
+    store.getState().onFieldChange("lastName", "Doe");
+    await tick();
+    expect(store.getState().validatingFields).toEqual({
+      firstName: true,
+      lastName: true,
+    });
+
+    // Superseded, so the fields are still waiting on the newer validation
+    calls[0].resolve();
+    await tick();
+    expect(store.getState().validatingFields).toEqual({
+      firstName: true,
+      lastName: true,
+    });
+    expect(store.getState().hasBeenValidated).toBe(false);
+
+    calls[1].resolve({ lastName: "Invalid" });
+    await tick();
+    expect(store.getState().validatingFields).toEqual({});
+    expect(store.getState().hasBeenValidated).toBe(true);
+
+    void store.getState().validate();
+    await tick();
+    expect(store.getState().formValidating).toBe(true);
+
+    calls[2].resolve();
+    await tick();
+    expect(store.getState().formValidating).toBe(false);
+
+    store.getState().reset();
+    expect(store.getState().hasBeenValidated).toBe(false);
+  });
+
+  it("should keep the form validating until every full validation has finished", async () => {
+    const { calls, validator } = deferredValidator();
+    const store = testStore({
+      validationBehaviorConfig: onChangeBehavior,
+      mutableImplStore: mutableImplStore(validator),
+    });
+
+    void store.getState().validate();
+    await tick();
+    store.getState().onFieldChange("firstName", "Jane");
+    await tick();
+    expect(store.getState().formValidating).toBe(true);
+
+    // The field validation finishes first
+    calls[1].resolve();
+    await tick();
+    expect(store.getState().validatingFields).toEqual({});
+    expect(store.getState().formValidating).toBe(true);
+
+    calls[0].resolve();
+    await tick();
+    expect(store.getState().formValidating).toBe(false);
+  });
+
+  it("should abort superseded full validations", async () => {
+    const { calls, validator } = deferredValidator();
+    const store = testStore({
+      validationBehaviorConfig: onChangeBehavior,
+      mutableImplStore: mutableImplStore({
+        ...validator,
+        validate: (data, opts) => {
+          const result = validator.validate(data, opts);
+          return new Promise((resolve, reject) => {
+            opts?.signal?.addEventListener("abort", () =>
+              reject(opts.signal?.reason),
+            );
+            void result.then(resolve);
+          });
+        },
+      }),
+    });
+
+    const first = store.getState().validate();
+    await tick();
+    expect(calls[0].signal?.aborted).toBe(false);
+
+    const second = store.getState().validate();
+    await tick();
+    expect(calls[0].signal?.aborted).toBe(true);
+    expect(calls[1].signal?.aborted).toBe(false);
+
+    calls[1].resolve({ firstName: "Invalid" });
+    const expected = {
+      errors: { firstName: "Invalid" },
+      data: undefined,
+    };
+    expect(await second).toEqual(expected);
+    expect(await first).toEqual(expected);
+    expect(store.getState().formValidating).toBe(false);
+  });
+
+  it("should sequence validateFields with other validations", async () => {
+    const { calls, validator } = deferredValidator();
+    const store = testStore({
+      validationBehaviorConfig: onChangeBehavior,
+      mutableImplStore: mutableImplStore(validator),
+    });
+
+    store.getState().onFieldChange("firstName", "Jane");
+    await tick();
+    const validation = store.getState().validateFields(["lastName"]);
+    await tick();
+    expect(calls[0].signal?.aborted).toBe(true);
+    expect(calls[1].signal?.aborted).toBe(false);
+    expect(store.getState().validatingFields).toEqual({
+      firstName: true,
+      lastName: true,
+    });
+
+    calls[1].resolve({ firstName: "Invalid", lastName: "Required" });
+    calls[0].resolve({ firstName: "Stale" });
+    expect(await validation).toEqual({ lastName: "Required" });
+    await tick();
+    expect(store.getState().validatingFields).toEqual({});
+    expect(store.getState().validationErrors).toEqual({
+      firstName: "Invalid",
+      lastName: "Required",
+    });
+
+    const staleValidation = store.getState().validateFields(["lastName"]);
+    await tick();
+    store.getState().onFieldChange("lastName", "Doe");
+    await tick();
+    calls[3].resolve({ firstName: "Invalid" });
+    calls[2].resolve({ firstName: "Invalid", lastName: "Required" });
+    expect(await staleValidation).toEqual({ lastName: "Required" });
+    await tick();
+    expect(store.getState().validationErrors).toEqual({
+      firstName: "Invalid",
+    });
+  });
+
+  it("should update warnings in validateFields", async () => {
+    const store = testStore({
+      mutableImplStore: mutableImplStore(
+        createValidator({
+          validate: async (data) => ({
+            data,
+            error: undefined,
+            warnings: { firstName: "Unusual name", lastName: "Unusual name" },
+          }),
+        }),
+      ),
+    });
+
+    expect(await store.getState().validateFields(["firstName"])).toEqual({});
+    expect(store.getState().validationWarnings).toEqual({
+      firstName: "Unusual name",
+    });
+    expect(store.getState().touchedFields).toEqual({ firstName: true });
+    expect(store.getState().formValidating).toBe(false);
+  });
+
+  it("should only validate the given fields when the validator can validate them on their own", async () => {
+    const validate = vi.fn();
+    const store = testStore({
+      mutableImplStore: mutableImplStore(
+        createValidator({
+          validate,
+          validateField: async (fieldName) => ({
+            error: { [fieldName]: "Invalid" },
+          }),
+        }),
+      ),
+    });
+    store.getState().setError("lastName", "Required");
+
+    expect(
+      await store.getState().validateFields(["firstName", "email"]),
+    ).toEqual({ firstName: "Invalid", email: "Invalid" });
+    expect(validate).not.toHaveBeenCalled();
+    expect(store.getState().validationErrors).toEqual({
+      firstName: "Invalid",
+      lastName: "Required",
+      email: "Invalid",
+    });
+    expect(store.getState().hasBeenValidated).toBe(false);
+  });
+});
+
 describe("arrays", () => {
   it("should push into arrays", () => {
     const store = testStore();
@@ -205,6 +558,7 @@ describe("arrays", () => {
         "foo[0]": true,
       },
       dirtyFields: {
+        foo: true,
         "foo[0]": true,
       },
       validationErrors: {
@@ -250,6 +604,7 @@ describe("arrays", () => {
         "foo[0].name": true,
       },
       dirtyFields: {
+        "foo[0].notes": true,
         "foo[0].name": true,
       },
       validationErrors: {
@@ -297,6 +652,7 @@ describe("arrays", () => {
         "foo[0]": true,
       },
       dirtyFields: {
+        foo: true,
         "foo[0]": true,
       },
       validationErrors: {
@@ -345,7 +701,9 @@ describe("arrays", () => {
           { name: "value", notes: [{ text: "thing" }] },
         ],
       },
-      dirtyFields: {},
+      dirtyFields: {
+        "foo[0].notes": true,
+      },
       touchedFields: {},
       validationErrors: {},
       fieldArrayKeys: {
@@ -368,7 +726,10 @@ describe("arrays", () => {
       values: {
         foo: [{ name: "bar", notes: [{ text: "baz" }] }],
       },
-      dirtyFields: {},
+      dirtyFields: {
+        foo: true,
+        "foo[0].notes": true,
+      },
       touchedFields: {},
       validationErrors: {},
       fieldArrayKeys: {
@@ -416,6 +777,7 @@ describe("arrays", () => {
         "foo[0]": true,
       },
       dirtyFields: {
+        foo: true,
         "foo[0]": true,
       },
       validationErrors: {
@@ -464,7 +826,9 @@ describe("arrays", () => {
           { name: "value", notes: [{ text: "thing" }] },
         ],
       },
-      dirtyFields: {},
+      dirtyFields: {
+        "foo[0].notes": true,
+      },
       touchedFields: {},
       validationErrors: {},
       fieldArrayKeys: {
@@ -487,7 +851,9 @@ describe("arrays", () => {
       values: {
         foo: [{ name: "value", notes: [{ text: "thing" }] }],
       },
-      dirtyFields: {},
+      dirtyFields: {
+        foo: true,
+      },
       touchedFields: {},
       validationErrors: {},
       fieldArrayKeys: {
@@ -536,6 +902,7 @@ describe("arrays", () => {
         "foo[2]": true,
       },
       dirtyFields: {
+        foo: true,
         "foo[1]": true,
         "foo[2]": true,
       },
@@ -589,7 +956,9 @@ describe("arrays", () => {
           { name: "value", notes: [{ text: "thing" }] },
         ],
       },
-      dirtyFields: {},
+      dirtyFields: {
+        foo: true,
+      },
       touchedFields: {},
       validationErrors: {},
       fieldArrayKeys: {
@@ -616,7 +985,10 @@ describe("arrays", () => {
           { name: "value", notes: [{ text: "thing" }] },
         ],
       },
-      dirtyFields: {},
+      dirtyFields: {
+        foo: true,
+        "foo[0].notes": true,
+      },
       touchedFields: {},
       validationErrors: {},
       fieldArrayKeys: {
@@ -666,6 +1038,7 @@ describe("arrays", () => {
         "foo[2]": true,
       },
       dirtyFields: {
+        foo: true,
         "foo[0]": true,
         "foo[2]": true,
       },
@@ -723,7 +1096,9 @@ describe("arrays", () => {
         ],
       },
       touchedFields: {},
-      dirtyFields: {},
+      dirtyFields: {
+        foo: true,
+      },
       validationErrors: {},
       fieldArrayKeys: {
         foo: ["a", expect.any(String), "b", "c"],
@@ -755,7 +1130,10 @@ describe("arrays", () => {
         ],
       },
       touchedFields: {},
-      dirtyFields: {},
+      dirtyFields: {
+        foo: true,
+        "foo[0].notes": true,
+      },
       validationErrors: {},
       fieldArrayKeys: {
         foo: ["a", expect.any(String), "b", "c"],
@@ -811,6 +1189,7 @@ describe("arrays", () => {
         "foo[3]": true,
       },
       dirtyFields: {
+        foo: true,
         "foo[0]": false,
         "foo[2]": true,
         "foo[3]": true,
@@ -867,7 +1246,9 @@ describe("arrays", () => {
         ],
       },
       touchedFields: {},
-      dirtyFields: {},
+      dirtyFields: {
+        foo: true,
+      },
       validationErrors: {},
       fieldArrayKeys: {
         foo: ["b", "c", "a"],
@@ -895,7 +1276,10 @@ describe("arrays", () => {
         ],
       },
       touchedFields: {},
-      dirtyFields: {},
+      dirtyFields: {
+        foo: true,
+        "foo[2].notes": true,
+      },
       validationErrors: {},
       fieldArrayKeys: {
         foo: ["b", "c", "a"],
@@ -950,6 +1334,7 @@ describe("arrays", () => {
         "foo[2]": false,
       },
       dirtyFields: {
+        foo: true,
         "foo[0]": false,
         "foo[1]": true,
       },
@@ -1005,7 +1390,9 @@ describe("arrays", () => {
         ],
       },
       touchedFields: {},
-      dirtyFields: {},
+      dirtyFields: {
+        foo: true,
+      },
       validationErrors: {},
       fieldArrayKeys: {
         foo: ["a", "c"],
@@ -1041,7 +1428,10 @@ describe("arrays", () => {
         ],
       },
       touchedFields: {},
-      dirtyFields: {},
+      dirtyFields: {
+        foo: true,
+        "foo[0].notes": true,
+      },
       validationErrors: {},
       fieldArrayKeys: {
         foo: ["a", "c"],
@@ -1107,6 +1497,7 @@ describe("arrays", () => {
         "foo[3]": true,
       },
       dirtyFields: {
+        foo: true,
         "foo[0]": false,
         "foo[2]": true,
         "foo[3]": true,
@@ -1155,7 +1546,9 @@ describe("arrays", () => {
         foo: [],
       },
       touchedFields: {},
-      dirtyFields: {},
+      dirtyFields: {
+        foo: true,
+      },
       validationErrors: {},
       fieldArrayKeys: {
         foo: [],
@@ -1205,7 +1598,9 @@ describe("arrays", () => {
           { name: "bar", notes: [{ text: "baz" }, { text: "another" }] },
         ],
       },
-      dirtyFields: {},
+      dirtyFields: {
+        foo: true,
+      },
       touchedFields: {},
       validationErrors: {},
       fieldArrayKeys: {
@@ -1233,7 +1628,10 @@ describe("arrays", () => {
           { name: "bar", notes: [{ text: "another" }, { text: "baz" }] },
         ],
       },
-      dirtyFields: {},
+      dirtyFields: {
+        foo: true,
+        "foo[2].notes": true,
+      },
       touchedFields: {},
       validationErrors: {},
       fieldArrayKeys: {
@@ -1289,6 +1687,7 @@ describe("arrays", () => {
         "foo[3]": false,
       },
       dirtyFields: {
+        foo: true,
         "foo[0]": false,
         "foo[2]": true,
       },
@@ -1344,7 +1743,9 @@ describe("arrays", () => {
           { name: "value", notes: [{ text: "thing" }] },
         ],
       },
-      dirtyFields: {},
+      dirtyFields: {
+        foo: true,
+      },
       touchedFields: {},
       validationErrors: {},
       fieldArrayKeys: {
@@ -1372,7 +1773,10 @@ describe("arrays", () => {
           { name: "value", notes: [{ text: "jim" }] },
         ],
       },
-      dirtyFields: {},
+      dirtyFields: {
+        foo: true,
+        "foo[1].notes": true,
+      },
       touchedFields: {},
       validationErrors: {},
       fieldArrayKeys: {
@@ -1426,6 +1830,153 @@ it("should be able to `resetField` on a whole array", () => {
   });
 });
 
+describe("unregistering fields", () => {
+  it("should keep the indices of the other array items", () => {
+    const store = testStore({
+      defaultValues: { tags: ["a", "b", "c"], name: "Jane" },
+    });
+    store.getState().setTouched("tags[1]", true);
+    store.getState().setTouched("tags[2]", true);
+    store.getState().setError("tags[2]", "Invalid");
+
+    store.getState().unregisterField("tags[1]");
+    expect(store.getState().values).toEqual({
+      tags: ["a", undefined, "c"],
+      name: "Jane",
+    });
+    expect(store.getState().touchedFields).toEqual({ "tags[2]": true });
+    expect(store.getState().validationErrors).toEqual({
+      "tags[2]": "Invalid",
+    });
+  });
+
+  it("should not restore unregistered fields after a reset", () => {
+    const store = testStore({ defaultValues: { name: "Jane" } });
+
+    store.getState().unregisterField("name");
+    expect(store.getState().values).toEqual({});
+
+    store.getState().reset();
+    store.getState().setValue("name", "Bob");
+    store.getState().registerField("name");
+    expect(store.getState().values).toEqual({ name: "Bob" });
+  });
+});
+
+describe("conditional fields", () => {
+  const conditionalStore = (
+    defaultValues: Record<string, any>,
+    validator: Validator<any>,
+    conditionalFields: Record<string, { when: (values: any) => boolean }>,
+  ) =>
+    testStore({
+      defaultValues,
+      mutableImplStore: {
+        onSubmitFailure: vi.fn(),
+        onSubmitSuccess: vi.fn(),
+        onBeforeSubmit: vi.fn(),
+        onInvalidSubmit: vi.fn(),
+        validator,
+        onSubmit: () => Promise.resolve(),
+        conditionalFields,
+      },
+    });
+
+  it("should keep errors on the right array items when items before them are inactive", async () => {
+    const validateField = vi.fn(async (fieldName: string, data: any) => {
+      const [, index] = /^items\[(\d+)\]/.exec(fieldName)!;
+      return data.items[Number(index)].name
+        ? {}
+        : { error: { [fieldName]: "Required" } };
+    });
+    const store = conditionalStore(
+      { items: [{ name: "a" }, { name: "b" }, { name: "" }] },
+      createValidator({
+        validate: async (data: any) => {
+          const errors: FieldErrors = {};
+          data.items.forEach((item: any, index: number) => {
+            if (!item.name) errors[`items[${index}].name`] = "Required";
+          });
+          return Object.keys(errors).length > 0
+            ? { data: undefined, error: errors }
+            : { data, error: undefined };
+        },
+        validateField,
+      }),
+      { "items[1]": { when: () => false } },
+    );
+
+    await store.getState().validate();
+    expect(store.getState().validationErrors).toEqual({
+      "items[2].name": "Required",
+    });
+
+    store.getState().setError("items[2].name", null);
+    await store.getState().validateField("items[2].name");
+    expect(validateField).toHaveBeenCalledWith(
+      "items[1].name",
+      { items: [{ name: "a" }, { name: "" }] },
+      expect.anything(),
+    );
+    expect(store.getState().validationErrors).toEqual({
+      "items[2].name": "Required",
+    });
+  });
+
+  it("should not keep errors for inactive fields", async () => {
+    const store = conditionalStore(
+      { accountType: "personal", companyName: "" },
+      createValidator({
+        validate: async () => ({
+          data: undefined,
+          error: { companyName: "Required", accountType: "Invalid" },
+        }),
+      }),
+      { companyName: { when: (values) => values.accountType === "business" } },
+    );
+
+    await store.getState().validate();
+    expect(store.getState().validationErrors).toEqual({
+      accountType: "Invalid",
+    });
+
+    await store.getState().validateFields(["companyName", "accountType"]);
+    expect(store.getState().validationErrors).toEqual({
+      accountType: "Invalid",
+    });
+  });
+});
+
+describe("computed fields", () => {
+  it("should only compute when the values change", () => {
+    const compute = vi.fn((values: any) => values.a + values.b);
+    const store = testStore({
+      defaultValues: { a: 1, b: 2, sum: 0 },
+      mutableImplStore: {
+        onSubmitFailure: vi.fn(),
+        onSubmitSuccess: vi.fn(),
+        onBeforeSubmit: vi.fn(),
+        onInvalidSubmit: vi.fn(),
+        validator: createValidator({
+          validate: () => Promise.resolve({ data: null, error: undefined }),
+        }),
+        onSubmit: () => Promise.resolve(),
+        computedFields: { sum: { compute } },
+      },
+    });
+    expect(store.getState().values.sum).toBe(3);
+    compute.mockClear();
+
+    store.getState().setTouched("a", true);
+    store.getState().setError("a", "Invalid");
+    expect(compute).not.toHaveBeenCalled();
+
+    store.getState().setValue("a", 2);
+    expect(compute).toHaveBeenCalledTimes(1);
+    expect(store.getState().values.sum).toBe(4);
+  });
+});
+
 describe("resolver queue", () => {
   it("should resolve", async () => {
     const queue = createResolverQueue();
@@ -5,26 +5,48 @@ import {
   pathArrayToString,
 } from "@rvf/set-get";
 import { create } from "zustand/react";
-import { immer } from "./immer";
+import { immer, transformUpdates } from "./immer";
 import {
   setFormControlValue,
   focusOrReport,
   getElementsWithNames,
 } from "./dom/dom";
 import {
+  AllFieldErrors,
   FieldArrayValidationBehavior,
   FieldArrayValidationBehaviorConfig,
   FieldErrors,
+  FieldValidationResult,
+  FieldValidator,
   FieldValues,
   SubmitStatus,
   ValidationBehavior,
   ValidationBehaviorConfig,
+  ValidationResult,
   Validator,
 } from "./types";
 import { GenericObject, preprocessFormData } from "./native-form-data/flatten";
 import { MultiValueMap } from "./native-form-data/MultiValueMap";
 import { insert, move, remove, replace, toSwapped } from "./arrayUtil";
-import { getFieldDefaultValue, getFieldValue } from "./getters";
+import { getFieldDefaultValue, getFieldValue, isFieldWithin } from "./getters";
+import { isEqual } from "./equality";
+import { isValidationErrorResponse } from "./createValidator";
+import {
+  ConditionalFields,
+  clearFields,
+  fromOmittedFieldName,
+  getInactiveFields,
+  isFieldInactive,
+  omitFields,
+  toOmittedFieldName,
+} from "./conditional";
+import {
+  ComputedFields,
+  getUnsubmittedComputedFields,
+  isComputedField,
+  updateComputedFields,
+} from "./computed";
+import { FieldDependencies, getDependentFields } from "./dependencies";
 
 export type FieldSerializer = (value: unknown) => string;
 
@@ -143,19 +165,50 @@ export type StoreFormProps = {
 export type StoreFlags = {
   disableFocusOnError: boolean;
   reloadDocument: boolean;
+  /**
+   * Removes fields from the form when all of their inputs are unmounted.
+   */
+  shouldUnregister?: boolean;
 };
 
 class CancelSubmitError extends Error {}
 
+/**
+ * Validators configured to return every error give a list of messages for each field.
+ * Those are stored alongside single messages, like the ones from field validators.
+ */
+type ErrorMessages = Record<string, string | string[]>;
+
 type StoreState = {
   values: FieldValues;
   defaultValues: FieldValues;
   touchedFields: Record<string, boolean>;
   dirtyFields: Record<string, boolean>;
-  validationErrors: Record<string, string>;
+  validationErrors: ErrorMessages;
+  /**
+   * Messages that are shown to the user, but don't block submission.
+   */
+  validationWarnings: Record<string, string>;
+  /**
+   * Fields that have requested validation, but haven't had a result written yet.
+   */
+  validatingFields: Record<string, boolean>;
+  /**
+   * Whether a validation of the entire form is in progress.
+   */
+  formValidating: boolean;
+  /**
+   * Whether any validation has finished since the form was last reset.
+   */
+  hasBeenValidated: boolean;
   submitStatus: SubmitStatus;
   fieldArrayKeys: Record<string, Array<string>>;
   arrayUpdateKeys: Record<string, string>;
+  /**
+   * Kept up to date by the form history, if there is one.
+   */
+  canUndo: boolean;
+  canRedo: boolean;
   validationBehaviorConfig: ValidationBehaviorConfig;
   submitSource: "state" | "dom";
   formProps: StoreFormProps;
@@ -185,16 +238,21 @@ type StoreEvents = {
   ) => void;
 };
 
+type FormValidationResult =
+  | { data: GenericObject; errors: undefined }
+  | { errors: ErrorMessages; data: undefined };
+
 type StoreActions = {
   setValue: (fieldName: string, value: unknown) => void;
   setTouched: (fieldName: string, value: boolean) => void;
   setDirty: (fieldName: string, value: boolean) => void;
   setError: (fieldName: string, value: string | null) => void;
+  setWarning: (fieldName: string, value: string | null) => void;
 
   setAllValues: (data: FieldValues) => void;
   setAllTouched: (data: Record<string, boolean>) => void;
   setAllDirty: (data: Record<string, boolean>) => void;
-  setAllErrors: (data: Record<string, string>) => void;
+  setAllErrors: (data: ErrorMessages) => void;
 
   getFormValuesForValidation: (opts?: {
     /**
@@ -218,16 +276,35 @@ type StoreActions = {
   validate: (
     nextValues?: FieldValues,
     shouldMarkSubmitted?: boolean,
-  ) => Promise<
-    | { data: GenericObject; errors: undefined }
-    | { errors: Record<string, string>; data: undefined }
-  >;
+  ) => Promise<FormValidationResult>;
+  /**
+   * Validates the form and updates the messages for the field.
+   * `data` is only returned when the whole form was validated,
+   * because the validator might only parse the field.
+   */
   validateField: (
     fieldName: string,
   ) => Promise<
-    | { data: GenericObject; errors: undefined }
-    | { errors: Record<string, string>; data: undefined }
+    | { data: GenericObject | undefined; errors: undefined }
+    | { errors: ErrorMessages; data: undefined }
   >;
+  /**
+   * Validates the form and always shows the messages for the given fields and the fields nested inside them.
+   * Those fields are marked as touched, and messages for the rest of the form are updated the same way `validateField` does.
+   * If the validator can validate each of the fields on its own, the rest of the form isn't validated.
+   * Returns the errors for the given fields.
+   */
+  validateFields: (fieldNames: string[]) => Promise<ErrorMessages>;
+  /**
+   * Runs the field-level validators registered for the given fields.
+   * Results for fields not in `fieldNames` are reused from the last time they ran.
+   * If `fieldNames` isn't provided, all field-level validators are run.
+   */
+  runFieldValidators: (
+    values: GenericObject,
+    fieldNames?: string[],
+    signal?: AbortSignal,
+  ) => Promise<FieldErrors>;
   focusFirstInvalidField: () => void;
 
   syncOptions: (opts: {
@@ -237,11 +314,27 @@ type StoreActions = {
     flags: StoreFlags;
   }) => void;
 
-  syncServerValidationErrors: (errors: FieldErrors) => void;
+  syncServerValidationErrors: (errors: ErrorMessages) => void;
+
+  /**
+   * Discards the results of any field validations that are still in progress.
+   * The form history uses this, because those results are for values that were just undone or redone.
+   */
+  cancelPendingValidations: () => void;
 
   reset: (nextValues?: FieldValues) => void;
   resetField: (fieldName: string, nextValue?: unknown) => void;
 
+  /**
+   * Restores the default value of a field that was removed by `unregisterField`.
+   * Does nothing for fields that were never removed.
+   */
+  registerField: (fieldName: string) => void;
+  /**
+   * Removes the value and state of a field if none of its inputs are mounted anymore.
+   */
+  unregisterField: (fieldName: string) => void;
+
   getFieldArrayKeys: (fieldName: string) => Array<string>;
   arrayPush: (
     fieldName: string,
@@ -305,12 +398,16 @@ export type DomSubmitHandler<Data = any, ResponseData = any> = (
 ) => void | Promise<ResponseData>;
 
 export type MutableImplStore = {
-  validator: Validator<any>;
+  validator: Validator<any, FieldErrors | AllFieldErrors>;
   onSubmit: StateSubmitHandler | DomSubmitHandler;
   onSubmitSuccess: (responseData: unknown) => void | Promise<void>;
   onSubmitFailure: (error: unknown) => void | Promise<void>;
   onBeforeSubmit: (beforeSubmitApi: BeforeSubmitApi) => void | Promise<void>;
   onInvalidSubmit: () => void | Promise<void>;
+  conditionalFields?: ConditionalFields;
+  computedFields?: ComputedFields;
+  fieldDependencies?: FieldDependencies;
+  formAction?: (formData: FormData) => void | Promise<void>;
 };
 
 const defaultValidationBehaviorConfig: ValidationBehaviorConfig = {
@@ -324,6 +421,7 @@ export type FormStoreInit = {
   transientFieldRefs: RefStore;
   controlledFieldRefs: RefStore;
   fieldSerializerRefs: RefStore<FieldSerializer>;
+  fieldValidatorRefs: RefStore<FieldValidator>;
   resolvers: ResolverQueue;
   formRef: { current: HTMLFormElement | null };
   submitSource: "state" | "dom";
@@ -331,10 +429,11 @@ export type FormStoreInit = {
   validationBehaviorConfig?: ValidationBehaviorConfig;
   formProps: StoreFormProps;
   flags: StoreFlags;
-  serverValidationErrors: FieldErrors;
+  serverValidationErrors: ErrorMessages;
 };
 
-const genKey = () => `${Math.round(Math.random() * 10_000)}-${Date.now()}`;
+export const genKey = () =>
+  `${Math.round(Math.random() * 10_000)}-${Date.now()}`;
 
 const setPathIfUndefined = (
   obj: Record<string, any>,
@@ -396,6 +495,119 @@ export const moveFieldArrayKeys = (
   });
 };
 
+type FieldMessageUpdates = {
+  fieldsToUpdate: Set<string>;
+  fieldsToDelete: Set<string>;
+};
+
+const isSameMessage = (a: string | string[], b: string | string[]) => {
+  if (Array.isArray(a) && Array.isArray(b))
+    return a.length === b.length && a.every((message, i) => message === b[i]);
+  return a === b;
+};
+
+/**
+ * Figures out which error or warning messages should change after validating a field.
+ * New messages for fields the user hasn't interacted with yet are left out,
+ * so we don't show messages for fields the user hasn't gotten to.
+ */
+const getFieldMessageUpdates = (
+  state: FormStoreValue,
+  prevMessages: ErrorMessages,
+  incomingMessages: ErrorMessages,
+  validatingFields: Set<string>,
+): FieldMessageUpdates => {
+  const messageFields = new Set([
+    ...Object.keys(incomingMessages),
+    ...Object.keys(prevMessages),
+  ]);
+
+  const fieldsToUpdate = new Set<string>();
+  const fieldsToDelete = new Set<string>();
+
+  messageFields.forEach((field) => {
+    const isIncoming = field in incomingMessages;
+    const isPrev = field in prevMessages;
+
+    // If an error has been cleared, remove it.
+    if (!isIncoming) {
+      fieldsToDelete.add(field);
+      return;
+    }
+
+    // If an error has changed, we should update it.
+    if (isPrev) {
+      // Only update if the error has changed to avoid unnecessary rerenders
+      if (!isSameMessage(incomingMessages[field], prevMessages[field]))
+        fieldsToUpdate.add(field);
+      return;
+    }
+
+    // If the error is always included, then we should update it.
+    if (validatingFields.has(field)) {
+      fieldsToUpdate.add(field);
+      return;
+    }
+
+    // If the error is new, then only update if the field has
+    // or if the form has been submitted
+    const fieldTouched = state.touchedFields[field];
+    const formHasBeenSubmitted = state.submitStatus !== "idle";
+    if (fieldTouched || formHasBeenSubmitted) fieldsToUpdate.add(field);
+  });
+
+  return { fieldsToUpdate, fieldsToDelete };
+};
+
+const applyFieldMessageUpdates = (
+  messages: ErrorMessages,
+  incomingMessages: ErrorMessages,
+  { fieldsToUpdate, fieldsToDelete }: FieldMessageUpdates,
+) => {
+  fieldsToDelete.forEach((field) => {
+    delete messages[field];
+  });
+
+  fieldsToUpdate.forEach((field) => {
+    messages[field] = incomingMessages[field];
+  });
+};
+
+/**
+ * The dirty state of each item moves along with it during array operations,
+ * but the array itself is dirty if the order or number of items differs from the default.
+ */
+const updateArrayDirtyState = (state: FormStoreValue, fieldName: string) => {
+  state.dirtyFields[fieldName] = !isEqual(
+    getFieldValue(state, fieldName),
+    getFieldDefaultValue(state, fieldName),
+  );
+};
+
+/**
+ * Deletes the entries for the fields and any fields nested inside them.
+ */
+const deleteFieldStateWithin = (
+  fieldStates: Record<string, any>[],
+  fieldNames: string[],
+) => {
+  fieldStates.forEach((fieldState) => {
+    Object.keys(fieldState)
+      .filter((key) => fieldNames.some((name) => isFieldWithin(key, name)))
+      .forEach((key) => delete fieldState[key]);
+  });
+};
+
+const clearPendingValidations = (state: FormStoreValue) => {
+  // Whichever validation is the latest covers every field that was waiting on a result
+  state.validatingFields = {};
+};
+
+const mergeFieldErrors = (
+  formErrors: ErrorMessages,
+  fieldValidatorErrors: FieldErrors,
+): ErrorMessages => ({ ...fieldValidatorErrors, ...formErrors });
+
 export const toArrayBehavior = (
   config?: ValidationBehaviorConfig,
 ): FieldArrayValidationBehaviorConfig => {
@@ -416,6 +628,7 @@ export const createFormStateStore = ({
   controlledFieldRefs,
   transientFieldRefs,
   fieldSerializerRefs,
+  fieldValidatorRefs,
   resolvers,
   mutableImplStore,
   formRef,
@@ -424,8 +637,196 @@ export const createFormStateStore = ({
   formProps,
   flags,
   serverValidationErrors = {},
-}: FormStoreInit) =>
-  create<FormStoreValue>()(
+}: FormStoreInit) => {
+  // The most recent result of each field's field-level validators.
+  // This lets us avoid rerunning every field validator when only one field changes.
+  const fieldValidatorResults = new Map<string, string | null>();
+  const clearFieldValidatorResults = (fieldName?: string) => {
+    [...fieldValidatorResults.keys()]
+      .filter((key) => !fieldName || isFieldWithin(key, fieldName))
+      .forEach((key) => fieldValidatorResults.delete(key));
+  };
+
+  // Validations can resolve out of order, so each one gets an id.
+  // Only the results of the most recent validation are written to the store.
+  let latestValidationId = 0;
+  let fieldValidationController: AbortController | null = null;
+  let pendingFormValidations = 0;
+
+  // Only the most recent full validation runs to completion.
+  // Older ones are aborted, and resolve with the result of the most recent one.
+  let formValidationController: AbortController | null = null;
+  let latestFormValidation: Promise<FormValidationResult> | null = null;
+  const cancelInFlightFieldValidations = () => {
+    latestValidationId++;
+    fieldValidationController?.abort();
+    fieldValidationController = null;
+  };
+
+  const debouncedValidations = new Map<string, ReturnType<typeof setTimeout>>();
+  const cancelDebouncedValidation = (fieldName: string) => {
+    const hadPendingValidation = debouncedValidations.has(fieldName);
+    clearTimeout(debouncedValidations.get(fieldName));
+    debouncedValidations.delete(fieldName);
+    return hadPendingValidation;
+  };
+  const cancelAllDebouncedValidations = () => {
+    debouncedValidations.forEach((timeout) => clearTimeout(timeout));
+    debouncedValidations.clear();
+  };
+
+  // Fields removed by `unregisterField` get their default value back when they're registered again.
+  const unregisteredFields = new Set<string>();
+
+  const getInactive = (values: unknown) =>
+    getInactiveFields(mutableImplStore.conditionalFields, values);
+
+  // Fields that are left out of validation and submission
+  const getOmittedFields = (values: unknown) => [
+    ...getInactive(values),
+    ...getUnsubmittedComputedFields(mutableImplStore.computedFields),
+  ];
+
+  // Leaving out array items moves the items after them to different indices.
+  // The omitted fields are remembered, so validation results can be moved back to the fields in the form.
+  const omittedFieldsByValues = new WeakMap<object, string[]>();
+  const omitForValidation = (
+    values: GenericObject,
+    omittedFields: string[],
+  ) => {
+    const omitted = omitFields(values, omittedFields);
+    omittedFieldsByValues.set(omitted, omittedFields);
+    return omitted;
+  };
+  const getOmittedFieldsOf = (values: GenericObject) =>
+    omittedFieldsByValues.get(values) ?? [];
+
+  // Messages for fields that were left out are dropped, even if the validator returned them
+  const toFormMessages = <Messages extends ErrorMessages>(
+    messages: Messages,
+    omittedFields: string[],
+  ) =>
+    Object.fromEntries(
+      Object.entries(messages)
+        .map(
+          ([name, message]) =>
+            [fromOmittedFieldName(name, omittedFields), message] as const,
+        )
+        .filter(([name]) => !isFieldInactive(name, omittedFields)),
+    ) as Messages;
+
+  // A change to a field can change whether the fields that depend on it are valid.
+  // Those fields are revalidated if their own validation behavior would validate them on change.
+  const getDependentsToValidate = (fieldName: string) =>
+    getDependentFields(mutableImplStore.fieldDependencies, fieldName).filter(
+      (dependent) => store.getState().shouldValidate("onChange", dependent),
+    );
+
+  const markValidating = (fieldNames: string[]) => {
+    if (fieldNames.length === 0) return;
+    store.setState((state) => {
+      fieldNames.forEach((fieldName) => {
+        state.validatingFields[fieldName] = true;
+      });
+    });
+  };
+
+  const validateWithDependents = (fieldName: string) => {
+    markValidating(getDependentsToValidate(fieldName));
+    void store.getState().validateField(fieldName);
+  };
+
+  const validateDependents = (fieldName: string) => {
+    const [first, ...rest] = getDependentsToValidate(fieldName);
+    if (!first) return;
+    markValidating(rest);
+    void store.getState().validateField(first);
+  };
+
+  const validateForm = async (
+    nextValues: FieldValues | undefined,
+    shouldMarkSubmitted: boolean,
+  ): Promise<FormValidationResult> => {
+    if (store.getState().submitSource === "dom") {
+      await resolvers.await();
+    }
+
+    // A full validation supersedes any field validations that are in progress
+    cancelAllDebouncedValidations();
+    cancelInFlightFieldValidations();
+    const validationId = latestValidationId;
+    const isLatest = () => validationId === latestValidationId;
+    formValidationController?.abort();
+    const controller = new AbortController();
+    formValidationController = controller;
+    // Full validations can overlap, so the form is validating until all of them have finished
+    pendingFormValidations++;
+    store.setState((state) => {
+      state.formValidating = true;
+    });
+
+    try {
+      const values =
+        nextValues ?? store.getState().getFormValuesForValidation()[0];
+      const omittedFields = getOmittedFieldsOf(values);
+      let result: ValidationResult<any, FieldErrors | AllFieldErrors>;
+      let fieldValidatorErrors: FieldErrors;
+      try {
+        [result, fieldValidatorErrors] = await Promise.all([
+          mutableImplStore.validator.validate(values, {
+            signal: controller.signal,
+          }),
+          store
+            .getState()
+            .runFieldValidators(values, undefined, controller.signal),
+        ]);
+      } catch (err) {
+        // The validation that aborted this one provides the result instead
+        if (controller.signal.aborted) return latestFormValidation!;
+        if (isLatest()) store.setState(clearPendingValidations);
+        throw err;
+      }
+
+      const warnings = toFormMessages(result.warnings ?? {}, omittedFields);
+      if (result.data && Object.keys(fieldValidatorErrors).length === 0) {
+        if (isLatest()) {
+          store.setState((state) => {
+            clearPendingValidations(state);
+            state.validationErrors = {};
+            state.validationWarnings = warnings;
+            state.hasBeenValidated = true;
+          });
+        }
+        return { data: result.data, errors: undefined };
+      }
+
+      const errors = mergeFieldErrors(
+        toFormMessages(result.error?.fieldErrors ?? {}, omittedFields),
+        fieldValidatorErrors,
+      );
+
+      // Even if a newer validation has started,
+      // the submit status still needs to reflect this validation
+      store.setState((state) => {
+        if (isLatest()) {
+          clearPendingValidations(state);
+          state.validationErrors = errors;
+          state.validationWarnings = warnings;
+          state.hasBeenValidated = true;
+        }
+        if (shouldMarkSubmitted) state.submitStatus = "error";
+      });
+
+      return { errors, data: undefined };
+    } finally {
+      pendingFormValidations--;
+      store.setState((state) => {
+        state.formValidating = pendingFormValidations > 0;
+      });
+    }
+  };
+
+  const store = create<FormStoreValue>()(
     immer((set, get) => ({
       /////// State
       values: defaultValues,
@@ -433,11 +834,17 @@ export const createFormStateStore = ({
       touchedFields: {},
       dirtyFields: {},
       validationErrors: serverValidationErrors,
+      validationWarnings: {},
+      validatingFields: {},
+      formValidating: false,
+      hasBeenValidated: Object.keys(serverValidationErrors).length > 0,
       // If we have default errors, lets treat that as a failed server-side validation
       submitStatus:
         Object.keys(serverValidationErrors).length > 0 ? "error" : "idle",
       fieldArrayKeys: {},
       arrayUpdateKeys: {},
+      canUndo: false,
+      canRedo: false,
       validationBehaviorConfig,
       submitSource,
       formProps,
@@ -445,8 +852,10 @@ export const createFormStateStore = ({
 
       /////// Validation
       getFormValuesForValidation: ({ injectedData } = {}) => {
-        if (get().submitSource === "state")
-          return [{ ...get().values, ...injectedData }];
+        if (get().submitSource === "state") {
+          const values = { ...get().values, ...injectedData };
+          return [omitForValidation(values, getOmittedFields(values))];
+        }
 
         const form = formRef.current;
         if (!form)
@@ -464,8 +873,17 @@ export const createFormStateStore = ({
         }
 
         const preprocessed = preprocessFormData(formData);
-
-        return [preprocessed, formData] as const;
+        const omittedFields = getOmittedFields(preprocessed);
+        if (omittedFields.length === 0)
+          return [preprocessed, formData] as const;
+
+        [...new Set(formData.keys())]
+          .filter((key) => isFieldInactive(key, omittedFields))
+          .forEach((key) => formData.delete(key));
+        return [
+          omitForValidation(preprocessed, omittedFields),
+          formData,
+        ] as const;
       },
       shouldValidate: (eventType, fieldName, behaviorOverride) => {
         if (eventType === "onSubmit") return true;
@@ -500,6 +918,9 @@ export const createFormStateStore = ({
       },
 
       maybeValidateArrayOperation: async (fieldName, behaviorOverride) => {
+        // Items may have moved, so any cached field validator results for them are stale
+        clearFieldValidatorResults(fieldName);
+
         if (get().submitSource === "dom") {
           await resolvers.queue();
         }
@@ -508,33 +929,14 @@ export const createFormStateStore = ({
           get().validateField(fieldName);
         } else {
           get().setError(fieldName, null);
+          get().setWarning(fieldName, null);
         }
       },
 
-      validate: async (nextValues, shouldMarkSubmitted = false) => {
-        if (get().submitSource === "dom") {
-          await resolvers.await();
-        }
-
-        const result = await mutableImplStore.validator.validate(
-          nextValues ?? get().getFormValuesForValidation()[0],
-        );
-
-        if (result.data) {
-          set((state) => {
-            state.validationErrors = {};
-          });
-          return { data: result.data, errors: undefined };
-        }
-
-        const errors = result.error?.fieldErrors ?? {};
-
-        set((state) => {
-          state.validationErrors = errors;
-          if (shouldMarkSubmitted) state.submitStatus = "error";
-        });
-
-        return { errors, data: undefined };
+      validate: (nextValues, shouldMarkSubmitted = false) => {
+        const validation = validateForm(nextValues, shouldMarkSubmitted);
+        latestFormValidation = validation;
+        return validation;
       },
 
       validateField: async (fieldName) => {
@@ -561,92 +963,415 @@ export const createFormStateStore = ({
           await resolvers.await();
         }
 
+        cancelInFlightFieldValidations();
+        const validationId = latestValidationId;
+        const controller = new AbortController();
+        fieldValidationController = controller;
+
+        // If this validation supersedes others that haven't finished,
+        // we need to handle the fields those validations were for as well.
+        set((state) => {
+          state.validatingFields[fieldName] = true;
+        });
+        const validatingFields = new Set(Object.keys(get().validatingFields));
+        const isLatest = () => validationId === latestValidationId;
+
+        // When a validation is superseded, the newer one will update the errors
+        const superseded = () => ({
+          errors: get().validationErrors,
+          data: undefined,
+        });
+
         const [values] = get().getFormValuesForValidation({
           injectedData: serializedData,
         });
-        const validationResult =
-          await mutableImplStore.validator.validate(values);
+        const omittedFields = getOmittedFieldsOf(values);
+        const validatorFieldName = toOmittedFieldName(fieldName, omittedFields);
+
+        // When this is the only field waiting on a result, the validator can skip the rest of the form.
+        // If the validator can't validate the field on its own, the whole form is validated below.
+        const { validator } = mutableImplStore;
+        let fieldResult:
+          | FieldValidationResult<FieldErrors | AllFieldErrors>
+          | undefined;
+        if (
+          validator.validateField &&
+          validatingFields.size === 1 &&
+          validatorFieldName !== null
+        ) {
+          try {
+            fieldResult = await validator.validateField(
+              validatorFieldName,
+              values,
+              {
+                signal: controller.signal,
+              },
+            );
+          } catch (err) {
+            if (controller.signal.aborted) return superseded();
+            if (isLatest()) set(clearPendingValidations);
+            throw err;
+          }
 
-        if (validationResult.data) {
-          // Only update the field errors if it hasn't changed
-          if (Object.keys(get().validationErrors).length > 0) {
-            set((state) => {
-              state.validationErrors = {};
-            });
+          if (!isLatest()) return superseded();
+        }
+
+        if (fieldResult) {
+          const withinField = <Messages extends ErrorMessages>(
+            messages: Messages,
+          ) =>
+            Object.fromEntries(
+              Object.entries(messages).filter(([name]) =>
+                isFieldWithin(name, fieldName),
+              ),
+            ) as Messages;
+
+          let fieldValidatorErrors: FieldErrors;
+          try {
+            fieldValidatorErrors = await get().runFieldValidators(
+              values,
+              [fieldName],
+              controller.signal,
+            );
+          } catch (err) {
+            if (controller.signal.aborted) return superseded();
+            if (isLatest()) set(clearPendingValidations);
+            throw err;
           }
-          return { data: validationResult.data, errors: undefined };
+
+          if (!isLatest()) return superseded();
+
+          const fieldErrors = mergeFieldErrors(
+            withinField(toFormMessages(fieldResult.error ?? {}, omittedFields)),
+            withinField(fieldValidatorErrors),
+          );
+          const warnings = withinField(
+            toFormMessages(fieldResult.warnings ?? {}, omittedFields),
+          );
+          const errorUpdates = getFieldMessageUpdates(
+            get(),
+            withinField(get().validationErrors),
+            fieldErrors,
+            validatingFields,
+          );
+          const warningUpdates = getFieldMessageUpdates(
+            get(),
+            withinField(get().validationWarnings),
+            warnings,
+            validatingFields,
+          );
+
+          // The rest of the form wasn't validated, so `hasBeenValidated` is left alone
+          set((state) => {
+            clearPendingValidations(state);
+            applyFieldMessageUpdates(
+              state.validationErrors,
+              fieldErrors,
+              errorUpdates,
+            );
+            applyFieldMessageUpdates(
+              state.validationWarnings,
+              warnings,
+              warningUpdates,
+            );
+          });
+
+          // Only the field was parsed, so there's no validated data for the whole form
+          const errors = get().validationErrors;
+          return Object.keys(errors).length > 0
+            ? { errors, data: undefined }
+            : { data: undefined, errors: undefined };
         }
 
-        const fieldErrors = validationResult.error?.fieldErrors ?? {};
-        const errorFields = new Set<string>();
-        const incomingErrors = new Set<string>();
-        const prevErrors = new Set<string>();
+        let validationResult: ValidationResult<
+          any,
+          FieldErrors | AllFieldErrors
+        >;
+        let fieldValidatorErrors: FieldErrors;
+        try {
+          [validationResult, fieldValidatorErrors] = await Promise.all([
+            mutableImplStore.validator.validate(values, {
+              signal: controller.signal,
+            }),
+            get().runFieldValidators(
+              values,
+              [...validatingFields],
+              controller.signal,
+            ),
+          ]);
+        } catch (err) {
+          if (controller.signal.aborted) return superseded();
+          if (isLatest()) set(clearPendingValidations);
+          throw err;
+        }
 
-        Object.keys(fieldErrors).forEach((field) => {
-          errorFields.add(field);
-          incomingErrors.add(field);
-        });
+        if (!isLatest()) return superseded();
 
-        Object.keys(get().validationErrors).forEach((field) => {
-          errorFields.add(field);
-          prevErrors.add(field);
-        });
+        const warnings = toFormMessages(
+          validationResult.warnings ?? {},
+          omittedFields,
+        );
+        const warningUpdates = getFieldMessageUpdates(
+          get(),
+          get().validationWarnings,
+          warnings,
+          validatingFields,
+        );
 
-        const fieldsToUpdate = new Set<string>();
-        const fieldsToDelete = new Set<string>();
+        if (
+          validationResult.data &&
+          Object.keys(fieldValidatorErrors).length === 0
+        ) {
+          set((state) => {
+            clearPendingValidations(state);
+            state.hasBeenValidated = true;
+            // Only update the field errors if it hasn't changed
+            if (Object.keys(state.validationErrors).length > 0)
+              state.validationErrors = {};
+            applyFieldMessageUpdates(
+              state.validationWarnings,
+              warnings,
+              warningUpdates,
+            );
+          });
+          return { data: validationResult.data, errors: undefined };
+        }
 
-        errorFields.forEach((field) => {
-          // If an error has been cleared, remove it.
-          if (!incomingErrors.has(field)) {
-            fieldsToDelete.add(field);
-            return;
-          }
+        const fieldErrors = mergeFieldErrors(
+          toFormMessages(
+            validationResult.error?.fieldErrors ?? {},
+            omittedFields,
+          ),
+          fieldValidatorErrors,
+        );
+        const errorUpdates = getFieldMessageUpdates(
+          get(),
+          get().validationErrors,
+          fieldErrors,
+          validatingFields,
+        );
 
-          // If an error has changed, we should update it.
-          if (prevErrors.has(field) && incomingErrors.has(field)) {
-            // Only update if the error has changed to avoid unnecessary rerenders
-            if (fieldErrors[field] !== get().validationErrors[field])
-              fieldsToUpdate.add(field);
-            return;
-          }
+        set((state) => {
+          clearPendingValidations(state);
+          state.hasBeenValidated = true;
+          applyFieldMessageUpdates(
+            state.validationErrors,
+            fieldErrors,
+            errorUpdates,
+          );
+          applyFieldMessageUpdates(
+            state.validationWarnings,
+            warnings,
+            warningUpdates,
+          );
+        });
 
-          // If the error is always included, then we should update it.
-          if (fieldName === field) {
-            fieldsToUpdate.add(field);
-            return;
-          }
+        return {
+          ...validationResult,
+          error: { fieldErrors: get().validationErrors },
+        };
+      },
 
-          // If the error is new, then only update if the field has
-          // or if the form has been submitted
-          if (!prevErrors.has(field)) {
-            get().shouldValidate;
-            const fieldTouched = get().touchedFields[field];
-            const formHasBeenSubmitted = get().submitStatus !== "idle";
-            if (fieldTouched || formHasBeenSubmitted) fieldsToUpdate.add(field);
-            return;
-          }
+      validateFields: async (fieldNames) => {
+        if (get().submitSource === "dom") {
+          await resolvers.await();
+        }
+
+        const isIncluded = (name: string) =>
+          fieldNames.some((path) => isFieldWithin(name, path));
+        const withinFields = <Messages extends ErrorMessages>(
+          messages: Messages,
+        ) =>
+          Object.fromEntries(
+            Object.entries(messages).filter(([name]) => isIncluded(name)),
+          ) as Messages;
+
+        [...debouncedValidations.keys()]
+          .filter(isIncluded)
+          .forEach(cancelDebouncedValidation);
+        cancelInFlightFieldValidations();
+        const validationId = latestValidationId;
+        const isLatest = () => validationId === latestValidationId;
+        const controller = new AbortController();
+        fieldValidationController = controller;
+
+        // Like `validateField`, this also handles the fields from any validations it supersedes
+        set((state) => {
+          fieldNames.forEach((name) => {
+            state.validatingFields[name] = true;
+          });
         });
-        if (fieldsToDelete.size === 0 && fieldsToUpdate.size === 0) {
+        const validatingFields = new Set(Object.keys(get().validatingFields));
+
+        // When a validation is superseded, the newer one will update the errors
+        const superseded = () => withinFields(get().validationErrors);
+
+        const values = get().getFormValuesForValidation()[0];
+        const omittedFields = getOmittedFieldsOf(values);
+
+        // When only these fields are waiting on a result, the validator can skip the rest of the form.
+        // If it can't validate one of them on its own, the whole form is validated instead.
+        const { validator } = mutableImplStore;
+        const validateOnlyFields = async (): Promise<
+          FieldValidationResult<FieldErrors | AllFieldErrors> | undefined
+        > => {
+          const validatorFieldNames = fieldNames.map((name) =>
+            toOmittedFieldName(name, omittedFields),
+          );
+          if (
+            !validator.validateField ||
+            ![...validatingFields].every(isIncluded) ||
+            validatorFieldNames.includes(null)
+          )
+            return undefined;
+
+          const results = await Promise.all(
+            validatorFieldNames.map((name) =>
+              validator.validateField!(name!, values, {
+                signal: controller.signal,
+              }),
+            ),
+          );
+          if (results.some((fieldResult) => !fieldResult)) return undefined;
           return {
-            ...validationResult,
-            error: { fieldErrors: get().validationErrors },
+            error: Object.assign(
+              {},
+              ...results.map((fieldResult) => fieldResult!.error),
+            ),
+            warnings: Object.assign(
+              {},
+              ...results.map((fieldResult) => fieldResult!.warnings),
+            ),
           };
+        };
+
+        let fieldResult:
+          | FieldValidationResult<FieldErrors | AllFieldErrors>
+          | undefined;
+        let result:
+          | ValidationResult<any, FieldErrors | AllFieldErrors>
+          | undefined;
+        let fieldValidatorErrors: FieldErrors;
+        try {
+          [fieldResult, fieldValidatorErrors] = await Promise.all([
+            validateOnlyFields(),
+            get().runFieldValidators(
+              values,
+              fieldValidatorRefs
+                .names()
+                .filter(
+                  (name) => isIncluded(name) || validatingFields.has(name),
+                ),
+              controller.signal,
+            ),
+          ]);
+          if (!fieldResult)
+            result = await validator.validate(values, {
+              signal: controller.signal,
+            });
+        } catch (err) {
+          if (controller.signal.aborted) return superseded();
+          if (isLatest()) set(clearPendingValidations);
+          throw err;
         }
 
-        set((state) => {
-          fieldsToDelete.forEach((field) => {
-            delete state.validationErrors[field];
-          });
+        // Only the given fields were validated, so messages for the rest of the form are left alone
+        const onlyFields = <Messages extends ErrorMessages>(
+          messages: Messages,
+        ) => (fieldResult ? withinFields(messages) : messages);
+        const fieldErrors = onlyFields(
+          mergeFieldErrors(
+            toFormMessages(
+              (fieldResult ? fieldResult.error : result?.error?.fieldErrors) ??
+                {},
+              omittedFields,
+            ),
+            fieldValidatorErrors,
+          ),
+        );
+        const warnings = onlyFields(
+          toFormMessages(
+            (fieldResult ? fieldResult.warnings : result?.warnings) ?? {},
+            omittedFields,
+          ),
+        );
+        if (!isLatest()) return withinFields(fieldErrors);
+
+        // Messages for the given fields are always shown
+        Object.keys({ ...fieldErrors, ...warnings })
+          .filter(isIncluded)
+          .forEach((name) => validatingFields.add(name));
+        const errorUpdates = getFieldMessageUpdates(
+          get(),
+          onlyFields(get().validationErrors),
+          fieldErrors,
+          validatingFields,
+        );
+        const warningUpdates = getFieldMessageUpdates(
+          get(),
+          onlyFields(get().validationWarnings),
+          warnings,
+          validatingFields,
+        );
 
-          fieldsToUpdate.forEach((field) => {
-            state.validationErrors[field] = fieldErrors[field];
+        const errors = withinFields(fieldErrors);
+        set((state) => {
+          clearPendingValidations(state);
+          applyFieldMessageUpdates(
+            state.validationErrors,
+            fieldErrors,
+            errorUpdates,
+          );
+          applyFieldMessageUpdates(
+            state.validationWarnings,
+            warnings,
+            warningUpdates,
+          );
+          [...fieldNames, ...Object.keys(errors)].forEach((name) => {
+            state.touchedFields[name] = true;
           });
+          if (!fieldResult) state.hasBeenValidated = true;
         });
 
-        return {
-          ...validationResult,
-          error: { fieldErrors: get().validationErrors },
-        };
+        return errors;
+      },
+
+      runFieldValidators: async (values, fieldNames, signal) => {
+        const namesToRun = new Set(fieldNames ?? fieldValidatorRefs.names());
+        // Values that were prepared for validation already leave out the inactive fields
+        const omittedFields = omittedFieldsByValues.get(values);
+        const inactiveFields = omittedFields ?? getInactive(values);
+
+        await Promise.all(
+          fieldValidatorRefs.all().map(async ([fieldName, validators]) => {
+            if (isFieldInactive(fieldName, inactiveFields)) return;
+            if (
+              !namesToRun.has(fieldName) &&
+              fieldValidatorResults.has(fieldName)
+            )
+              return;
+
+            // Array items before the field might have been left out
+            const value = getPath(
+              values,
+              toOmittedFieldName(fieldName, omittedFields ?? []) ?? fieldName,
+            );
+            let error: string | null = null;
+            for (const fieldValidator of validators) {
+              error = (await fieldValidator(value, values, { signal })) || null;
+              if (error) break;
+            }
+            if (!signal?.aborted) fieldValidatorResults.set(fieldName, error);
+          }),
+        );
+
+        const errors: FieldErrors = {};
+        fieldValidatorRefs.names().forEach((fieldName) => {
+          if (isFieldInactive(fieldName, inactiveFields)) return;
+          const error = fieldValidatorResults.get(fieldName);
+          if (error) errors[fieldName] = error;
+        });
+        return errors;
       },
 
       focusFirstInvalidField: () => {
@@ -680,10 +1405,13 @@ export const createFormStateStore = ({
 
       /////// Events
       onFieldChange: (fieldName, value, validationBehaviorConfig) => {
+        // Computed fields are read-only
+        if (isComputedField(mutableImplStore.computedFields, fieldName)) return;
+
         set((state) => {
           setPath(state.values, fieldName, value);
           const defaultValue = getFieldDefaultValue(state, fieldName);
-          state.dirtyFields[fieldName] = value !== defaultValue;
+          state.dirtyFields[fieldName] = !isEqual(value, defaultValue);
         });
 
         if (
@@ -697,9 +1425,26 @@ export const createFormStateStore = ({
         if (
           get().shouldValidate("onChange", fieldName, validationBehaviorConfig)
         ) {
-          get().validateField(fieldName);
+          const { debounce } =
+            validationBehaviorConfig ?? get().validationBehaviorConfig;
+
+          if (!debounce) {
+            validateWithDependents(fieldName);
+            return;
+          }
+
+          cancelDebouncedValidation(fieldName);
+          debouncedValidations.set(
+            fieldName,
+            setTimeout(() => {
+              debouncedValidations.delete(fieldName);
+              validateWithDependents(fieldName);
+            }, debounce),
+          );
         } else {
           get().setError(fieldName, null);
+          get().setWarning(fieldName, null);
+          validateDependents(fieldName);
         }
       },
 
@@ -708,7 +1453,9 @@ export const createFormStateStore = ({
           state.touchedFields[fieldName] = true;
         });
 
+        const hadDebouncedValidation = cancelDebouncedValidation(fieldName);
         if (
+          hadDebouncedValidation ||
           get().shouldValidate("onBlur", fieldName, validationBehaviorConfig)
         ) {
           get().validateField(fieldName);
@@ -815,6 +1562,9 @@ export const createFormStateStore = ({
           }
         } catch (err) {
           try {
+            // Lets `handleSubmit` show errors from the server by throwing them
+            if (isValidationErrorResponse(err))
+              get().syncServerValidationErrors(err.fieldErrors);
             await mutableImplStore.onSubmitFailure?.(err);
           } finally {
             set((state) => {
@@ -844,12 +1594,21 @@ export const createFormStateStore = ({
 
         set((state) => {
           state.validationErrors = errors;
+          state.hasBeenValidated = true;
           state.submitStatus = "error";
         });
         get().focusFirstInvalidField();
       },
 
+      cancelPendingValidations: () => {
+        cancelAllDebouncedValidations();
+        cancelInFlightFieldValidations();
+        set(clearPendingValidations);
+      },
+
       setValue: (fieldName, value) => {
+        if (isComputedField(mutableImplStore.computedFields, fieldName)) return;
+
         set((state) => {
           if (fieldName) setPath(state.values, fieldName, value);
           else state.values = value as any;
@@ -897,6 +1656,13 @@ export const createFormStateStore = ({
         });
       },
 
+      setWarning: (fieldName, value) => {
+        set((state) => {
+          if (value == null) delete state.validationWarnings[fieldName];
+          else state.validationWarnings[fieldName] = value;
+        });
+      },
+
       setAllTouched: (data) => {
         set((state) => {
           state.touchedFields = data;
@@ -917,12 +1683,19 @@ export const createFormStateStore = ({
 
       ///////// Other actions
       reset: (nextValues = get().defaultValues) => {
+        unregisteredFields.clear();
+        clearFieldValidatorResults();
+        cancelAllDebouncedValidations();
+        cancelInFlightFieldValidations();
         set((state) => {
+          clearPendingValidations(state);
+          state.hasBeenValidated = false;
           state.values = nextValues;
           state.defaultValues = nextValues;
           state.touchedFields = {};
           state.dirtyFields = {};
           state.validationErrors = {};
+          state.validationWarnings = {};
           state.fieldArrayKeys = {};
           state.arrayUpdateKeys = {};
           state.submitStatus = "idle";
@@ -942,12 +1715,14 @@ export const createFormStateStore = ({
         fieldName,
         nextValue = getPath(get().defaultValues, fieldName),
       ) => {
+        clearFieldValidatorResults(fieldName);
         set((state) => {
           setPath(state.values, fieldName, nextValue);
           deleteFieldsWithPrefix(
             [
               state.touchedFields,
               state.validationErrors,
+              state.validationWarnings,
               state.dirtyFields,
               state.fieldArrayKeys,
             ],
@@ -964,9 +1739,48 @@ export const createFormStateStore = ({
           void resolvers.queue();
         }
 
-        transientFieldRefs.forEach((fieldName, ref) => {
-          if (!ref) return;
-          setFormControlValue(ref, nextValue);
+        transientFieldRefs.forEach((refName, ref) => {
+          if (!ref || (fieldName && !isFieldWithin(refName, fieldName))) return;
+          setFormControlValue(ref, getFieldValue(get(), refName));
+        });
+      },
+
+      registerField: (fieldName) => {
+        if (!unregisteredFields.has(fieldName)) return;
+        unregisteredFields.delete(fieldName);
+        set((state) => {
+          setPath(
+            state.values,
+            fieldName,
+            getFieldDefaultValue(state, fieldName),
+          );
+        });
+      },
+
+      unregisterField: (fieldName) => {
+        if (
+          transientFieldRefs.has(fieldName) ||
+          controlledFieldRefs.has(fieldName)
+        )
+          return;
+
+        unregisteredFields.add(fieldName);
+        cancelDebouncedValidation(fieldName);
+        clearFieldValidatorResults(fieldName);
+        // Other array items keep their indices, because their inputs are still mounted
+        const values = clearFields(get().values, [fieldName]);
+        set((state) => {
+          state.values = values;
+          deleteFieldStateWithin(
+            [
+              state.touchedFields,
+              state.dirtyFields,
+              state.validationErrors,
+              state.validationWarnings,
+              state.fieldArrayKeys,
+            ],
+            [fieldName],
+          );
         });
       },
 
@@ -1005,7 +1819,8 @@ export const createFormStateStore = ({
 
           state.fieldArrayKeys[fieldName]?.push(genKey());
           state.arrayUpdateKeys[fieldName] = genKey();
-          // no change to touched, dirty, or validationErrors
+          // no change to touched or validationErrors
+          updateArrayDirtyState(state, fieldName);
         });
 
         void get().maybeValidateArrayOperation(
@@ -1028,11 +1843,13 @@ export const createFormStateStore = ({
             [
               state.touchedFields,
               state.validationErrors,
+              state.validationWarnings,
               state.dirtyFields,
               state.fieldArrayKeys,
             ],
             `${fieldName}[${numItems - 1}]`,
           );
+          updateArrayDirtyState(state, fieldName);
         });
         void get().maybeValidateArrayOperation(
           fieldName,
@@ -1054,6 +1871,7 @@ export const createFormStateStore = ({
             [
               state.touchedFields,
               state.validationErrors,
+              state.validationWarnings,
               state.dirtyFields,
               state.fieldArrayKeys,
             ],
@@ -1063,12 +1881,14 @@ export const createFormStateStore = ({
             [
               state.touchedFields,
               state.validationErrors,
+              state.validationWarnings,
               state.dirtyFields,
               state.fieldArrayKeys,
             ],
             fieldName,
             (index) => index - 1,
           );
+          updateArrayDirtyState(state, fieldName);
         });
         void get().maybeValidateArrayOperation(
           fieldName,
@@ -1090,12 +1910,14 @@ export const createFormStateStore = ({
             [
               state.touchedFields,
               state.validationErrors,
+              state.validationWarnings,
               state.dirtyFields,
               state.fieldArrayKeys,
             ],
             fieldName,
             (index) => index + 1,
           );
+          updateArrayDirtyState(state, fieldName);
         });
         void get().maybeValidateArrayOperation(
           fieldName,
@@ -1123,12 +1945,14 @@ export const createFormStateStore = ({
             [
               state.touchedFields,
               state.validationErrors,
+              state.validationWarnings,
               state.dirtyFields,
               state.fieldArrayKeys,
             ],
             fieldName,
             (index) => (index >= insertAtIndex ? index + 1 : index),
           );
+          updateArrayDirtyState(state, fieldName);
         });
         void get().maybeValidateArrayOperation(
           fieldName,
@@ -1151,6 +1975,7 @@ export const createFormStateStore = ({
             [
               state.touchedFields,
               state.validationErrors,
+              state.validationWarnings,
               state.dirtyFields,
               state.fieldArrayKeys,
             ],
@@ -1163,6 +1988,7 @@ export const createFormStateStore = ({
               return res;
             },
           );
+          updateArrayDirtyState(state, fieldName);
         });
         void get().maybeValidateArrayOperation(
           fieldName,
@@ -1185,6 +2011,7 @@ export const createFormStateStore = ({
             [
               state.touchedFields,
               state.validationErrors,
+              state.validationWarnings,
               state.dirtyFields,
               state.fieldArrayKeys,
             ],
@@ -1194,12 +2021,14 @@ export const createFormStateStore = ({
             [
               state.touchedFields,
               state.validationErrors,
+              state.validationWarnings,
               state.dirtyFields,
               state.fieldArrayKeys,
             ],
             fieldName,
             (index) => (index > removeIndex ? index - 1 : index),
           );
+          updateArrayDirtyState(state, fieldName);
         });
         void get().maybeValidateArrayOperation(
           fieldName,
@@ -1230,6 +2059,7 @@ export const createFormStateStore = ({
             [
               state.touchedFields,
               state.validationErrors,
+              state.validationWarnings,
               state.dirtyFields,
               state.fieldArrayKeys,
             ],
@@ -1240,6 +2070,7 @@ export const createFormStateStore = ({
               return index;
             },
           );
+          updateArrayDirtyState(state, fieldName);
         });
         void get().maybeValidateArrayOperation(
           fieldName,
@@ -1263,11 +2094,13 @@ export const createFormStateStore = ({
             [
               state.touchedFields,
               state.validationErrors,
+              state.validationWarnings,
               state.dirtyFields,
               state.fieldArrayKeys,
             ],
             `${fieldName}[${index}]`,
           );
+          updateArrayDirtyState(state, fieldName);
         });
         void get().maybeValidateArrayOperation(
           fieldName,
@@ -1276,3 +2109,82 @@ export const createFormStateStore = ({
       },
     })),
   );
+
+  // Computed fields are updated in the same update as the values they're computed from.
+  transformUpdates(store, (state, prevState) => {
+    const { computedFields } = mutableImplStore;
+    if (!computedFields) return;
+    updateComputedFields(computedFields, state.values, prevState.values);
+    updateComputedFields(
+      computedFields,
+      state.defaultValues,
+      prevState.defaultValues,
+    );
+  });
+
+  if (mutableImplStore.computedFields) {
+    store.setState((state) => {
+      updateComputedFields(mutableImplStore.computedFields!, state.values);
+      updateComputedFields(
+        mutableImplStore.computedFields!,
+        state.defaultValues,
+      );
+    });
+  }
+
+  // Uncontrolled inputs for computed fields don't get their value from the store on their own.
+  store.subscribe((state, prevState) => {
+    if (state.values === prevState.values) return;
+    Object.keys(mutableImplStore.computedFields ?? {}).forEach((fieldName) => {
+      const value = getFieldValue(state, fieldName);
+      if (value === getFieldValue(prevState, fieldName)) return;
+      transientFieldRefs.getRefs(fieldName).forEach((ref) => {
+        setFormControlValue(ref, value);
+      });
+    });
+  });
+
+  // Fields that become inactive shouldn't keep their errors or touched/dirty state around.
+  // Their values are kept in the store until they're active again.
+  let inactiveFields = getInactive(defaultValues);
+  store.subscribe((state, prevState) => {
+    if (state.values === prevState.values) return;
+
+    const prevInactiveFields = inactiveFields;
+    inactiveFields = getInactive(state.values);
+    const deactivated = inactiveFields.filter(
+      (fieldName) => !prevInactiveFields.includes(fieldName),
+    );
+    const reactivated = prevInactiveFields.filter(
+      (fieldName) => !inactiveFields.includes(fieldName),
+    );
+
+    if (deactivated.length > 0) {
+      deactivated.forEach((fieldName) => {
+        cancelDebouncedValidation(fieldName);
+        clearFieldValidatorResults(fieldName);
+      });
+      store.setState((state) => {
+        deleteFieldStateWithin(
+          [
+            state.touchedFields,
+            state.dirtyFields,
+            state.validationErrors,
+            state.validationWarnings,
+          ],
+          deactivated,
+        );
+      });
+    }
+
+    reactivated
+      .filter(
+        (fieldName) =>
+          mutableImplStore.conditionalFields?.[fieldName]?.whenReactivated ===
+          "reset",
+      )
+      .forEach((fieldName) => store.getState().resetField(fieldName));
+  });
+
+  return store;
+};
@@ -7,3 +7,13 @@ export type FieldValue<
   Scope,
   Path extends ValidStringPaths<ScopedValues<Scope>>,
 > = ValueAtPath<ScopedValues<Scope>, StringToPathTuple<Path>>;
+
+/**
+ * Makes every key of the object optional, including nested objects.
+ * Arrays are left as they are.
+ */
+export type DeepPartial<T> = T extends readonly any[] | Date | File | Blob
+  ? T
+  : T extends object
+    ? { [K in keyof T]?: DeepPartial<T[K]> }
+    : T;
@@ -5,12 +5,41 @@ export type FieldValues = Record<string | number, any>;
 export type SubmitStatus = "idle" | "submitting" | "error" | "success";
 
 export type FieldErrors = Record<string, string>;
-export type Valid<DataType> = { data: DataType; error: undefined };
-export type Invalid = { error: FieldErrors; data: undefined };
-
-type BaseResult = { submittedData: GenericObject; formId?: string };
-export type ErrorResult = BaseResult & {
-  error: ValidatorError;
+/**
+ * Every error message for each field.
+ * Validators only return these when they're configured to collect all the messages.
+ */
+export type AllFieldErrors = Record<string, string[]>;
+/**
+ * The errors a validator returns, depending on whether it's configured to collect all the messages.
+ */
+export type ValidatorFieldErrors<AllErrors extends boolean> =
+  AllErrors extends true ? AllFieldErrors : FieldErrors;
+/**
+ * Messages that should be shown to the user, but don't prevent the form from being submitted.
+ */
+export type FieldWarnings = Record<string, string>;
+export type Valid<DataType> = {
+  data: DataType;
+  error: undefined;
+  warnings?: FieldWarnings;
+};
+export type Invalid<Errors extends FieldErrors | AllFieldErrors = FieldErrors> =
+  {
+    error: Errors;
+    data: undefined;
+    warnings?: FieldWarnings;
+  };
+
+type BaseResult = {
+  submittedData: GenericObject;
+  formId?: string;
+  warnings?: FieldWarnings;
+};
+export type ErrorResult<
+  Errors extends FieldErrors | AllFieldErrors = FieldErrors,
+> = BaseResult & {
+  error: ValidatorError<Errors>;
   data: undefined;
 };
 export type SuccessResult<DataType> = BaseResult & {
@@ -21,7 +50,10 @@ export type SuccessResult<DataType> = BaseResult & {
 /**
  * The result when validating a form.
  */
-export type ValidationResult<DataType> = SuccessResult<DataType> | ErrorResult;
+export type ValidationResult<
+  DataType,
+  Errors extends FieldErrors | AllFieldErrors = FieldErrors,
+> = SuccessResult<DataType> | ErrorResult<Errors>;
 
 export type ValidationBehavior = "onSubmit" | "onChange" | "onBlur";
 
@@ -40,6 +72,12 @@ export type ValidationBehaviorConfig = {
    * Once the form has been submitted unnsuccessfully, when should the validation be triggered?
    */
   whenSubmitted: ValidationBehavior;
+
+  /**
+   * When validating `onChange`, wait this many milliseconds after the last change before validating.
+   * Blurring the field or submitting the form will validate immediately.
+   */
+  debounce?: number;
 };
 
 export type FieldArrayValidationBehavior = "onSubmit" | "onChange";
@@ -56,32 +94,105 @@ export type FieldArrayValidationBehaviorConfig = {
   whenSubmitted: FieldArrayValidationBehavior;
 };
 
+export type ValidateOptions = {
+  /**
+   * Aborted when the result of this validation is no longer needed,
+   * e.g. because the user has changed the value again.
+   * Validators that make network requests can use this to cancel them.
+   */
+  signal?: AbortSignal;
+};
+
+/**
+ * The result of validating a single field.
+ * Only contains messages for the field and any fields nested inside it.
+ */
+export type FieldValidationResult<
+  Errors extends FieldErrors | AllFieldErrors = FieldErrors,
+> = {
+  error?: Errors;
+  warnings?: FieldWarnings;
+};
+
 /**
  * An RVF `Validator`. Can be used by `useForm` or by calling it directly.
+ * Validators that collect every message for each field use `AllFieldErrors` for `Errors`.
  */
-export type Validator<DataType> = {
+export type Validator<
+  DataType,
+  Errors extends FieldErrors | AllFieldErrors = FieldErrors,
+> = {
   validate: (
     unvalidatedData: GenericObject | FormData,
-  ) => Promise<ValidationResult<DataType>>;
+    options?: ValidateOptions,
+  ) => Promise<ValidationResult<DataType, Errors>>;
+
+  /**
+   * Validates a single field without validating the whole form.
+   * If this is available, `useForm` uses it when the user interacts with a single field.
+   * Resolves to `undefined` if the field can't be validated on its own,
+   * in which case the whole form is validated instead.
+   */
+  validateField?: (
+    fieldName: string,
+    unvalidatedData: GenericObject | FormData,
+    options?: ValidateOptions,
+  ) => Promise<FieldValidationResult<Errors> | undefined>;
 };
 
-export type CreateValidatorArg<DataType> = {
+export type CreateValidatorArg<
+  DataType,
+  Errors extends FieldErrors | AllFieldErrors = FieldErrors,
+> = {
   validate: (
     unvalidatedData: GenericObject,
-  ) => Promise<Valid<DataType> | Invalid>;
-};
+    options: ValidateOptions,
+  ) => Promise<Valid<DataType> | Invalid<Errors>>;
 
-export type ValidatorData<T extends Validator<any>> =
-  T extends Validator<infer U> ? U : never;
+  /**
+   * Optionally, validates a single field without validating the whole form.
+   * Should only return messages for the field and any fields nested inside it.
+   * Return `undefined` if validating the field might affect the messages for other fields,
+   * like with a refinement on the whole form, and the whole form will be validated instead.
+   */
+  validateField?: (
+    fieldName: string,
+    unvalidatedData: GenericObject,
+    options: ValidateOptions,
+  ) => Promise<FieldValidationResult<Errors> | undefined>;
+};
 
-export type ValidatorError = {
+/**
+ * A validator for a single field.
+ * Return an error message if the value is invalid, or nothing if it's valid.
+ * These run alongside the form-level `Validator`, but only for the field they're registered on.
+ */
+export type FieldValidator<FieldValue = unknown> = (
+  value: FieldValue,
+  formValues: GenericObject,
+  options: ValidateOptions,
+) =>
+  | string
+  | null
+  | undefined
+  | void
+  | Promise<string | null | undefined | void>;
+
+export type ValidatorData<T extends Validator<any, any>> =
+  T extends Validator<infer U, any> ? U : never;
+
+export type ValidatorError<
+  Errors extends FieldErrors | AllFieldErrors = FieldErrors,
+> = {
   formId?: string;
-  fieldErrors: FieldErrors;
+  fieldErrors: Errors;
 };
 
-export type ValidationErrorResponseData = {
+export type ValidationErrorResponseData<
+  Errors extends FieldErrors | AllFieldErrors = FieldErrors,
+> = {
   formId?: string;
-  fieldErrors: FieldErrors;
+  fieldErrors: Errors;
   repopulateFields?: unknown;
 };
 
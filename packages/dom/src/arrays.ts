@@ -0,0 +1,154 @@
+import { FormStore, genKey, preprocessFormData } from "@rvf/core";
+import { getPath } from "@rvf/set-get";
+
+export const ARRAY_ATTRIBUTE = "data-rvf-array";
+export const PUSH_ATTRIBUTE = "data-rvf-array-push";
+export const REMOVE_ATTRIBUTE = "data-rvf-array-remove";
+export const INDEX_PLACEHOLDER = "{index}";
+
+export interface FieldArrayApi {
+  /**
+   * Adds a new item to the end of the array by cloning the `<template>` inside the array container.
+   */
+  push: () => void;
+  /**
+   * Removes the item at the given index and renumbers the items after it.
+   */
+  remove: (index: number) => void;
+  length: () => number;
+}
+
+// Items that were added from a `<template>`, so they can be removed when the form is reset
+const clonedItems = new WeakSet<Element>();
+
+const getContainer = (form: HTMLFormElement, fieldName: string) => {
+  const container = [
+    ...form.querySelectorAll<HTMLElement>(`[${ARRAY_ATTRIBUTE}]`),
+  ].find((el) => el.getAttribute(ARRAY_ATTRIBUTE) === fieldName);
+
+  if (!container)
+    throw new Error(
+      `No element with \`${ARRAY_ATTRIBUTE}="${fieldName}"\` was found in the form.`,
+    );
+  return container;
+};
+
+const getItems = (container: HTMLElement) =>
+  [...container.children].filter(
+    (el): el is HTMLElement =>
+      el instanceof HTMLElement && !(el instanceof HTMLTemplateElement),
+  );
+
+const updateAttributes = (
+  root: Element,
+  updater: (value: string) => string,
+) => {
+  [root, ...root.querySelectorAll("*")].forEach((el) => {
+    [...el.attributes].forEach((attr) => {
+      const nextValue = updater(attr.value);
+      if (nextValue !== attr.value) el.setAttribute(attr.name, nextValue);
+    });
+  });
+};
+
+/**
+ * Gets the array container that the element is an item of, if any.
+ */
+export const getItemOf = (el: Element) => {
+  let item: Element | null = el;
+  while (item?.parentElement) {
+    if (item.parentElement.hasAttribute(ARRAY_ATTRIBUTE))
+      return {
+        fieldName: item.parentElement.getAttribute(ARRAY_ATTRIBUTE)!,
+        index: getItems(item.parentElement).indexOf(item as HTMLElement),
+      };
+    item = item.parentElement;
+  }
+  return null;
+};
+
+/**
+ * Field arrays need keys in the store before array operations can be performed.
+ * These aren't used for rendering like they are in React, so any unique value works.
+ */
+export const initializeFieldArrayKeys = (
+  form: HTMLFormElement,
+  store: FormStore,
+) => {
+  form.querySelectorAll(`[${ARRAY_ATTRIBUTE}]`).forEach((container) => {
+    const fieldName = container.getAttribute(ARRAY_ATTRIBUTE)!;
+    if (store.store.getState().fieldArrayKeys[fieldName]) return;
+
+    const keys = getItems(container as HTMLElement).map(() => genKey());
+    store.store.setState((state) => {
+      state.fieldArrayKeys[fieldName] = keys;
+    });
+  });
+};
+
+/**
+ * Removes the items that were added from a `<template>`, so the arrays match the markup the form started with.
+ */
+export const removeClonedItems = (form: HTMLFormElement) => {
+  form.querySelectorAll(`[${ARRAY_ATTRIBUTE}]`).forEach((container) => {
+    getItems(container as HTMLElement)
+      .filter((item) => clonedItems.has(item))
+      .forEach((item) => item.remove());
+  });
+};
+
+export const createFieldArray = (
+  form: HTMLFormElement,
+  store: FormStore,
+  fieldName: string,
+): FieldArrayApi => ({
+  push: () => {
+    const container = getContainer(form, fieldName);
+    const template = container.querySelector(":scope > template");
+    if (!(template instanceof HTMLTemplateElement))
+      throw new Error(
+        `The \`${ARRAY_ATTRIBUTE}="${fieldName}"\` element needs a \`<template>\` to add items.`,
+      );
+
+    const index = getItems(container).length;
+    const fragment = template.content.cloneNode(true) as DocumentFragment;
+    [...fragment.children].forEach((el) => {
+      clonedItems.add(el);
+      updateAttributes(el, (value) =>
+        value.replaceAll(INDEX_PLACEHOLDER, String(index)),
+      );
+    });
+    container.appendChild(fragment);
+
+    // The new item starts with whatever values the template's controls have.
+    const itemValue = getPath(
+      preprocessFormData(new FormData(form)),
+      `${fieldName}[${index}]`,
+    );
+    store.store.getState().arrayPush(fieldName, itemValue);
+    // The DOM is already up to date, so there's no render to wait for.
+    store.resolvers.flush();
+  },
+
+  remove: (index) => {
+    const items = getItems(getContainer(form, fieldName));
+    if (!items[index]) return;
+
+    items[index].remove();
+    items.slice(index + 1).forEach((item, i) => {
+      const prevIndex = index + 1 + i;
+      const prevPrefix = `${fieldName}[${prevIndex}]`;
+      // Only the start of the name is renumbered, so nested names like `items[3].subitems[3]` keep their own index
+      updateAttributes(item, (value) =>
+        value.startsWith(prevPrefix)
+          ? `${fieldName}[${prevIndex - 1}]${value.slice(prevPrefix.length)}`
+          : value,
+      );
+    });
+
+    store.store.getState().arrayRemove(fieldName, index);
+    store.resolvers.flush();
+  },
+
+  length: () => getItems(getContainer(form, fieldName)).length,
+});
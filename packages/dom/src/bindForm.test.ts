@@ -0,0 +1,289 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import userEvent from "@testing-library/user-event";
+import { screen, waitFor } from "@testing-library/dom";
+import { FieldErrors, createValidator } from "@rvf/core";
+import { getPath } from "@rvf/set-get";
+import { bindForm } from "./bindForm";
+
+const requiredValidator = (fields: string[]) =>
+  createValidator({
+    validate: async (data) => {
+      const errors: FieldErrors = {};
+      fields.forEach((field) => {
+        if (!getPath(data, field)) errors[field] = `${field} is required`;
+      });
+      if (Object.keys(errors).length > 0)
+        return { data: undefined, error: errors };
+      return { data, error: undefined };
+    },
+  });
+
+const renderForm = (html: string) => {
+  document.body.innerHTML = html;
+  return screen.getByTestId<HTMLFormElement>("form");
+};
+
+afterEach(() => {
+  document.body.innerHTML = "";
+});
+
+describe("bindForm", () => {
+  it("should render errors and mark invalid fields", async () => {
+    const form = renderForm(`
+      <form data-testid="form">
+        <input name="name" data-testid="name" />
+        <p data-rvf-error-for="name" data-testid="name-error"></p>
+        <input name="email" data-testid="email" />
+      </form>
+    `);
+    const bound = bindForm(form, {
+      validator: requiredValidator(["name"]),
+      handleSubmit: vi.fn(),
+    });
+
+    await userEvent.click(screen.getByTestId("name"));
+    await userEvent.click(screen.getByTestId("email"));
+    await waitFor(() =>
+      expect(screen.getByTestId("name-error")).toHaveTextContent(
+        "name is required",
+      ),
+    );
+    expect(screen.getByTestId("name")).toHaveAttribute("aria-invalid", "true");
+    expect(screen.getByTestId("email")).not.toHaveAttribute("aria-invalid");
+
+    await userEvent.type(screen.getByTestId("name"), "Jane");
+    await waitFor(() =>
+      expect(screen.getByTestId("name-error")).toBeEmptyDOMElement(),
+    );
+    expect(screen.getByTestId("name")).not.toHaveAttribute("aria-invalid");
+
+    bound.unbind();
+  });
+
+  it("should render server errors right away", () => {
+    const form = renderForm(`
+      <form data-testid="form">
+        <input name="name" data-testid="name" />
+        <p data-rvf-error-for="name" data-testid="name-error"></p>
+      </form>
+    `);
+    const bound = bindForm(form, {
+      validator: requiredValidator([]),
+      serverValidationErrors: { name: "Already taken" },
+    });
+
+    expect(screen.getByTestId("name-error")).toHaveTextContent("Already taken");
+    expect(screen.getByTestId("name")).toHaveAttribute("aria-invalid", "true");
+    bound.unbind();
+  });
+
+  it("should validate and submit the form", async () => {
+    const submit = vi.fn();
+    const form = renderForm(`
+      <form data-testid="form">
+        <input name="name" data-testid="name" />
+        <p data-rvf-error-for="name" data-testid="name-error"></p>
+        <button type="submit" name="intent" value="save" data-testid="submit">Submit</button>
+      </form>
+    `);
+    const bound = bindForm(form, {
+      validator: requiredValidator(["name"]),
+      handleSubmit: submit,
+    });
+
+    await userEvent.click(screen.getByTestId("submit"));
+    await waitFor(() =>
+      expect(screen.getByTestId("name-error")).toHaveTextContent(
+        "name is required",
+      ),
+    );
+    expect(screen.getByTestId("name")).toHaveFocus();
+    expect(submit).not.toHaveBeenCalled();
+
+    await userEvent.type(screen.getByTestId("name"), "Jane");
+    await userEvent.click(screen.getByTestId("submit"));
+    await waitFor(() => expect(submit).toHaveBeenCalledTimes(1));
+    expect(submit).toHaveBeenCalledWith(
+      { name: "Jane", intent: "save" },
+      expect.any(FormData),
+      {},
+    );
+    bound.unbind();
+  });
+
+  it("should submit the form natively with the submitter when there's no submit handler", async () => {
+    const requestSubmit = vi
+      .spyOn(HTMLFormElement.prototype, "requestSubmit")
+      .mockImplementation(() => {});
+    const form = renderForm(`
+      <form data-testid="form" method="post">
+        <input name="name" data-testid="name" value="Jane" />
+        <button type="submit" name="intent" value="save" data-testid="submit">Submit</button>
+      </form>
+    `);
+    const bound = bindForm(form, { validator: requiredValidator(["name"]) });
+
+    await userEvent.click(screen.getByTestId("submit"));
+    await waitFor(() => expect(requestSubmit).toHaveBeenCalledTimes(1));
+    expect(requestSubmit).toHaveBeenCalledWith(screen.getByTestId("submit"));
+    requestSubmit.mockRestore();
+    bound.unbind();
+  });
+
+  it("should add and remove field array items", async () => {
+    const submit = vi.fn();
+    const form = renderForm(`
+      <form data-testid="form">
+        <div data-rvf-array="todos">
+          <template>
+            <div>
+              <input name="todos[{index}].title" data-testid="todo-{index}" />
+              <p data-rvf-error-for="todos[{index}].title" data-testid="todo-{index}-error"></p>
+              <button type="button" data-rvf-array-remove data-testid="remove-{index}">Remove</button>
+            </div>
+          </template>
+          <div>
+            <input name="todos[0].title" data-testid="todo-0" value="a" />
+            <p data-rvf-error-for="todos[0].title" data-testid="todo-0-error"></p>
+            <button type="button" data-rvf-array-remove data-testid="remove-0">Remove</button>
+          </div>
+        </div>
+        <button type="button" data-rvf-array-push="todos" data-testid="add">Add</button>
+        <button type="submit" data-testid="submit">Submit</button>
+      </form>
+    `);
+    const bound = bindForm(form, {
+      validator: createValidator({
+        validate: async (data) => {
+          const errors: FieldErrors = {};
+          data.todos.forEach((todo: { title: string }, index: number) => {
+            if (!todo.title)
+              errors[`todos[${index}].title`] =
+                `todos[${index}].title is required`;
+          });
+          if (Object.keys(errors).length > 0)
+            return { data: undefined, error: errors };
+          return { data, error: undefined };
+        },
+      }),
+      handleSubmit: submit,
+    });
+
+    await userEvent.click(screen.getByTestId("add"));
+    await userEvent.click(screen.getByTestId("add"));
+    expect(bound.array("todos").length()).toBe(3);
+    expect(bound.getValues()).toEqual({
+      todos: [{ title: "a" }, { title: "" }, { title: "" }],
+    });
+
+    await userEvent.type(screen.getByTestId("todo-2"), "c");
+    await userEvent.click(screen.getByTestId("submit"));
+    await waitFor(() =>
+      expect(screen.getByTestId("todo-1-error")).toHaveTextContent(
+        "todos[1].title is required",
+      ),
+    );
+
+    // Only field paths are renumbered, so the test ids stay the same
+    await userEvent.click(screen.getByTestId("remove-1"));
+    expect(screen.queryByTestId("todo-1")).not.toBeInTheDocument();
+    expect(screen.getByTestId("todo-2")).toHaveValue("c");
+    expect(screen.getByTestId("todo-2")).toHaveAttribute(
+      "name",
+      "todos[1].title",
+    );
+    expect(screen.getByTestId("todo-2-error")).toHaveAttribute(
+      "data-rvf-error-for",
+      "todos[1].title",
+    );
+    await waitFor(() =>
+      expect(screen.getByTestId("todo-2-error")).toBeEmptyDOMElement(),
+    );
+    expect(bound.getValues()).toEqual({
+      todos: [{ title: "a" }, { title: "c" }],
+    });
+
+    await userEvent.click(screen.getByTestId("submit"));
+    await waitFor(() => expect(submit).toHaveBeenCalledTimes(1));
+    expect(submit).toHaveBeenCalledWith(
+      { todos: [{ title: "a" }, { title: "c" }] },
+      expect.any(FormData),
+      {},
+    );
+    bound.unbind();
+  });
+
+  it("should remove the items added from the template when the form is reset", async () => {
+    const form = renderForm(`
+      <form data-testid="form">
+        <div data-rvf-array="todos">
+          <template>
+            <div>
+              <input name="todos[{index}].title" data-testid="todo-{index}" />
+            </div>
+          </template>
+          <div>
+            <input name="todos[0].title" data-testid="todo-0" value="a" />
+          </div>
+        </div>
+        <button type="button" data-rvf-array-push="todos" data-testid="add">Add</button>
+      </form>
+    `);
+    const bound = bindForm(form, {
+      validator: createValidator({
+        validate: async (data) => ({ data, error: undefined }),
+      }),
+    });
+
+    await userEvent.click(screen.getByTestId("add"));
+    await userEvent.click(screen.getByTestId("add"));
+    expect(bound.array("todos").length()).toBe(3);
+
+    bound.reset();
+    expect(bound.array("todos").length()).toBe(1);
+    expect(screen.queryByTestId("todo-1")).not.toBeInTheDocument();
+    expect(bound.getValues()).toEqual({ todos: [{ title: "a" }] });
+
+    await userEvent.click(screen.getByTestId("add"));
+    expect(screen.getByTestId("todo-1")).toHaveAttribute(
+      "name",
+      "todos[1].title",
+    );
+    expect(bound.getValues()).toEqual({
+      todos: [{ title: "a" }, { title: "" }],
+    });
+    bound.unbind();
+  });
+
+  it("should only renumber the start of nested field names", async () => {
+    const form = renderForm(`
+      <form data-testid="form">
+        <div data-rvf-array="items">
+          <div>
+            <input name="items[0].subitems[0].title" value="a" />
+            <button type="button" data-rvf-array-remove data-testid="remove-0">Remove</button>
+          </div>
+          <div>
+            <input name="items[1].subitems[0].title" value="b" />
+            <input name="items[1].subitems[1].title" value="c" data-testid="nested" />
+          </div>
+        </div>
+      </form>
+    `);
+    const bound = bindForm(form, {
+      validator: createValidator({
+        validate: async (data) => ({ data, error: undefined }),
+      }),
+    });
+
+    await userEvent.click(screen.getByTestId("remove-0"));
+    expect(screen.getByTestId("nested")).toHaveAttribute(
+      "name",
+      "items[0].subitems[1].title",
+    );
+    expect(bound.getValues()).toEqual({
+      items: [{ subitems: [{ title: "b" }, { title: "c" }] }],
+    });
+    bound.unbind();
+  });
+});
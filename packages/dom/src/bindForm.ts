@@ -0,0 +1,281 @@
+import {
+  AllFieldErrors,
+  BeforeSubmitApi,
+  FieldErrors,
+  FieldValues,
+  FormScope,
+  SubmitterOptions,
+  ValidationBehaviorConfig,
+  Validator,
+  createFormScope,
+  getFirstErrors,
+  preprocessFormData,
+  registerFormElementEvents,
+} from "@rvf/core";
+import { renderErrors } from "./errors";
+import {
+  FieldArrayApi,
+  PUSH_ATTRIBUTE,
+  REMOVE_ATTRIBUTE,
+  createFieldArray,
+  getItemOf,
+  initializeFieldArrayKeys,
+  removeClonedItems,
+} from "./arrays";
+
+export type BindFormOptions<
+  FormInputData extends FieldValues,
+  FormOutputData,
+> = {
+  /**
+   * A validator object created by a validation adapter such a `withZod` or `withYup`.
+   */
+  validator: Validator<FormOutputData, FieldErrors | AllFieldErrors>;
+
+  /**
+   * The initial values of the form.
+   * Defaults to the values of the form controls when the form is bound.
+   */
+  defaultValues?: FormInputData;
+
+  /**
+   * Errors to show when the form is bound, usually from server-side validation.
+   */
+  serverValidationErrors?: FieldErrors | AllFieldErrors;
+
+  /**
+   * Allows you to customize the validation behavior of the form.
+   */
+  validationBehaviorConfig?: ValidationBehaviorConfig;
+
+  /**
+   * Called with the validated data when the form is submitted.
+   * If this isn't provided, the form is submitted natively once it's valid.
+   */
+  handleSubmit?: (
+    data: FormOutputData,
+    formData: FormData,
+    submitterOptions: SubmitterOptions,
+  ) => void | Promise<unknown>;
+
+  onBeforeSubmit?: (
+    beforeSubmitApi: BeforeSubmitApi<FormInputData, FormOutputData>,
+  ) => void | Promise<void>;
+  onSubmitSuccess?: (responseData: unknown) => void | Promise<void>;
+  onSubmitFailure?: (error: unknown) => void | Promise<void>;
+  onInvalidSubmit?: () => void | Promise<void>;
+
+  /**
+   * Whether the form should be reset after a successful submit.
+   */
+  resetAfterSubmit?: boolean;
+
+  /**
+   * Disables the default behavior of focusing the first invalid field when a submit fails due to validation errors.
+   */
+  disableFocusOnError?: boolean;
+};
+
+export interface BoundForm<FormInputData> {
+  /**
+   * The form scope the form is bound to.
+   * This gives you access to the same state as a React form would.
+   */
+  scope: FormScope<FormInputData>;
+  getValues: () => FormInputData;
+  getErrors: () => FieldErrors;
+  /**
+   * Validates the whole form and renders any errors.
+   */
+  validate: () => Promise<FieldErrors>;
+  /**
+   * Validates and submits the form, the same as if the user had submitted it.
+   */
+  submit: () => void;
+  reset: () => void;
+  /**
+   * Gets helpers for the field array rendered in the `[data-rvf-array]` element with the given name.
+   */
+  array: (fieldName: string) => FieldArrayApi;
+  /**
+   * Removes all the event listeners added to the form.
+   */
+  unbind: () => void;
+}
+
+const noOp = () => {};
+
+const getSubmitterOptions = (submitter: HTMLElement | null) => {
+  const submitterOptions: SubmitterOptions = {};
+  if (
+    !(submitter instanceof HTMLButtonElement) &&
+    !(submitter instanceof HTMLInputElement)
+  )
+    return { submitterOptions };
+
+  const submitterData = submitter.name
+    ? { [submitter.name]: submitter.value }
+    : undefined;
+
+  // Don't include option at all if the aren't provided
+  if (submitter.formEnctype)
+    submitterOptions.formEnctype = submitter.formEnctype;
+  if (submitter.formMethod) submitterOptions.formMethod = submitter.formMethod;
+  if (submitter.formNoValidate)
+    submitterOptions.formNoValidate = submitter.formNoValidate;
+
+  // The button will always have a `formAction`, but we only want it if it was set explicitly
+  const buttonFormAction = submitter.getAttribute("formAction");
+  if (buttonFormAction) submitterOptions.formAction = buttonFormAction;
+
+  return { submitterData, submitterOptions };
+};
+
+let formCount = 0;
+
+/**
+ * Attaches RVF to an existing `<form>` element.
+ * Fields are tracked using the `name` attributes of the form controls,
+ * and errors are rendered into elements with a `data-rvf-error-for` attribute.
+ */
+export const bindForm = <FormInputData extends FieldValues, FormOutputData>(
+  form: HTMLFormElement,
+  {
+    validator,
+    defaultValues,
+    serverValidationErrors,
+    validationBehaviorConfig,
+    handleSubmit,
+    onBeforeSubmit,
+    onSubmitSuccess,
+    onSubmitFailure,
+    onInvalidSubmit,
+    resetAfterSubmit,
+    disableFocusOnError,
+  }: BindFormOptions<FormInputData, FormOutputData>,
+): BoundForm<FormInputData> => {
+  if (!form.id) form.id = `rvf-form-${++formCount}`;
+
+  // Without `handleSubmit`, valid forms are submitted natively.
+  // `requestSubmit` sends the submitter's name and value along and fires the submit event again,
+  // which is let through this time.
+  let submitter: HTMLElement | null = null;
+  let isSubmittingNatively = false;
+  const submitNatively = () => {
+    isSubmittingNatively = true;
+    try {
+      if (typeof form.requestSubmit === "function")
+        form.requestSubmit(submitter);
+      else form.submit();
+    } finally {
+      isSubmittingNatively = false;
+    }
+  };
+
+  const scope = createFormScope<FormInputData, FormOutputData>({
+    defaultValues:
+      defaultValues ??
+      (preprocessFormData(new FormData(form)) as FormInputData),
+    serverValidationErrors: serverValidationErrors ?? {},
+    validator,
+    onBeforeSubmit: (onBeforeSubmit ?? noOp) as never,
+    onSubmit: (handleSubmit ?? submitNatively) as never,
+    onSubmitSuccess: async (responseData) => {
+      // The page is being reloaded
+      if (!handleSubmit) return;
+      await onSubmitSuccess?.(responseData);
+      if (resetAfterSubmit) form.reset();
+    },
+    onSubmitFailure: onSubmitFailure ?? noOp,
+    onInvalidSubmit: onInvalidSubmit ?? noOp,
+    validationBehaviorConfig,
+    submitSource: "dom",
+    formProps: {
+      id: form.id,
+      action: form.getAttribute("action") ?? undefined,
+    },
+    flags: {
+      disableFocusOnError: disableFocusOnError ?? false,
+      reloadDocument: false,
+    },
+  });
+  const store = scope.__store__;
+  const transientState = () => store.store.getState();
+
+  store.formRef.current = form;
+  initializeFieldArrayKeys(form, store);
+  renderErrors(form, transientState());
+
+  const unsubscribeErrors = store.store.subscribe((state, prevState) => {
+    if (state.validationErrors === prevState.validationErrors) return;
+    renderErrors(form, state);
+  });
+  const unregisterEvents = registerFormElementEvents(store);
+
+  const onSubmit = (event: SubmitEvent) => {
+    if (event.defaultPrevented || isSubmittingNatively) return;
+    event.preventDefault();
+
+    submitter = event.submitter;
+    const { submitterData, submitterOptions } = getSubmitterOptions(
+      event.submitter,
+    );
+    transientState().onSubmit(submitterData, submitterOptions);
+  };
+
+  const onReset = (event: Event) => {
+    if (event.defaultPrevented) return;
+    removeClonedItems(form);
+    transientState().reset();
+    // Resetting clears the array keys along with the rest of the state
+    initializeFieldArrayKeys(form, store);
+  };
+
+  const onClick = (event: MouseEvent) => {
+    if (!(event.target instanceof Element)) return;
+
+    const pushButton = event.target.closest(`[${PUSH_ATTRIBUTE}]`);
+    if (pushButton && form.contains(pushButton)) {
+      createFieldArray(
+        form,
+        store,
+        pushButton.getAttribute(PUSH_ATTRIBUTE)!,
+      ).push();
+      return;
+    }
+
+    const removeButton = event.target.closest(`[${REMOVE_ATTRIBUTE}]`);
+    const item = removeButton && getItemOf(removeButton);
+    if (item && form.contains(removeButton)) {
+      createFieldArray(form, store, item.fieldName).remove(item.index);
+    }
+  };
+
+  form.addEventListener("submit", onSubmit);
+  form.addEventListener("reset", onReset);
+  form.addEventListener("click", onClick);
+
+  return {
+    scope,
+    getValues: () => transientState().values as FormInputData,
+    getErrors: () => getFirstErrors(transientState().validationErrors),
+    validate: () =>
+      transientState()
+        .validate()
+        .then((res) => getFirstErrors(res.errors ?? {})),
+    submit: () => {
+      submitter = null;
+      transientState().onSubmit();
+    },
+    reset: () => form.reset(),
+    array: (fieldName) => createFieldArray(form, store, fieldName),
+    unbind: () => {
+      unsubscribeErrors();
+      unregisterEvents();
+      form.removeEventListener("submit", onSubmit);
+      form.removeEventListener("reset", onReset);
+      form.removeEventListener("click", onClick);
+      store.formRef.current = null;
+    },
+  };
+};
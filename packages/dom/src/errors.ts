@@ -0,0 +1,21 @@
+import { FormStoreValue, getFieldError, isFormControl } from "@rvf/core";
+
+export const ERROR_ATTRIBUTE = "data-rvf-error-for";
+
+/**
+ * Writes the current errors into the `[data-rvf-error-for]` elements of the form
+ * and marks each invalid form control with `aria-invalid`.
+ */
+export const renderErrors = (form: HTMLFormElement, state: FormStoreValue) => {
+  form.querySelectorAll<HTMLElement>(`[${ERROR_ATTRIBUTE}]`).forEach((el) => {
+    const fieldName = el.getAttribute(ERROR_ATTRIBUTE) ?? "";
+    el.textContent = getFieldError(state, fieldName) ?? "";
+  });
+
+  [...form.elements].filter(isFormControl).forEach((control) => {
+    if (!control.name) return;
+    if (getFieldError(state, control.name))
+      control.setAttribute("aria-invalid", "true");
+    else control.removeAttribute("aria-invalid");
+  });
+};
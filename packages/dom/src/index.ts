@@ -0,0 +1,2 @@
+export { bindForm, type BindFormOptions, type BoundForm } from "./bindForm";
+export { type FieldArrayApi } from "./arrays";
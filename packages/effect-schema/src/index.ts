@@ -0,0 +1,98 @@
+import {
+  type AllFieldErrors,
+  type FieldErrors,
+  type Validator,
+  type ValidatorFieldErrors,
+  createValidator,
+} from "@rvf/core";
+import { pathArrayToString } from "@rvf/set-get";
+import { Effect, Either, ParseResult, Schema } from "effect";
+
+type AnySchema = Schema.Schema<any, any, never>;
+
+// The array formatter flattens the issues for each member of a union,
+// so we get errors for the fields in each member.
+const getIssuesForError = (error: ParseResult.ParseError) =>
+  ParseResult.ArrayFormatter.formatErrorSync(error);
+
+function formatIssuePath(issue: ParseResult.ArrayFormatterIssue): string {
+  const pathArray = issue.path.map((key) =>
+    typeof key === "number" ? key : String(key),
+  );
+  return pathArrayToString(pathArray);
+}
+
+function errorToFieldErrors(error: ParseResult.ParseError): FieldErrors {
+  const fieldErrors: FieldErrors = {};
+  getIssuesForError(error).forEach((issue) => {
+    const path = formatIssuePath(issue);
+    if (!fieldErrors[path]) fieldErrors[path] = issue.message;
+  });
+  return fieldErrors;
+}
+
+function errorToAllFieldErrors(error: ParseResult.ParseError): AllFieldErrors {
+  const fieldErrors: Record<string, string[]> = {};
+  getIssuesForError(error).forEach((issue) => {
+    const path = formatIssuePath(issue);
+    fieldErrors[path] ??= [];
+    // Union members can report the same issue more than once
+    if (!fieldErrors[path].includes(issue.message))
+      fieldErrors[path].push(issue.message);
+  });
+  return fieldErrors;
+}
+
+// Decoding runs as an effect so schemas with async transformations work too.
+const decode = <A>(schema: Schema.Schema<A, any, never>, value: unknown) =>
+  Effect.runPromise(
+    Effect.either(Schema.decodeUnknown(schema, { errors: "all" })(value)),
+  );
+
+export type WithEffectSchemaOptions<AllErrors extends boolean = boolean> = {
+  /**
+   * A schema for things the user should know about, but that shouldn't stop the form from being submitted.
+   * Any issues from this schema are shown as warnings instead of errors.
+   */
+  warnings?: AnySchema;
+
+  /**
+   * Return every error message for each field instead of only the first one.
+   * Use `errors(fieldName)` to access all the messages.
+   */
+  allErrors?: AllErrors;
+};
+
+/**
+ * Create a validator using an Effect `Schema`.
+ */
+export function withEffectSchema<A, I, AllErrors extends boolean = false>(
+  schema: Schema.Schema<A, I, never>,
+  options?: WithEffectSchemaOptions<AllErrors>,
+): Validator<A, ValidatorFieldErrors<AllErrors>> {
+  const getWarnings = async (value: unknown) => {
+    if (!options?.warnings) return undefined;
+    const result = await decode(options.warnings, value);
+    return Either.isLeft(result) ? errorToFieldErrors(result.left) : undefined;
+  };
+
+  return createValidator<A, ValidatorFieldErrors<AllErrors>>({
+    validate: async (value) => {
+      const [result, warnings] = await Promise.all([
+        decode(schema, value),
+        getWarnings(value),
+      ]);
+
+      if (Either.isRight(result))
+        return { data: result.right, error: undefined, warnings };
+
+      return {
+        data: undefined,
+        error: (options?.allErrors
+          ? errorToAllFieldErrors(result.left)
+          : errorToFieldErrors(result.left)) as ValidatorFieldErrors<AllErrors>,
+        warnings,
+      };
+    },
+  });
+}
@@ -0,0 +1,213 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { anyString } from "@remix-validated-form/test-utils";
+import * as semver from "semver";
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { type Validator } from "@rvf/core";
+import { Schema } from "effect";
+import { withEffectSchema } from "./";
+
+describe("withEffectSchema", () => {
+  it("returns coherent errors for complex schemas", async () => {
+    const schema = Schema.Union(
+      Schema.Struct({ foo: Schema.String }),
+      Schema.Struct({ bar: Schema.String }),
+    );
+    const obj = {
+      bar: 123,
+      foo: 123,
+    };
+
+    expect(await withEffectSchema(schema).validate(obj)).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          bar: anyString,
+          foo: anyString,
+        },
+        subaction: undefined,
+      },
+      submittedData: obj,
+    });
+  });
+
+  it("returns errors for fields that are unions", async () => {
+    const schema = Schema.Struct({
+      field1: Schema.Literal("foo", "bar"),
+      field2: Schema.Literal("foo", "bar"),
+    });
+    const obj = {
+      field1: "a value",
+      // field2 missing
+    };
+
+    const validator = withEffectSchema(schema);
+    expect(await validator.validate(obj)).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          field1: anyString,
+          field2: anyString,
+        },
+        subaction: undefined,
+      },
+      submittedData: obj,
+    });
+  });
+
+  it("flattens nested paths into field names", async () => {
+    const schema = Schema.Struct({
+      todos: Schema.Array(Schema.Struct({ title: Schema.NonEmptyString })),
+    });
+    const obj = { todos: [{ title: "Foo" }, { title: "" }] };
+
+    expect(await withEffectSchema(schema).validate(obj)).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          "todos[1].title": anyString,
+        },
+        subaction: undefined,
+      },
+      submittedData: obj,
+    });
+  });
+
+  it("returns custom error messages", async () => {
+    const schema = Schema.Struct({
+      type: Schema.String.annotations({ message: () => "Custom error" }),
+    });
+    const obj = {
+      type: 123,
+    };
+
+    expect(await withEffectSchema(schema).validate(obj)).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          type: "Custom error",
+        },
+        subaction: undefined,
+      },
+      submittedData: obj,
+    });
+  });
+
+  it("returns every error message for a field when allErrors is set", async () => {
+    const schema = Schema.Struct({
+      password: Schema.String.pipe(
+        Schema.filter((value) => [
+          /[0-9]/.test(value) || "Needs a number",
+          /[^a-zA-Z0-9]/.test(value) || "Needs a symbol",
+        ]),
+      ),
+      name: Schema.String.pipe(
+        Schema.minLength(1, { message: () => "Required" }),
+      ),
+    });
+    const obj = { password: "password", name: "" };
+
+    expect(await withEffectSchema(schema).validate(obj)).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          password: "Needs a number",
+          name: "Required",
+        },
+        subaction: undefined,
+      },
+      submittedData: obj,
+    });
+
+    expect(
+      await withEffectSchema(schema, { allErrors: true }).validate(obj),
+    ).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          password: ["Needs a number", "Needs a symbol"],
+          name: ["Required"],
+        },
+        subaction: undefined,
+      },
+      submittedData: obj,
+    });
+  });
+
+  it("returns warnings without blocking validation", async () => {
+    const schema = Schema.Struct({
+      email: Schema.String.pipe(Schema.pattern(/@/)),
+      password: Schema.String,
+    });
+    const warnings = Schema.Struct({
+      email: Schema.String.pipe(
+        Schema.endsWith(".com", { message: () => "Unusual email domain" }),
+      ),
+      password: Schema.String.pipe(
+        Schema.minLength(12, { message: () => "Weak password" }),
+      ),
+    });
+
+    const obj = { email: "bob@example.zzz", password: "secret" };
+    expect(await withEffectSchema(schema, { warnings }).validate(obj)).toEqual({
+      data: obj,
+      error: undefined,
+      warnings: {
+        email: "Unusual email domain",
+        password: "Weak password",
+      },
+      submittedData: obj,
+    });
+
+    const invalid = { email: "bob", password: "a strong password" };
+    expect(
+      await withEffectSchema(schema, { warnings }).validate(invalid),
+    ).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          email: anyString,
+        },
+        subaction: undefined,
+      },
+      warnings: {
+        email: "Unusual email domain",
+      },
+      submittedData: invalid,
+    });
+  });
+
+  it("infers the output type of the schema", async () => {
+    const schema = Schema.Struct({
+      name: Schema.String,
+      age: Schema.NumberFromString,
+    });
+    const validator = withEffectSchema(schema);
+    expectTypeOf(validator).toEqualTypeOf<
+      Validator<{ readonly name: string; readonly age: number }>
+    >();
+
+    const obj = { name: "Bob", age: "42" };
+    expect((await validator.validate(obj)).data).toEqual({
+      name: "Bob",
+      age: 42,
+    });
+  });
+});
+
+const packageDir = path.join(__dirname, "..");
+const packageJsonPath = path.join(packageDir, "package.json");
+const corePackageJsonPath = path.join(packageDir, "../core/package.json");
+
+describe("peer dependecy version", () => {
+  it("should have a peer dependency version that matches the lastet version of RVF", async () => {
+    const packageJson = JSON.parse(await fs.readFile(packageJsonPath, "utf-8"));
+    const peerDependencyVersion = packageJson.peerDependencies["@rvf/core"];
+    const rvfPackageJson = JSON.parse(
+      await fs.readFile(corePackageJsonPath, "utf-8"),
+    );
+    const rvfVersion = rvfPackageJson.version;
+
+    expect(semver.satisfies(rvfVersion, peerDependencyVersion)).toBe(true);
+  });
+});
@@ -0,0 +1,313 @@
+import {
+  type AllFieldErrors,
+  type FieldErrors,
+  type Validator,
+  type ValidatorFieldErrors,
+  createValidator,
+} from "@rvf/core";
+import { pathArrayToString } from "@rvf/set-get";
+import Ajv, {
+  type AnySchema,
+  type ErrorObject,
+  type JSONSchemaType,
+  type ValidateFunction,
+} from "ajv";
+import ajvErrors from "ajv-errors";
+
+type Issue = { path: (string | number)[]; message: string };
+
+/**
+ * Turns a JSON Pointer like `/todos/0/title` into a path array.
+ */
+const jsonPointerToPath = (pointer: string): (string | number)[] =>
+  pointer
+    .split("/")
+    .slice(1)
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .map((segment) => (/^\d+$/.test(segment) ? Number(segment) : segment));
+
+/**
+ * Ajv reports `required` errors on the object that's missing the property,
+ * so those are moved onto the missing field instead.
+ * When a message comes from `ajv-errors`, the errors it replaced are used to find the field.
+ */
+const getIssuesForError = (error: ErrorObject): Issue[] => {
+  const path = jsonPointerToPath(error.instancePath);
+  const message = error.message ?? error.keyword;
+  const sourceErrors: ErrorObject[] =
+    error.keyword === "errorMessage" ? error.params.errors : [error];
+
+  const missingProperties = sourceErrors
+    .filter((sourceError) => sourceError.keyword === "required")
+    .map((sourceError) => sourceError.params.missingProperty as string);
+  if (
+    missingProperties.length > 0 &&
+    missingProperties.length === sourceErrors.length
+  )
+    return missingProperties.map((property) => ({
+      path: [...path, property],
+      message,
+    }));
+
+  return [{ path, message }];
+};
+
+function errorsToFieldErrors(errors: ErrorObject[]): FieldErrors {
+  const fieldErrors: FieldErrors = {};
+  errors.flatMap(getIssuesForError).forEach((issue) => {
+    const path = pathArrayToString(issue.path);
+    if (!fieldErrors[path]) fieldErrors[path] = issue.message;
+  });
+  return fieldErrors;
+}
+
+function errorsToAllFieldErrors(errors: ErrorObject[]): AllFieldErrors {
+  const fieldErrors: Record<string, string[]> = {};
+  errors.flatMap(getIssuesForError).forEach((issue) => {
+    const path = pathArrayToString(issue.path);
+    fieldErrors[path] ??= [];
+    // Branches of `anyOf` and `oneOf` can report the same error more than once
+    if (!fieldErrors[path].includes(issue.message))
+      fieldErrors[path].push(issue.message);
+  });
+  return fieldErrors;
+}
+
+const createAjv = () => {
+  const ajv = new Ajv({
+    // Required by `ajv-errors`, and lets us show errors for every field
+    allErrors: true,
+    // Everything in `FormData` is a string, and repeated fields might only have one value
+    coerceTypes: "array",
+  });
+  ajvErrors(ajv);
+  return ajv;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" &&
+  value !== null &&
+  Object.getPrototypeOf(value) === Object.prototype;
+
+type RefResolver = (ref: string) => unknown;
+
+/**
+ * Resolves `$ref`s for the schema that's being validated against.
+ * Refs to other parts of the same schema, like `#/$defs/name`, are looked up in the schema.
+ * Anything else is looked up with `ajv.getSchema`, so it only resolves schemas that were added to Ajv by their `$id`.
+ * Refs that can't be resolved are ignored.
+ */
+const createRefResolver =
+  (ajv: Ajv, rootSchema: unknown): RefResolver =>
+  (ref) => {
+    if (!ref.startsWith("#")) return ajv.getSchema(ref)?.schema;
+    return jsonPointerToPath(ref.slice(1)).reduce<unknown>(
+      (schema, segment) =>
+        isPlainObject(schema) || Array.isArray(schema)
+          ? (schema as any)[segment]
+          : undefined,
+      rootSchema,
+    );
+  };
+
+/**
+ * Gets the schema along with every schema it combines with `allOf`, `anyOf` and `oneOf` or refers to with `$ref`,
+ * so we can tell what a value might be validated against.
+ */
+const getSubschemas = (
+  schema: unknown,
+  resolveRef: RefResolver,
+  seen = new Set<unknown>(),
+): Record<string, any>[] => {
+  if (!isPlainObject(schema) || seen.has(schema)) return [];
+  seen.add(schema);
+  const combined = [
+    schema.allOf,
+    schema.anyOf,
+    schema.oneOf,
+    typeof schema.$ref === "string" ? [resolveRef(schema.$ref)] : undefined,
+  ]
+    .filter(Array.isArray)
+    .flat()
+    .flatMap((subschema) => getSubschemas(subschema, resolveRef, seen));
+  return [schema, ...combined];
+};
+
+const acceptsBoolean = (schemas: Record<string, any>[]) =>
+  schemas.some((schema) =>
+    Array.isArray(schema.type)
+      ? schema.type.includes("boolean")
+      : schema.type === "boolean",
+  );
+
+/**
+ * Checks if the schema's own keywords allow an empty string.
+ * Formats are assumed to reject it, since none of the common ones accept it.
+ */
+const ownKeywordsAcceptEmptyString = (schema: Record<string, any>) => {
+  if (schema.type !== undefined && ![schema.type].flat().includes("string"))
+    return false;
+  if (schema.minLength > 0 || schema.format !== undefined) return false;
+  if (Array.isArray(schema.enum) && !schema.enum.includes("")) return false;
+  if ("const" in schema && schema.const !== "") return false;
+  if (typeof schema.pattern === "string")
+    return new RegExp(schema.pattern, "u").test("");
+  return true;
+};
+
+/**
+ * Checks if a value of `""` could pass the schema.
+ * Every `allOf` schema needs to accept it, but only one of the `anyOf` or `oneOf` schemas does.
+ */
+const acceptsEmptyString = (
+  schema: unknown,
+  resolveRef: RefResolver,
+  seen = new Set<unknown>(),
+): boolean => {
+  if (!isPlainObject(schema) || seen.has(schema)) return true;
+  seen.add(schema);
+  const accepts = (subschema: unknown) =>
+    acceptsEmptyString(subschema, resolveRef, seen);
+
+  return (
+    ownKeywordsAcceptEmptyString(schema) &&
+    (!Array.isArray(schema.allOf) || schema.allOf.every(accepts)) &&
+    (!Array.isArray(schema.anyOf) || schema.anyOf.some(accepts)) &&
+    (!Array.isArray(schema.oneOf) || schema.oneOf.some(accepts)) &&
+    (typeof schema.$ref !== "string" || accepts(resolveRef(schema.$ref)))
+  );
+};
+
+/**
+ * Prepares a copy of the value for validation.
+ * Empty inputs are submitted as `""`, so those are removed to let `required` catch them,
+ * unless the field's schema accepts an empty string.
+ * Checkboxes are submitted as `"on"`, which Ajv doesn't coerce to `true` by itself.
+ */
+const prepareValue = (
+  schema: unknown,
+  value: unknown,
+  resolveRef: RefResolver,
+): unknown => {
+  const schemas = getSubschemas(schema, resolveRef);
+
+  if (Array.isArray(value))
+    return value.map((item, index) =>
+      prepareValue(
+        {
+          allOf: schemas.map((s) =>
+            Array.isArray(s.items) ? s.items[index] : s.items,
+          ),
+        },
+        item,
+        resolveRef,
+      ),
+    );
+
+  if (isPlainObject(value))
+    return Object.fromEntries(
+      Object.entries(value)
+        .map(([key, item]) => {
+          const propertySchema = {
+            allOf: schemas.map((s) => s.properties?.[key]),
+          };
+          return [key, item, propertySchema] as const;
+        })
+        .filter(
+          ([, item, propertySchema]) =>
+            item !== "" || acceptsEmptyString(propertySchema, resolveRef),
+        )
+        .map(([key, item, propertySchema]) => [
+          key,
+          prepareValue(propertySchema, item, resolveRef),
+        ]),
+    );
+
+  if (value === "on" && acceptsBoolean(schemas)) return true;
+  return value;
+};
+
+/**
+ * Ajv coerces types in place, so this validates a copy and returns it along with any errors.
+ */
+const runValidation = async <T>(
+  ajv: Ajv,
+  validate: ValidateFunction<T>,
+  value: unknown,
+): Promise<{ data: T; errors?: ErrorObject[] }> => {
+  const data = prepareValue(
+    validate.schema,
+    value,
+    createRefResolver(ajv, validate.schema),
+  ) as T;
+  try {
+    const valid = await validate(data);
+    if (valid) return { data };
+    return { data, errors: validate.errors ?? [] };
+  } catch (err) {
+    // Schemas with `$async: true` throw instead
+    if (err instanceof Ajv.ValidationError)
+      return { data, errors: err.errors as ErrorObject[] };
+    throw err;
+  }
+};
+
+export type WithJsonSchemaOptions<AllErrors extends boolean = boolean> = {
+  /**
+   * The Ajv instance used to compile the schema.
+   * Use this to add formats or keywords.
+   * It should have the `allErrors` and `coerceTypes` options set, and `ajv-errors` added,
+   * for the adapter to work the same way as the default instance.
+   */
+  ajv?: Ajv;
+
+  /**
+   * A schema for things the user should know about, but that shouldn't stop the form from being submitted.
+   * Any errors from this schema are shown as warnings instead of errors.
+   */
+  warnings?: AnySchema;
+
+  /**
+   * Return every error message for each field instead of only the first one.
+   * Use `errors(fieldName)` to access all the messages.
+   */
+  allErrors?: AllErrors;
+};
+
+/**
+ * Create a validator using a JSON Schema, compiled with Ajv.
+ * Custom messages can be set with the `errorMessage` keyword from `ajv-errors`.
+ */
+export function withJsonSchema<T = unknown, AllErrors extends boolean = false>(
+  schema: JSONSchemaType<T> | AnySchema,
+  options?: WithJsonSchemaOptions<AllErrors>,
+): Validator<T, ValidatorFieldErrors<AllErrors>> {
+  const ajv = options?.ajv ?? createAjv();
+  const validateSchema = ajv.compile<T>(schema);
+  const validateWarnings = options?.warnings && ajv.compile(options.warnings);
+
+  const getWarnings = async (value: unknown) => {
+    if (!validateWarnings) return undefined;
+    const { errors } = await runValidation(ajv, validateWarnings, value);
+    return errors ? errorsToFieldErrors(errors) : undefined;
+  };
+
+  return createValidator<T, ValidatorFieldErrors<AllErrors>>({
+    validate: async (value) => {
+      const [{ data, errors }, warnings] = await Promise.all([
+        runValidation(ajv, validateSchema, value),
+        getWarnings(value),
+      ]);
+
+      if (!errors) return { data, error: undefined, warnings };
+
+      return {
+        data: undefined,
+        error: (options?.allErrors
+          ? errorsToAllFieldErrors(errors)
+          : errorsToFieldErrors(errors)) as ValidatorFieldErrors<AllErrors>,
+        warnings,
+      };
+    },
+  });
+}
@@ -0,0 +1,403 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import { anyString, TestFormData } from "@remix-validated-form/test-utils";
+import * as semver from "semver";
+import { describe, it, expect } from "vitest";
+import { withJsonSchema } from "./";
+
+describe("withJsonSchema", () => {
+  it("returns coherent errors for complex schemas", async () => {
+    const schema = {
+      anyOf: [
+        {
+          type: "object",
+          properties: { foo: { type: "string" } },
+          required: ["foo"],
+        },
+        {
+          type: "object",
+          properties: { bar: { type: "string" } },
+          required: ["bar"],
+        },
+      ],
+    };
+    // Numbers would be coerced to strings, but objects can't be
+    const obj = {
+      bar: {},
+      foo: {},
+    };
+
+    expect(await withJsonSchema(schema).validate(obj)).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          "": anyString,
+          bar: anyString,
+          foo: anyString,
+        },
+        subaction: undefined,
+      },
+      submittedData: obj,
+    });
+  });
+
+  it("maps required errors onto the missing field", async () => {
+    const schema = {
+      type: "object",
+      properties: {
+        field1: { enum: ["foo", "bar"] },
+        field2: { enum: ["foo", "bar"] },
+      },
+      required: ["field1", "field2"],
+    };
+    const obj = {
+      field1: "a value",
+      // field2 missing
+    };
+
+    const validator = withJsonSchema(schema);
+    expect(await validator.validate(obj)).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          field1: anyString,
+          field2: anyString,
+        },
+        subaction: undefined,
+      },
+      submittedData: obj,
+    });
+  });
+
+  it("turns instance paths into field names", async () => {
+    const schema = {
+      type: "object",
+      properties: {
+        todos: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: { title: { type: "string", minLength: 1 } },
+            required: ["title"],
+          },
+        },
+        "a/b": { type: "string" },
+      },
+    };
+    const obj = { todos: [{ title: "Foo" }, { title: "" }, {}], "a/b": {} };
+
+    expect(await withJsonSchema(schema).validate(obj)).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          "todos[1].title": anyString,
+          "todos[2].title": anyString,
+          "a/b": anyString,
+        },
+        subaction: undefined,
+      },
+      submittedData: obj,
+    });
+  });
+
+  it("returns custom error messages from ajv-errors", async () => {
+    const schema = {
+      type: "object",
+      properties: {
+        type: { type: "string", errorMessage: "Custom error" },
+        name: { type: "string" },
+      },
+      required: ["name"],
+      errorMessage: {
+        required: { name: "Name is required" },
+      },
+    };
+    const obj = {
+      type: {},
+    };
+
+    expect(await withJsonSchema(schema).validate(obj)).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          type: "Custom error",
+          name: "Name is required",
+        },
+        subaction: undefined,
+      },
+      submittedData: obj,
+    });
+  });
+
+  it("coerces values from FormData using the schema's types", async () => {
+    const schema = {
+      type: "object",
+      properties: {
+        name: { type: "string" },
+        age: { type: "integer" },
+        likesPizza: { type: "boolean" },
+        tags: { type: "array", items: { type: "string" } },
+      },
+      required: ["name", "age", "likesPizza", "tags"],
+    };
+    const formData = new TestFormData();
+    formData.set("name", "Bob");
+    formData.set("age", "42");
+    formData.set("likesPizza", "true");
+    formData.set("tags", "a");
+
+    const result = await withJsonSchema<{
+      name: string;
+      age: number;
+      likesPizza: boolean;
+      tags: string[];
+    }>(schema).validate(formData);
+    expect(result.data).toEqual({
+      name: "Bob",
+      age: 42,
+      likesPizza: true,
+      tags: ["a"],
+    });
+    expect(result.submittedData).toEqual({
+      name: "Bob",
+      age: "42",
+      likesPizza: "true",
+      tags: "a",
+    });
+  });
+
+  it("treats checkboxes that are `on` as true", async () => {
+    const schema = {
+      type: "object",
+      properties: {
+        likesPizza: { type: "boolean" },
+        toppings: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: { extra: { type: ["boolean", "null"] } },
+          },
+        },
+        mode: { type: "string" },
+      },
+    };
+    const formData = new TestFormData();
+    formData.set("likesPizza", "on");
+    formData.set("toppings[0].extra", "on");
+    formData.set("mode", "on");
+
+    const result = await withJsonSchema(schema).validate(formData);
+    expect(result.data).toEqual({
+      likesPizza: true,
+      toppings: [{ extra: true }],
+      mode: "on",
+    });
+    expect(result.submittedData).toEqual({
+      likesPizza: "on",
+      toppings: [{ extra: "on" }],
+      mode: "on",
+    });
+  });
+
+  it("treats empty inputs as missing when the schema doesn't accept an empty string", async () => {
+    const schema = {
+      type: "object",
+      properties: {
+        name: { type: "string", minLength: 1 },
+        nickname: { type: "string" },
+        age: { type: "integer" },
+      },
+      required: ["name", "age"],
+    };
+    const formData = new TestFormData();
+    formData.set("name", "");
+    formData.set("nickname", "");
+    formData.set("age", "");
+
+    expect(await withJsonSchema(schema).validate(formData)).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          name: anyString,
+          age: anyString,
+        },
+        subaction: undefined,
+      },
+      submittedData: { name: "", nickname: "", age: "" },
+    });
+
+    formData.set("name", "Bob");
+    formData.set("age", "42");
+    expect((await withJsonSchema(schema).validate(formData)).data).toEqual({
+      name: "Bob",
+      nickname: "",
+      age: 42,
+    });
+  });
+
+  it("keeps empty strings that the schema accepts", async () => {
+    const schema = {
+      type: "object",
+      properties: {
+        title: { type: "string" },
+        size: { enum: ["", "small", "large"] },
+        color: { enum: ["red", "blue"] },
+      },
+      required: ["title", "size"],
+    };
+
+    expect(
+      (
+        await withJsonSchema(schema).validate({
+          title: "",
+          size: "",
+          color: "",
+        })
+      ).data,
+    ).toEqual({ title: "", size: "" });
+  });
+
+  it("follows refs to tell if a field accepts an empty string", async () => {
+    const schema = {
+      type: "object",
+      $defs: {
+        name: { type: "string", minLength: 1 },
+        note: { type: "string" },
+      },
+      properties: {
+        name: { $ref: "#/$defs/name" },
+        note: { $ref: "#/$defs/note" },
+      },
+      required: ["name", "note"],
+    };
+
+    expect(
+      await withJsonSchema(schema).validate({ name: "", note: "" }),
+    ).toEqual({
+      data: undefined,
+      error: {
+        // The empty name is left out, so it's reported as missing
+        fieldErrors: { name: "must have required property 'name'" },
+        subaction: undefined,
+      },
+      submittedData: { name: "", note: "" },
+    });
+  });
+
+  it("returns every error message for a field when allErrors is set", async () => {
+    const schema = {
+      type: "object",
+      properties: {
+        password: {
+          type: "string",
+          allOf: [
+            { pattern: "[0-9]", errorMessage: "Needs a number" },
+            { pattern: "[^a-zA-Z0-9]", errorMessage: "Needs a symbol" },
+          ],
+        },
+        name: { type: "string" },
+      },
+      required: ["name"],
+      errorMessage: {
+        required: { name: "Required" },
+      },
+    };
+    const obj = { password: "password" };
+
+    expect(await withJsonSchema(schema).validate(obj)).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          password: "Needs a number",
+          name: "Required",
+        },
+        subaction: undefined,
+      },
+      submittedData: obj,
+    });
+
+    expect(
+      await withJsonSchema(schema, { allErrors: true }).validate(obj),
+    ).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          password: ["Needs a number", "Needs a symbol"],
+          name: ["Required"],
+        },
+        subaction: undefined,
+      },
+      submittedData: obj,
+    });
+  });
+
+  it("returns warnings without blocking validation", async () => {
+    const schema = {
+      type: "object",
+      properties: {
+        email: { type: "string", pattern: "@" },
+        password: { type: "string" },
+      },
+    };
+    const warnings = {
+      type: "object",
+      properties: {
+        email: {
+          type: "string",
+          pattern: "\\.com$",
+          errorMessage: "Unusual email domain",
+        },
+        password: {
+          type: "string",
+          minLength: 12,
+          errorMessage: "Weak password",
+        },
+      },
+    };
+
+    const obj = { email: "bob@example.zzz", password: "secret" };
+    expect(await withJsonSchema(schema, { warnings }).validate(obj)).toEqual({
+      data: obj,
+      error: undefined,
+      warnings: {
+        email: "Unusual email domain",
+        password: "Weak password",
+      },
+      submittedData: obj,
+    });
+
+    const invalid = { email: "bob", password: "a strong password" };
+    expect(
+      await withJsonSchema(schema, { warnings }).validate(invalid),
+    ).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          email: anyString,
+        },
+        subaction: undefined,
+      },
+      warnings: {
+        email: "Unusual email domain",
+      },
+      submittedData: invalid,
+    });
+  });
+});
+
+const packageDir = path.join(__dirname, "..");
+const packageJsonPath = path.join(packageDir, "package.json");
+const corePackageJsonPath = path.join(packageDir, "../core/package.json");
+
+describe("peer dependecy version", () => {
+  it("should have a peer dependency version that matches the lastet version of RVF", async () => {
+    const packageJson = JSON.parse(await fs.readFile(packageJsonPath, "utf-8"));
+    const peerDependencyVersion = packageJson.peerDependencies["@rvf/core"];
+    const rvfPackageJson = JSON.parse(
+      await fs.readFile(corePackageJsonPath, "utf-8"),
+    );
+    const rvfVersion = rvfPackageJson.version;
+
+    expect(semver.satisfies(rvfVersion, peerDependencyVersion)).toBe(true);
+  });
+});
@@ -0,0 +1,3 @@
+import { config } from "tsup-config";
+
+export default config;
@@ -0,0 +1,9 @@
+export {
+  useServerActionForm,
+  type ServerAction,
+  type ServerActionFormOpts,
+} from "./useServerActionForm";
+export {
+  isValidationErrorResponse,
+  type ValidationErrorResponseData,
+} from "@rvf/react";
@@ -0,0 +1,83 @@
+import {
+  FORM_ID_FIELD_NAME,
+  createValidator,
+  isValidationErrorResponse,
+} from "@rvf/core";
+import { createValidatedAction, validationError } from "./server";
+
+const validator = createValidator<{ name: string }>({
+  validate: async (data) => {
+    if (!data.name)
+      return { data: undefined, error: { name: "Name is required" } };
+    return { data: data as { name: string }, error: undefined };
+  },
+});
+
+const createFormData = (entries: Record<string, string | File>) => {
+  const formData = new FormData();
+  Object.entries(entries).forEach(([key, value]) =>
+    formData.append(key, value),
+  );
+  return formData;
+};
+
+describe("createValidatedAction", () => {
+  it("should call the handler with the validated data", async () => {
+    const handler = vi.fn(async (data: { name: string }) => ({
+      message: `Hello, ${data.name}`,
+    }));
+    const action = createValidatedAction(validator, handler);
+    const formData = createFormData({ name: "Jane" });
+
+    expect(await action(null, formData)).toEqual({ message: "Hello, Jane" });
+    expect(handler).toHaveBeenCalledWith({ name: "Jane" }, formData);
+  });
+
+  it("should return the validation errors without calling the handler", async () => {
+    const handler = vi.fn();
+    const action = createValidatedAction(validator, handler);
+
+    const result = await action(
+      null,
+      createFormData({ name: "", bio: "Hi", [FORM_ID_FIELD_NAME]: "profile" }),
+    );
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(isValidationErrorResponse(result)).toBe(true);
+    expect(result).toEqual({
+      fieldErrors: { name: "Name is required" },
+      formId: "profile",
+      repopulateFields: {
+        name: "",
+        bio: "Hi",
+        [FORM_ID_FIELD_NAME]: "profile",
+      },
+    });
+  });
+
+  it("should return errors from the handler", async () => {
+    const action = createValidatedAction(validator, async () =>
+      validationError({ fieldErrors: { name: "Name is taken" } }),
+    );
+
+    expect(await action(null, createFormData({ name: "Jane" }))).toEqual({
+      fieldErrors: { name: "Name is taken" },
+    });
+  });
+});
+
+describe("validationError", () => {
+  it("should return serializable state", () => {
+    const result = validationError(
+      { fieldErrors: { avatar: "Too big" }, formId: "profile" },
+      { name: "Jane", avatar: new File(["a"], "avatar.png") },
+    );
+
+    expect(result).toEqual({
+      fieldErrors: { avatar: "Too big" },
+      formId: "profile",
+      repopulateFields: { name: "Jane", avatar: undefined },
+    });
+    expect(JSON.parse(JSON.stringify(result))).toEqual(result);
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  AllFieldErrors,
+  FieldErrors,
+  ValidationErrorResponseData,
+  Validator,
+  ValidatorError,
+} from "@rvf/core";
+
+/**
+ * Files can't be put back into a file input, so there's no point in sending them back to the client.
+ */
+const removeFiles = (value: unknown): unknown => {
+  if (typeof File !== "undefined" && value instanceof File) return undefined;
+  if (Array.isArray(value)) return value.map(removeFiles);
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, val]) => [key, removeFiles(val)]),
+    );
+  }
+  return value;
+};
+
+/**
+ * Takes the errors from a `Validator` and turns them into state that can be returned from a server action.
+ * When this is the state of the action, `useServerActionForm` will automatically
+ * display the errors on the correct fields on the correct form.
+ *
+ * You can also provide a second argument to `validationError`
+ * to specify how to repopulate the form when JS is disabled.
+ *
+ * @example
+ * ```ts
+ * const result = await validator.validate(formData);
+ * if (result.error) return validationError(result.error, result.submittedData);
+ * ```
+ */
+export function validationError<
+  Errors extends FieldErrors | AllFieldErrors = FieldErrors,
+>(
+  error: ValidatorError<Errors>,
+  repopulateFields?: unknown,
+): ValidationErrorResponseData<Errors> {
+  return {
+    fieldErrors: error.fieldErrors,
+    repopulateFields: removeFiles(repopulateFields),
+    formId: error.formId,
+  };
+}
+
+/**
+ * A server action that can be passed to `useActionState` or `useServerActionForm`.
+ */
+export type ValidatedAction<
+  Result,
+  Errors extends FieldErrors | AllFieldErrors = FieldErrors,
+> = (
+  prevState: Result | ValidationErrorResponseData<Errors> | null,
+  formData: FormData,
+) => Promise<Result | ValidationErrorResponseData<Errors>>;
+
+/**
+ * Creates a server action that validates the submitted `FormData` before calling `handler`.
+ * If the data is invalid, the action returns the validation errors instead of calling `handler`.
+ * `handler` can also return a `validationError` for errors that can only be found on the server.
+ *
+ * @example
+ * ```ts
+ * "use server";
+ *
+ * export const updateProfile = createValidatedAction(validator, async (data) => {
+ *   await db.profile.update(data);
+ *   return { message: "Profile updated" };
+ * });
+ * ```
+ */
+export function createValidatedAction<
+  Data,
+  Result,
+  Errors extends FieldErrors | AllFieldErrors = FieldErrors,
+>(
+  validator: Validator<Data, Errors>,
+  handler: (
+    data: Data,
+    formData: FormData,
+  ) =>
+    | Result
+    | ValidationErrorResponseData<Errors>
+    | Promise<Result | ValidationErrorResponseData<Errors>>,
+): ValidatedAction<Result, Errors> {
+  return async (_prevState, formData) => {
+    const result = await validator.validate(formData);
+    if (result.error)
+      return validationError(result.error, result.submittedData);
+    return handler(result.data, formData);
+  };
+}
@@ -0,0 +1,128 @@
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { createValidator } from "@rvf/core";
+import { useServerActionForm } from "./useServerActionForm";
+import { createValidatedAction } from "./server";
+
+// A stand-in for React 19's `useActionState`, which isn't available in the React 18 the tests run on.
+vi.mock("react", async (importOriginal) => {
+  const React = await importOriginal<typeof import("react")>();
+  return {
+    ...React,
+    useActionState: <State, Payload>(
+      action: (state: State, payload: Payload) => Promise<State>,
+      initialState: State,
+    ) => {
+      const [state, setState] = React.useState(initialState);
+      const stateRef = React.useRef(state);
+      stateRef.current = state;
+      // Like React's, the dispatch function is the same on every render
+      const [dispatch] = React.useState(() => (payload: Payload) => {
+        void action(stateRef.current, payload).then(setState);
+      });
+      return [state, dispatch, false];
+    },
+  };
+});
+
+const validator = createValidator<{ name: string }>({
+  validate: async (data) => {
+    if (!data.name)
+      return { data: undefined, error: { name: "Name is required" } };
+    return { data: data as { name: string }, error: undefined };
+  },
+});
+
+const TestComp = ({
+  handler,
+}: {
+  handler: (
+    data: { name: string },
+    formData: FormData,
+  ) => Promise<{ message: string }>;
+}) => {
+  const [form, state] = useServerActionForm(
+    createValidatedAction(validator, handler),
+    {
+      id: "profile",
+      defaultValues: { name: "" },
+      validator,
+    },
+  );
+
+  return (
+    <form {...form.getFormProps()}>
+      {form.renderFormIdInput()}
+      <input data-testid="name" {...form.getInputProps("name")} />
+      <pre data-testid="error">{form.error("name")}</pre>
+      {state && "message" in state && <p>{state.message}</p>}
+      <button type="submit" data-testid="submit" />
+    </form>
+  );
+};
+
+it("should submit valid forms to the server action", async () => {
+  const handler = vi.fn(async (data: { name: string }, _: FormData) => ({
+    message: `Hello, ${data.name}`,
+  }));
+  render(<TestComp handler={handler} />);
+
+  await userEvent.type(screen.getByTestId("name"), "Jane");
+  await userEvent.click(screen.getByTestId("submit"));
+
+  expect(await screen.findByText("Hello, Jane")).toBeInTheDocument();
+  expect(handler).toHaveBeenCalledTimes(1);
+  const [data, formData] = handler.mock.calls[0];
+  expect(data).toMatchObject({ name: "Jane" });
+  expect(formData.get("name")).toBe("Jane");
+});
+
+it("should validate on the client before calling the server action", async () => {
+  const handler = vi.fn();
+  render(<TestComp handler={handler} />);
+
+  await userEvent.click(screen.getByTestId("submit"));
+
+  await waitFor(() =>
+    expect(screen.getByTestId("error")).toHaveTextContent("Name is required"),
+  );
+  expect(handler).not.toHaveBeenCalled();
+});
+
+it("should show validation errors returned by the server action", async () => {
+  const handler = vi.fn();
+  const lenientValidator = createValidator<{ name: string }>({
+    validate: async (data) => ({
+      data: data as { name: string },
+      error: undefined,
+    }),
+  });
+
+  const LenientComp = () => {
+    const [form] = useServerActionForm(
+      createValidatedAction(validator, handler),
+      {
+        id: "profile",
+        defaultValues: { name: "" },
+        validator: lenientValidator,
+      },
+    );
+
+    return (
+      <form {...form.getFormProps()}>
+        {form.renderFormIdInput()}
+        <input data-testid="name" {...form.getInputProps("name")} />
+        <pre data-testid="error">{form.error("name")}</pre>
+        <button type="submit" data-testid="submit" />
+      </form>
+    );
+  };
+  render(<LenientComp />);
+
+  await userEvent.click(screen.getByTestId("submit"));
+
+  await waitFor(() =>
+    expect(screen.getByTestId("error")).toHaveTextContent("Name is required"),
+  );
+  expect(handler).not.toHaveBeenCalled();
+});
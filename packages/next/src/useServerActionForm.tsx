@@ -0,0 +1,75 @@
+import { useActionState } from "react";
+import { FieldValues } from "@rvf/core";
+import { FormApi, FormOpts, useForm } from "@rvf/react";
+
+export type ServerAction<State> = (
+  prevState: State | null,
+  formData: FormData,
+) => Promise<State>;
+
+export type ServerActionFormOpts<
+  FormInputData extends FieldValues,
+  FormOutputData,
+  State,
+> = Omit<
+  FormOpts<FormInputData, FormOutputData, State | null>,
+  | "formAction"
+  | "actionState"
+  | "action"
+  | "serverValidationErrors"
+  | "handleSubmit"
+  | "submitSource"
+  | "reloadDocument"
+> & {
+  /**
+   * The state of the action before the form has been submitted.
+   */
+  initialState?: State | null;
+
+  /**
+   * The URL of the page the form is on.
+   * If the form is submitted before JS has loaded, the browser will navigate to this URL.
+   * This is passed through to `useActionState`.
+   */
+  permalink?: string;
+};
+
+/**
+ * Create a form that submits to a server action.
+ * The form is validated on the client before the action is called,
+ * and any validation errors returned by the action are shown on the form.
+ *
+ * Returns the form and the current state of the action.
+ *
+ * If the form is submitted before JS has loaded, it's submitted to the server action directly.
+ * Render `form.renderFormIdInput()` inside the form if you pass an `id`,
+ * so the errors returned by the action can be matched to the form.
+ */
+export function useServerActionForm<
+  FormInputData extends FieldValues,
+  FormOutputData,
+  State,
+>(
+  serverAction: ServerAction<State>,
+  {
+    initialState = null,
+    permalink,
+    ...options
+  }: ServerActionFormOpts<FormInputData, FormOutputData, State>,
+): [form: FormApi<FormInputData>, state: State | null] {
+  const [state, dispatch] = useActionState<State | null, FormData>(
+    serverAction,
+    initialState as Awaited<State> | null,
+    permalink,
+  );
+
+  const form = useForm<FormInputData, FormOutputData, State | null>({
+    ...options,
+    // This is also set as the `action` prop of the form,
+    // which lets the form submit to the server action before hydration.
+    formAction: dispatch,
+    actionState: state,
+  });
+
+  return [form, state];
+}
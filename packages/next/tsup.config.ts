@@ -0,0 +1,8 @@
+import { config } from "tsup-config";
+
+export default {
+  ...config,
+  // The server helpers have their own entry point,
+  // so that server code doesn't import any client hooks.
+  entry: ["src/index.ts", "src/server.ts"],
+};
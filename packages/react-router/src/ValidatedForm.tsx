@@ -0,0 +1,112 @@
+import { AllProps, FieldValues } from "@rvf/core";
+import { RouterFormOpts, useForm } from "./useForm";
+import { FormProvider, FormApi } from "@rvf/react";
+
+export type ValidatedFormProps<
+  FormInputData extends FieldValues,
+  FormOutputData,
+  FormResponseData,
+> = RouterFormOpts<FormInputData, FormOutputData, FormResponseData> &
+  Omit<React.ComponentProps<"form">, "children"> & {
+    /**
+     * A ref to the form element.
+     */
+    formRef?: React.RefObject<HTMLFormElement>;
+
+    children:
+      | React.ReactNode
+      | ((form: FormApi<FormInputData>) => React.ReactNode);
+  };
+
+export const ValidatedForm = <
+  FormInputData extends FieldValues,
+  FormOutputData,
+  FormResponseData,
+>({
+  validator,
+  formRef,
+  defaultValues,
+  handleSubmit,
+  submitSource,
+  validationBehaviorConfig,
+  children,
+  onSubmit,
+  onReset,
+  action,
+  method,
+  replace,
+  id,
+  preventScrollReset,
+  relative,
+  encType,
+  state,
+  fetcher,
+  onBeforeSubmit,
+  onSubmitSuccess,
+  onSubmitFailure,
+  onInvalidSubmit,
+  disableFocusOnError,
+  resetAfterSubmit,
+  fetcherKey,
+  navigate,
+  otherFormProps,
+  reloadDocument,
+  shouldUnregister,
+  persist,
+  history,
+  conditionalFields,
+  computedFields,
+  fieldDependencies,
+  ...rest
+}: ValidatedFormProps<FormInputData, FormOutputData, FormResponseData>) => {
+  const rvf = useForm<FormInputData, FormOutputData, FormResponseData>({
+    action,
+    id,
+    disableFocusOnError,
+    validator,
+    handleSubmit: handleSubmit as never,
+    submitSource,
+    onBeforeSubmit,
+    onSubmitSuccess,
+    onSubmitFailure,
+    onInvalidSubmit,
+    validationBehaviorConfig,
+    method,
+    replace,
+    preventScrollReset,
+    relative,
+    encType,
+    state,
+    resetAfterSubmit,
+    fetcherKey,
+    navigate,
+    otherFormProps,
+    reloadDocument,
+    shouldUnregister,
+    defaultValues,
+    fetcher,
+    persist,
+    history,
+    conditionalFields,
+    computedFields,
+    fieldDependencies,
+  } satisfies AllProps<
+    RouterFormOpts<FormInputData, FormOutputData, FormResponseData>
+  >);
+
+  return (
+    <FormProvider scope={rvf.scope()}>
+      <form
+        {...rvf.getFormProps({
+          onSubmit,
+          onReset,
+          ref: formRef,
+        })}
+        {...rest}
+      >
+        {rvf.renderFormIdInput()}
+        {typeof children === "function" ? children(rvf) : children}
+      </form>
+    </FormProvider>
+  );
+};
@@ -0,0 +1,55 @@
+import { FetcherWithComponents, useActionData } from "react-router";
+import {
+  ValidationErrorResponseData,
+  FORM_ID_FIELD_NAME,
+  FieldValues,
+  isValidationErrorResponse,
+} from "@rvf/core";
+
+type ErrorResponseContext<FetcherData> = {
+  fetcher?: FetcherWithComponents<FetcherData>;
+  formId?: string;
+};
+
+function useErrorResponseForForm<FetcherData>({
+  fetcher,
+  formId,
+}: ErrorResponseContext<FetcherData>): ValidationErrorResponseData | null {
+  const actionData = useActionData<unknown>();
+  const data: unknown = fetcher?.data ?? actionData;
+  if (!isValidationErrorResponse(data)) return null;
+
+  // Forms and responses without an id match each other
+  if ((formId ?? null) === (data.formId ?? null)) return data;
+  return null;
+}
+
+export type ServerValidationErrorOpts<DefaultValues, FetcherData = unknown> = {
+  formId?: string;
+  fetcher?: FetcherWithComponents<FetcherData>;
+  defaultValues: DefaultValues;
+};
+
+export const useServerValidationErrors = <
+  DefaultValues extends FieldValues,
+  FetcherData = unknown,
+>(
+  opts: ServerValidationErrorOpts<DefaultValues, FetcherData>,
+) => {
+  const { defaultValues } = opts;
+  const formId = "formId" in opts ? opts.formId : undefined;
+  const fetcher = "fetcher" in opts ? opts.fetcher : undefined;
+
+  const errorsFromServer = useErrorResponseForForm({
+    fetcher,
+    formId,
+  });
+  const errorDefaultValues = errorsFromServer?.repopulateFields;
+
+  return {
+    serverValidationErrors: errorsFromServer?.fieldErrors,
+    id: formId,
+    fetcher,
+    defaultValues: (errorDefaultValues ?? defaultValues) as DefaultValues,
+  };
+};
@@ -0,0 +1,73 @@
+export {
+  type FieldErrors,
+  type AllFieldErrors,
+  type ValidatorFieldErrors,
+  type FieldWarnings,
+  type FieldValidator,
+  type Validator,
+  type Valid,
+  type Invalid,
+  type ValidationResult,
+  type ValidationBehavior,
+  type ValidationBehaviorConfig,
+  type ValidateOptions,
+  type ValidatorData,
+  type ValidationErrorResponseData,
+  type ValidatorError,
+  type CreateValidatorArg,
+  type FieldValues,
+  type SubmitStatus,
+  type FormScope,
+  FieldArray,
+  Isolate,
+  type FieldArrayPropsWithName,
+  type FieldArrayPropsWithScope,
+  Field,
+  type FieldPropsWithName,
+  type FieldPropsWithScope,
+  type FormApi,
+  type FormFields,
+  useField,
+  type FieldApi,
+  type UseFieldOpts,
+  useFieldArray,
+  type FieldArrayApi,
+  type UseFieldArrayOpts,
+  FormProvider,
+  type FormProviderProps,
+  useFormContext,
+  useFormScopeOrContext,
+  isValidationErrorResponse,
+  useFormScope,
+  useNativeValidity,
+  type SingleFileInputValue,
+  type MultiFileInputValue,
+  type NumberInputValue,
+  type NativeValueByType,
+  type ValueOfInputType,
+  type GetControlPropsParam,
+  type GetControlPropsResult,
+  type GetHiddenInputPropsParam,
+  type GetHiddenInputPropsResult,
+  type GetInputProps,
+  type GetInputPropsParam,
+  type MinimalInputProps,
+  type ScopedValues,
+  type FieldValue,
+  type BeforeSubmitApi,
+  type PersistOptions,
+  type DraftStorage,
+  type DraftSerializer,
+  type FormDraft,
+  type HistoryOptions,
+  type DeepPartial,
+  defaultDraftSerializer,
+  useControlField,
+  useUpdateControlledField,
+  useIsValid,
+  useIsSubmitting,
+  getOriginalObject,
+} from "@rvf/react";
+export { useForm, type RouterFormOpts } from "./useForm";
+export { ValidatedForm, type ValidatedFormProps } from "./ValidatedForm";
+export { validationError } from "./server";
@@ -0,0 +1,44 @@
+import { data } from "react-router";
+import {
+  AllFieldErrors,
+  FieldErrors,
+  ValidationErrorResponseData,
+  ValidatorError,
+} from "@rvf/core";
+
+/**
+ * Takes the errors from a `Validator` and returns them with a 422 status code.
+ * When you return this from your action, `ValidatedForm` on the frontend will automatically
+ * display the errors on the correct fields on the correct form.
+ *
+ * You can also provide a second argument to `validationError`
+ * to specify how to repopulate the form when JS is disabled.
+ *
+ * *NOTE*: If you're using `useForm`, you still need to pull the errors out of `useActionData` yourself.
+ * Only `ValidatedForm` will automatically do this for you.
+ *
+ * @example
+ * ```ts
+ * const result = await validator.validate(await request.formData());
+ * if (result.error) return validationError(result.error, result.submittedData);
+ * ```
+ */
+export function validationError<
+  Errors extends FieldErrors | AllFieldErrors = FieldErrors,
+>(
+  error: ValidatorError<Errors>,
+  repopulateFields?: unknown,
+  init?: ResponseInit,
+) {
+  return data<ValidationErrorResponseData<Errors>>(
+    {
+      fieldErrors: error.fieldErrors,
+      repopulateFields,
+      formId: error.formId,
+    },
+    {
+      status: 422,
+      ...init,
+    },
+  );
+}
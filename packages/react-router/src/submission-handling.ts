@@ -0,0 +1,60 @@
+import { FetcherWithComponents, SubmitOptions, useSubmit } from "react-router";
+import { AllFieldErrors, FieldErrors, GenericObject } from "@rvf/core";
+import { startTransition, useEffect, useState } from "react";
+
+const withResolvers = () => {
+  let resolve;
+  let reject;
+  const promise = new Promise((_resolve, _reject) => {
+    resolve = _resolve;
+    reject = _reject;
+  });
+  return {
+    promise,
+    resolve: resolve as never as () => void,
+    reject: reject as never as () => void,
+  };
+};
+
+export const useRouterSubmit = (
+  fetcher?: FetcherWithComponents<unknown>,
+  serverValidationErrors?: FieldErrors | AllFieldErrors,
+) => {
+  const [completedSubmit, setCompletedSubmit] = useState<ReturnType<
+    typeof withResolvers
+  > | null>(null);
+
+  // React Router updates its state in a transition,
+  // so the intermediate `submitting` state isn't guaranteed to render.
+  // Instead, we wait for the submit promise and then for the transition that includes the action data.
+  // Settling the submit again when the errors change later does nothing, since a promise only settles once.
+  useEffect(() => {
+    if (!completedSubmit) return;
+    if (serverValidationErrors) {
+      completedSubmit.reject();
+    } else {
+      completedSubmit.resolve();
+    }
+  }, [completedSubmit, serverValidationErrors]);
+
+  const submit = useSubmit();
+
+  const handleSubmit = (
+    modifiedFormData: FormData | GenericObject,
+    submitOptions?: SubmitOptions,
+  ) => {
+    const resolvers = withResolvers();
+
+    const submission = fetcher
+      ? fetcher.submit(modifiedFormData, submitOptions)
+      : submit(modifiedFormData, submitOptions);
+    submission.then(
+      () => startTransition(() => setCompletedSubmit(resolvers)),
+      resolvers.reject,
+    );
+
+    return resolvers.promise;
+  };
+
+  return handleSubmit;
+};
@@ -0,0 +1,506 @@
+import {
+  type ActionFunctionArgs,
+  type FetcherWithComponents,
+  createRoutesStub,
+  useActionData,
+  useFetcher,
+} from "react-router";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import {
+  createValidator,
+  FORM_ID_FIELD_NAME,
+  isValidationErrorResponse,
+  Validator,
+} from "@rvf/core";
+import { RouterFormOpts, useForm } from "../useForm";
+import { validationError } from "../server";
+import { ValidatedForm } from "../ValidatedForm";
+
+it("should have the correct type for handleSubmit", async () => {
+  const validator = createValidator({
+    validate: (data) => Promise.resolve({ data, error: undefined }),
+  });
+
+  const Comp = () => {
+    const form = useForm({
+      validator: validator as Validator<{ foo: string }>,
+      handleSubmit: async (data) => {
+        expectTypeOf(data).toEqualTypeOf<{ foo: string }>();
+      },
+    });
+    return (
+      <form {...form.getFormProps()}>
+        <input data-testid="foo" {...form.field("foo").getInputProps()} />
+        <button type="submit" data-testid="submit" />
+      </form>
+    );
+  };
+
+  expect(true).toBe(true);
+});
+
+it("should keep the type of the fetcher data", () => {
+  type Options = RouterFormOpts<
+    { foo: string },
+    { foo: string },
+    { message: string }
+  >;
+  expectTypeOf<Options["fetcher"]>().toEqualTypeOf<
+    FetcherWithComponents<{ message: string }> | undefined
+  >();
+});
+
+it("should return validation errors with a 422 status", () => {
+  const result = validationError(
+    { fieldErrors: { foo: "validation error" }, formId: "testing" },
+    { foo: "bar" },
+  );
+
+  expect(result.init?.status).toBe(422);
+  expect(result.data).toEqual({
+    fieldErrors: { foo: "validation error" },
+    repopulateFields: { foo: "bar" },
+    formId: "testing",
+  });
+});
+
+it("should submit data to the action in dom mode", async () => {
+  const validator = createValidator({
+    validate: (data) => Promise.resolve({ data, error: undefined }),
+  });
+
+  const action = async ({ request }: ActionFunctionArgs) => {
+    const data = await validator.validate(await request.formData());
+    if (data.error) return validationError(data.error);
+    return { message: `You said: ${data.data.foo}` };
+  };
+
+  const Stub = createRoutesStub([
+    {
+      path: "/",
+      Component: () => {
+        const result = useActionData<typeof action>();
+        const form = useForm({
+          defaultValues: { foo: "" },
+          validator,
+          method: "post",
+        });
+        return (
+          <form {...form.getFormProps()}>
+            {result && !isValidationErrorResponse(result) && (
+              <p>{result.message}</p>
+            )}
+            <input data-testid="foo" {...form.getInputProps("foo")} />
+            <button type="submit" data-testid="submit" />
+          </form>
+        );
+      },
+      action,
+    },
+  ]);
+
+  render(<Stub />);
+
+  await userEvent.type(screen.getByTestId("foo"), "bar");
+  await userEvent.click(screen.getByTestId("submit"));
+
+  expect(await screen.findByText("You said: bar")).toBeInTheDocument();
+});
+
+it("should respect the validation errors returned from the action", async () => {
+  const validator = createValidator({
+    validate: (data) => Promise.resolve({ data, error: undefined }),
+  });
+
+  const action = async () => {
+    return validationError({
+      fieldErrors: { foo: "validation error" },
+    });
+  };
+
+  const Stub = createRoutesStub([
+    {
+      path: "/",
+      Component: () => {
+        const form = useForm({
+          defaultValues: { foo: "" },
+          validator,
+          method: "post",
+        });
+        return (
+          <form {...form.getFormProps()}>
+            <input data-testid="foo" {...form.getInputProps("foo")} />
+            {form.error("foo") && (
+              <pre data-testid="foo-error">{form.error("foo")}</pre>
+            )}
+            <button type="submit" data-testid="submit" />
+          </form>
+        );
+      },
+      action,
+    },
+  ]);
+
+  render(<Stub />);
+
+  await userEvent.type(screen.getByTestId("foo"), "bar");
+  await userEvent.click(screen.getByTestId("submit"));
+
+  expect(await screen.findByTestId("foo-error")).toHaveTextContent(
+    "validation error",
+  );
+});
+
+it("should only show the validation errors on the form with a matching id", async () => {
+  const validator = createValidator({
+    validate: (data) => Promise.resolve({ data, error: undefined }),
+  });
+
+  const action = async () => {
+    return validationError({
+      fieldErrors: { foo: "validation error" },
+      formId: "second",
+    });
+  };
+
+  const TestForm = ({ id }: { id: string }) => {
+    const form = useForm({
+      defaultValues: { foo: "" },
+      validator,
+      method: "post",
+      id,
+    });
+    return (
+      <form {...form.getFormProps()}>
+        <input data-testid={`${id}-foo`} {...form.getInputProps("foo")} />
+        {form.error("foo") && (
+          <pre data-testid={`${id}-error`}>{form.error("foo")}</pre>
+        )}
+        <button type="submit" data-testid={`${id}-submit`} />
+      </form>
+    );
+  };
+
+  const Stub = createRoutesStub([
+    {
+      path: "/",
+      Component: () => {
+        const data = useActionData<typeof action>();
+        return (
+          <>
+            {!!data && <p>Done</p>}
+            <TestForm id="first" />
+            <TestForm id="second" />
+          </>
+        );
+      },
+      action,
+    },
+  ]);
+
+  render(<Stub />);
+
+  await userEvent.type(screen.getByTestId("first-foo"), "bar");
+  await userEvent.click(screen.getByTestId("first-submit"));
+
+  expect(await screen.findByText("Done")).toBeInTheDocument();
+  expect(screen.getByTestId("second-error")).toHaveTextContent(
+    "validation error",
+  );
+  expect(screen.queryByTestId("first-error")).not.toBeInTheDocument();
+});
+
+it("should not show the validation errors for a form with a different id", async () => {
+  const validator = createValidator({
+    validate: (data) => Promise.resolve({ data, error: undefined }),
+  });
+
+  const action = async ({ request }: ActionFunctionArgs) => {
+    const formData = await request.formData();
+    return validationError({
+      fieldErrors: { foo: "validation error" },
+      formId: formData.get(FORM_ID_FIELD_NAME) as string,
+    });
+  };
+
+  const renderedError = vi.fn();
+  const TestForm = ({ id }: { id: string }) => {
+    const form = useForm({
+      defaultValues: { foo: "" },
+      validator,
+      method: "post",
+      id,
+    });
+    renderedError(id, form.error("foo"));
+    return (
+      <form {...form.getFormProps()}>
+        <input data-testid={`${id}-foo`} {...form.getInputProps("foo")} />
+        {form.error("foo") && (
+          <pre data-testid={`${id}-error`}>{form.error("foo")}</pre>
+        )}
+        <button type="submit" data-testid={`${id}-submit`} />
+      </form>
+    );
+  };
+
+  const Stub = createRoutesStub([
+    {
+      path: "/",
+      Component: () => (
+        <>
+          <TestForm id="first" />
+          <TestForm id="second" />
+        </>
+      ),
+      action,
+    },
+  ]);
+
+  render(<Stub />);
+
+  await userEvent.type(screen.getByTestId("second-foo"), "bar");
+  await userEvent.click(screen.getByTestId("second-submit"));
+
+  expect(await screen.findByTestId("second-error")).toHaveTextContent(
+    "validation error",
+  );
+  expect(renderedError).not.toHaveBeenCalledWith("first", "validation error");
+});
+
+it("should automatically take care of the form id for server validation errors", async () => {
+  const validator = createValidator({
+    validate: () =>
+      Promise.resolve({
+        data: undefined,
+        error: { foo: "validation error" },
+      }),
+  });
+
+  const action = async ({ request }: ActionFunctionArgs) => {
+    const data = await validator.validate(await request.formData());
+    if (data.error) return validationError(data.error);
+    return {};
+  };
+
+  const Stub = createRoutesStub([
+    {
+      path: "/",
+      Component: () => (
+        <ValidatedForm
+          defaultValues={{ foo: "" }}
+          validator={validator}
+          method="post"
+          id="testing"
+        >
+          {(form) => (
+            <>
+              <input data-testid="foo" {...form.getInputProps("foo")} />
+              {form.error("foo") && (
+                <pre data-testid="foo-error">{form.error("foo")}</pre>
+              )}
+              <button type="submit" data-testid="submit" />
+            </>
+          )}
+        </ValidatedForm>
+      ),
+      action,
+    },
+  ]);
+
+  render(<Stub />);
+
+  await userEvent.type(screen.getByTestId("foo"), "bar");
+  await userEvent.click(screen.getByTestId("submit"));
+
+  expect(await screen.findByTestId("foo-error")).toHaveTextContent(
+    "validation error",
+  );
+});
+
+it("should be able to submit state directly", async () => {
+  const validator = createValidator({
+    validate: (data) => Promise.resolve({ data, error: undefined }),
+  });
+  const a = vi.fn();
+
+  const action = async ({ request }: ActionFunctionArgs) => {
+    const data = await validator.validate(await request.json());
+    if (data.error) return validationError(data.error);
+    a(data.data);
+    return { message: `You said: ${data.data.foo}` };
+  };
+
+  const Stub = createRoutesStub([
+    {
+      path: "/",
+      Component: () => {
+        const result = useActionData<typeof action>();
+        const form = useForm({
+          submitSource: "state",
+          defaultValues: { foo: "", bar: { baz: [123] } },
+          validator,
+          method: "post",
+          encType: "application/json",
+        });
+        return (
+          <form {...form.getFormProps()}>
+            {result && !isValidationErrorResponse(result) && (
+              <p>{result.message}</p>
+            )}
+            <input data-testid="foo" {...form.field("foo").getInputProps()} />
+            <input
+              data-testid="bar"
+              {...form.field("bar.baz[0]").getInputProps({ type: "number" })}
+            />
+            <button type="submit" data-testid="submit" />
+          </form>
+        );
+      },
+      action,
+    },
+  ]);
+
+  render(<Stub />);
+
+  await userEvent.type(screen.getByTestId("foo"), "bar");
+  await userEvent.type(screen.getByTestId("bar"), "123");
+  await userEvent.click(screen.getByTestId("submit"));
+
+  expect(await screen.findByText("You said: bar")).toBeInTheDocument();
+  expect(a).toHaveBeenCalledWith({ foo: "bar", bar: { baz: [123123] } });
+});
+
+it("should correctly handle submitting with a typed fetcher", async () => {
+  const validator = createValidator({
+    validate: (data) => Promise.resolve({ data, error: undefined }),
+  });
+
+  const action = async ({ request }: ActionFunctionArgs) => {
+    const data = await validator.validate(await request.formData());
+    if (data.error) return validationError(data.error);
+    return { message: `You said: ${data.data.foo}` };
+  };
+
+  const Stub = createRoutesStub([
+    {
+      path: "/",
+      Component: () => {
+        const fetcher = useFetcher<typeof action>();
+        const form = useForm({
+          fetcher,
+          defaultValues: { foo: "" },
+          validator,
+          method: "post",
+        });
+        return (
+          <form {...form.getFormProps()}>
+            {fetcher.data && !isValidationErrorResponse(fetcher.data) && (
+              <p>{fetcher.data.message}</p>
+            )}
+            <input data-testid="foo" {...form.field("foo").getInputProps()} />
+            <button type="submit" data-testid="submit" />
+          </form>
+        );
+      },
+      action,
+    },
+  ]);
+
+  render(<Stub />);
+
+  await userEvent.type(screen.getByTestId("foo"), "bar");
+  await userEvent.click(screen.getByTestId("submit"));
+
+  expect(await screen.findByText("You said: bar")).toBeInTheDocument();
+});
+
+it("should call onSubmitSuccess with the latest action data when the call is complete", async () => {
+  const success = vi.fn();
+  const validator = createValidator({
+    validate: (data) => Promise.resolve({ data, error: undefined }),
+  });
+
+  const action = async ({ request }: ActionFunctionArgs) => {
+    const data = await validator.validate(await request.formData());
+    if (data.error) return validationError(data.error);
+    return { message: `You said: ${data.data.foo}` };
+  };
+
+  const Stub = createRoutesStub([
+    {
+      path: "/",
+      Component: () => {
+        const result = useActionData<typeof action>();
+        const form = useForm({
+          defaultValues: { foo: "" },
+          validator,
+          method: "post",
+          onSubmitSuccess: () => {
+            success(result);
+          },
+        });
+        return (
+          <form {...form.getFormProps()}>
+            <input data-testid="foo" {...form.field("foo").getInputProps()} />
+            <button type="submit" data-testid="submit" />
+          </form>
+        );
+      },
+      action,
+    },
+  ]);
+
+  render(<Stub />);
+
+  await userEvent.type(screen.getByTestId("foo"), "bar");
+  await userEvent.click(screen.getByTestId("submit"));
+
+  await waitFor(() => expect(success).toHaveBeenCalledTimes(1));
+  expect(success).toHaveBeenCalledWith({ message: "You said: bar" });
+});
+
+it("should call onSubmitFailure if the call returns a validation error", async () => {
+  const success = vi.fn();
+  const failure = vi.fn();
+  const validator = createValidator({
+    validate: (data) => Promise.resolve({ data, error: undefined }),
+  });
+
+  const action = async () => {
+    return validationError({
+      fieldErrors: { foo: "validation error" },
+    });
+  };
+
+  const Stub = createRoutesStub([
+    {
+      path: "/",
+      Component: () => {
+        const form = useForm({
+          validator,
+          method: "post",
+          onSubmitSuccess: success,
+          onSubmitFailure: failure,
+        });
+        return (
+          <form {...form.getFormProps()}>
+            <input data-testid="foo" {...form.field("foo").getInputProps()} />
+            <pre>{form.error("foo")}</pre>
+            <button type="submit" data-testid="submit" />
+          </form>
+        );
+      },
+      action,
+    },
+  ]);
+
+  render(<Stub />);
+
+  await userEvent.type(screen.getByTestId("foo"), "bar");
+  await userEvent.click(screen.getByTestId("submit"));
+
+  expect(await screen.findByText("validation error")).toBeInTheDocument();
+  await waitFor(() => expect(failure).toHaveBeenCalled());
+  expect(success).not.toHaveBeenCalled();
+});
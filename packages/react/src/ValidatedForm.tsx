@@ -42,6 +42,14 @@ export const ValidatedForm = <
   resetAfterSubmit,
   otherFormProps,
   reloadDocument,
+  shouldUnregister,
+  persist,
+  history,
+  conditionalFields,
+  computedFields,
+  fieldDependencies,
+  formAction,
+  actionState,
   ...rest
 }: ValidatedFormProps<FormInputData, FormOutputData>) => {
   const rvf = useForm({
@@ -61,6 +69,14 @@ export const ValidatedForm = <
     resetAfterSubmit,
     otherFormProps,
     reloadDocument,
+    shouldUnregister,
+    persist,
+    history,
+    conditionalFields,
+    computedFields,
+    fieldDependencies,
+    formAction,
+    actionState,
   } satisfies AllProps<FormOpts<FormInputData, FormOutputData, void>>);
 
   return (
@@ -1,5 +1,7 @@
+import * as React from "react";
 import { useEffect, useMemo } from "react";
 import {
+  FieldErrors,
   FormScope,
   scopeFormScope,
   SubmitStatus,
@@ -9,10 +11,17 @@ import {
   getFieldTouched,
   getFieldDirty,
   getFieldError,
+  getFieldErrors,
+  getFirstErrors,
+  getFieldValidating,
+  getFieldConditions,
+  getFieldWarning,
   focusFirst,
   getAllTouched,
   getAllDirty,
   getAllErrors,
+  getDirtyValues,
+  DeepPartial,
   getFormAction,
   getFormId,
   getFormProps,
@@ -55,7 +64,8 @@ interface FormProps {
   onReset: (event: React.FormEvent<HTMLFormElement>) => void;
   ref: React.Ref<HTMLFormElement>;
   id: string;
-  action?: string;
+  // Function actions are only accepted by React's types in versions that support them
+  action?: React.ComponentProps<"form">["action"];
 }
 
 export type ManualSubmitOption = SubmitterOptions & {
@@ -68,6 +78,22 @@ export type FormState = {
   hasBeenSubmitted: boolean;
   submitStatus: SubmitStatus;
 
+  /**
+   * Whether any validation is in progress.
+   */
+  isValidating: boolean;
+  /**
+   * Whether any validation has finished since the form was last reset.
+   * Use this to tell a form that is known to be valid from one that hasn't been validated yet.
+   */
+  hasBeenValidated: boolean;
+  /**
+   * Whether the form has no errors. This doesn't change while a validation is in progress.
+   *
+   * A form that hasn't been validated yet has no errors, so it's valid too.
+   * `isValid` stays a boolean so checks like `disabled={!isValid}` keep working,
+   * and `hasBeenValidated` tells the two apart: `isValid && hasBeenValidated` means the form is known to be valid.
+   */
   isValid: boolean;
   isDirty: boolean;
   isTouched: boolean;
@@ -96,6 +122,34 @@ export interface FormApi<FormInputData> {
    */
   error: (fieldName?: ValidStringPaths<FormInputData>) => string | null;
 
+  /**
+   * Gets all the error messages for the field.
+   * Validators only return more than one message per field if they're configured to.
+   * @willRerender
+   */
+  errors: (fieldName?: ValidStringPaths<FormInputData>) => string[];
+
+  /**
+   * Gets the current warning for the field if any.
+   * Unlike errors, warnings don't prevent the form from being submitted.
+   * @willRerender
+   */
+  warning: (fieldName?: ValidStringPaths<FormInputData>) => string | null;
+
+  /**
+   * Gets whether a validation that includes the field is in progress.
+   * If no field is specified, gets whether any validation is in progress.
+   * @willRerender
+   */
+  validating: (fieldName?: ValidStringPaths<FormInputData>) => boolean;
+
+  /**
+   * Gets whether the field is active, based on the `conditionalFields` option of the form.
+   * Fields that aren't in `conditionalFields` are always active.
+   * @willRerender
+   */
+  isActive: (fieldName?: ValidStringPaths<FormInputData>) => boolean;
+
   /**
    * Gets the current value of the entire form.
    * If using a scoped form, this will be the value of the scoped form.
@@ -146,6 +200,21 @@ export interface FormApi<FormInputData> {
      */
     error: (fieldName?: ValidStringPaths<FormInputData>) => string | null;
 
+    /**
+     * Gets all the error messages for the field.
+     */
+    errors: (fieldName?: ValidStringPaths<FormInputData>) => string[];
+
+    /**
+     * Gets the current warning for the field if any.
+     */
+    warning: (fieldName?: ValidStringPaths<FormInputData>) => string | null;
+
+    /**
+     * Gets whether a validation that includes the field is in progress.
+     */
+    validating: (fieldName?: ValidStringPaths<FormInputData>) => boolean;
+
     /**
      * Gets the current value of the entire form.
      * If using a scoped form, this will be the value of the scoped form.
@@ -182,6 +251,42 @@ export interface FormApi<FormInputData> {
 
   formState: FormState;
 
+  /**
+   * Helpers for working with the draft saved by the `persist` option.
+   * If `persist` isn't set, these do nothing.
+   */
+  persistence: {
+    /**
+     * Removes the saved draft. This doesn't change the current values of the form.
+     */
+    clear: () => void;
+    /**
+     * Gets whether there is currently a saved draft.
+     */
+    hasDraft: () => boolean;
+  };
+
+  /**
+   * Undo and redo changes to the form.
+   * If the `history` option isn't set, there are no changes to undo.
+   */
+  history: {
+    undo: () => void;
+    redo: () => void;
+    /**
+     * Removes all recorded changes.
+     */
+    clear: () => void;
+    /**
+     * @willRerender
+     */
+    canUndo: boolean;
+    /**
+     * @willRerender
+     */
+    canRedo: boolean;
+  };
+
   /**
    * Various subscription helpers. These should be used in an effect and do not cause rerenders.
    */
@@ -262,7 +367,15 @@ export interface FormApi<FormInputData> {
    * Manually validates the form.
    * You usually don't need to do this.
    */
-  validate: () => Promise<Record<string, string>>;
+  validate: () => Promise<FieldErrors>;
+
+  /**
+   * Gets only the values that are different from the default values.
+   * Objects only include the keys that changed, but changed arrays are always included in full.
+   * This is useful for sending a minimal payload to a `PATCH` endpoint.
+   * This doesn't cause rerenders and always returns the latest values.
+   */
+  getDirtyValues: () => DeepPartial<FormInputData>;
 
   /**
    * Resets the form to its initial state.
@@ -458,6 +571,10 @@ export type BaseReactFormParams<FormInputData> = {
 const isNonNullish = <T,>(value: T | null | undefined): value is T =>
   value != null;
 
+// Forms accept action functions from React 19, which is also when `useActionState` was added.
+// Older versions warn about them and leave the `action` prop out.
+const supportsFunctionActions = "useActionState" in React;
+
 export const makeBaseFormApi = <FormInputData,>({
   trackedState,
   form,
@@ -467,6 +584,13 @@ export const makeBaseFormApi = <FormInputData,>({
     pathArrayToString([prefix, fieldName].filter(isNonNullish));
   const transientState = () => form.__store__.store.getState();
 
+  const getActionProp = (): FormProps["action"] => {
+    const { formAction } = form.__store__.mutableImplStore;
+    // React's types only accept the function in versions that support it
+    if (supportsFunctionActions && formAction) return formAction as never;
+    return getFormAction(trackedState);
+  };
+
   type WithOptionalField<T> = [string, T] | [T];
   const optionalField = <T,>(args: [string, T] | [T]): [string, T] =>
     args.length === 1 ? [prefix, args[0]] : [f(args[0]), args[1]];
@@ -498,6 +622,12 @@ export const makeBaseFormApi = <FormInputData,>({
     get isTouched() {
       return Object.values(state().touchedFields).some(Boolean);
     },
+    get isValidating() {
+      return getFieldValidating(state(), "");
+    },
+    get hasBeenValidated() {
+      return state().hasBeenValidated;
+    },
     get isValid() {
       return Object.values(state().validationErrors).every((error) => !error);
     },
@@ -526,6 +656,15 @@ export const makeBaseFormApi = <FormInputData,>({
     touched: (fieldName) => getFieldTouched(trackedState, f(fieldName)),
     dirty: (fieldName) => getFieldDirty(trackedState, f(fieldName)),
     error: (fieldName) => getFieldError(trackedState, f(fieldName)),
+    errors: (fieldName) => getFieldErrors(trackedState, f(fieldName)),
+    warning: (fieldName) => getFieldWarning(trackedState, f(fieldName)),
+    validating: (fieldName) => getFieldValidating(trackedState, f(fieldName)),
+    isActive: (fieldName) =>
+      // Only the values read by the conditions that apply to the field cause rerenders
+      getFieldConditions(
+        form.__store__.mutableImplStore.conditionalFields,
+        f(fieldName),
+      ).every(({ when }) => when(trackedState.values)),
 
     transient: {
       value: (fieldName?: string) =>
@@ -535,6 +674,10 @@ export const makeBaseFormApi = <FormInputData,>({
       touched: (fieldName) => getFieldTouched(transientState(), f(fieldName)),
       dirty: (fieldName) => getFieldDirty(transientState(), f(fieldName)),
       error: (fieldName) => getFieldError(transientState(), f(fieldName)),
+      errors: (fieldName) => getFieldErrors(transientState(), f(fieldName)),
+      warning: (fieldName) => getFieldWarning(transientState(), f(fieldName)),
+      validating: (fieldName) =>
+        getFieldValidating(transientState(), f(fieldName)),
       formState: makeFormState(transientState),
     },
 
@@ -549,6 +692,23 @@ export const makeBaseFormApi = <FormInputData,>({
 
     formState: makeFormState(() => trackedState),
 
+    persistence: {
+      clear: () => form.__store__.persistence?.clear(),
+      hasDraft: () => form.__store__.persistence?.hasDraft() ?? false,
+    },
+
+    history: {
+      undo: () => form.__store__.history?.undo(),
+      redo: () => form.__store__.history?.redo(),
+      clear: () => form.__store__.history?.clear(),
+      get canUndo() {
+        return trackedState.canUndo;
+      },
+      get canRedo() {
+        return trackedState.canRedo;
+      },
+    },
+
     subscribe: {
       value: (...args: unknown[]) => {
         type BothParams = [string | undefined, (value: unknown) => void];
@@ -590,7 +750,9 @@ export const makeBaseFormApi = <FormInputData,>({
       form.__store__.store
         .getState()
         .validate()
-        .then((res) => res.errors ?? {}),
+        .then((res) => getFirstErrors(res.errors ?? {})),
+    getDirtyValues: () =>
+      (getDirtyValues(transientState(), f()) ?? {}) as DeepPartial<any>,
     resetForm: (...args) => {
       // TODO: This ends up calling the store's `reset` method twice.
       // That gets the job done, but it's not ideal.
@@ -612,6 +774,7 @@ export const makeBaseFormApi = <FormInputData,>({
     getFormProps: (formProps = {}) => ({
       ...formProps,
       ...getFormProps(trackedState),
+      action: getActionProp(),
       onSubmit: (event) => {
         formProps.onSubmit?.(event);
         if (event.defaultPrevented) return;
@@ -1,23 +1,41 @@
-import { RefCallback, useMemo } from "react";
+import { RefCallback, useEffect, useMemo, useRef } from "react";
 import {
   FieldSerializer,
+  FieldValidator,
   FormStoreValue,
   FormScope,
   ValidationBehaviorConfig,
   getFieldDefaultValue,
   getFieldDirty,
   getFieldError,
+  getFieldErrors,
   getFieldTouched,
+  getFieldValidating,
+  getFieldWarning,
   getFieldValue,
   getFormId,
+  isComputedField,
 } from "@rvf/core";
 import { GetInputProps, createGetInputProps } from "./inputs/getInputProps";
 import { useFormScopeOrContextInternal } from "./context";
-import { createControlledRef, createTransientRef } from "./refs";
+import {
+  createControlledRef,
+  createFieldValidatorRef,
+  createTransientRef,
+} from "./refs";
 
 export type GetControlPropsParam<FieldValue> = {
   onChange?: (value: FieldValue) => void;
   onBlur?: () => void;
+  /**
+   * A validator that runs only for this field, alongside the form's `validator`.
+   */
+  validate?: FieldValidator<FieldValue>;
+  /**
+   * Removes the field from the form when this component unmounts.
+   * Overrides the `shouldUnregister` option of the form.
+   */
+  shouldUnregister?: boolean;
 };
 
 export type GetControlPropsResult<FieldValue> = {
@@ -91,8 +109,25 @@ export interface FieldApi<FormInputData> {
   setDirty(value: boolean): void;
 
   error(): string | null;
+
+  /**
+   * Gets all the error messages for the field.
+   * Validators only return more than one message per field if they're configured to.
+   */
+  errors(): string[];
   clearError(): void;
 
+  /**
+   * Gets the current warning for the field if any.
+   * Unlike errors, warnings don't prevent the form from being submitted.
+   */
+  warning(): string | null;
+
+  /**
+   * Whether a validation that includes this field is in progress.
+   */
+  validating(): boolean;
+
   reset(): void;
   validate(): void;
 }
@@ -113,6 +148,10 @@ export const makeFieldImpl = <FormInputData,>({
     trackedState.onFieldChange(fieldName, value, validationBehavior);
 
   const onBlur = () => trackedState.onFieldBlur(fieldName, validationBehavior);
+  const isComputed = isComputedField(
+    form.__store__.mutableImplStore.computedFields,
+    fieldName,
+  );
 
   const createSerializerRef = (
     serialize: FieldSerializer,
@@ -132,27 +171,48 @@ export const makeFieldImpl = <FormInputData,>({
     getInputProps: createGetInputProps({
       onChange,
       onBlur,
-      defaultValue: getFieldDefaultValue(trackedState, fieldName),
+      // Computed fields can change before the input mounts
+      defaultValue: isComputed
+        ? getFieldValue(trackedState, fieldName)
+        : getFieldDefaultValue(trackedState, fieldName),
+      readOnly: isComputed,
       name: fieldName,
-      createRef: () => createTransientRef(fieldName, form),
+      createRef: (shouldUnregister) =>
+        createTransientRef(fieldName, form, shouldUnregister),
+      createValidatorRef: (validate) =>
+        createFieldValidatorRef(fieldName, form, validate),
       formId: getFormId(trackedState),
       getCurrentValue: () =>
         getFieldValue(form.__store__.store.getState(), fieldName),
     }),
 
-    getControlProps: (props = {}) => ({
-      name: fieldName,
-      onChange: (value) => {
-        props.onChange?.(value);
-        onChange(value);
-      },
-      onBlur: () => {
-        props.onBlur?.();
-        onBlur();
-      },
-      value: getFieldValue(trackedState, fieldName) as never,
-      ref: createControlledRef(fieldName, form),
-    }),
+    getControlProps: (props = {}) => {
+      const controlledRef = createControlledRef(
+        fieldName,
+        form,
+        props.shouldUnregister,
+      );
+      const validatorRef = props.validate
+        ? createFieldValidatorRef(fieldName, form, props.validate)
+        : undefined;
+
+      return {
+        name: fieldName,
+        onChange: (value) => {
+          props.onChange?.(value);
+          onChange(value);
+        },
+        onBlur: () => {
+          props.onBlur?.();
+          onBlur();
+        },
+        value: getFieldValue(trackedState, fieldName) as never,
+        ref: (el) => {
+          controlledRef(el);
+          validatorRef?.(el);
+        },
+      };
+    },
 
     getHiddenInputProps: ({
       serialize = (val: unknown) => val as string,
@@ -183,7 +243,10 @@ export const makeFieldImpl = <FormInputData,>({
     dirty: () => getFieldDirty(trackedState, fieldName),
     setDirty: (value) => trackedState.setDirty(fieldName, value),
     error: () => getFieldError(trackedState, fieldName),
+    errors: () => getFieldErrors(trackedState, fieldName),
     clearError: () => trackedState.setError(fieldName, null),
+    warning: () => getFieldWarning(trackedState, fieldName),
+    validating: () => getFieldValidating(trackedState, fieldName),
     reset: () => trackedState.resetField(fieldName),
     validate: () => {
       void trackedState.validate();
@@ -191,28 +254,52 @@ export const makeFieldImpl = <FormInputData,>({
   };
 };
 
-export type UseFieldOpts = {
+export type UseFieldOpts<FieldValue = unknown> = {
   validationBehavior?: ValidationBehaviorConfig;
+
+  /**
+   * A validator that runs only for this field, alongside the form's `validator`.
+   * Errors returned from this validator are merged with the errors from the form's `validator`.
+   */
+  validate?: FieldValidator<FieldValue>;
 };
 
 type ScopeData<Scope> = Scope extends FormScope<infer Data> ? Data : never;
 
 export function useField<Scope extends FormScope<any>>(
   form: Scope,
-  { validationBehavior }?: UseFieldOpts,
+  { validationBehavior }?: UseFieldOpts<ScopeData<Scope>>,
 ): FieldApi<ScopeData<Scope>>;
 export function useField<FormInputData = unknown>(
   name: string,
-  opts?: UseFieldOpts,
+  opts?: UseFieldOpts<FormInputData>,
 ): FieldApi<FormInputData>;
 export function useField<FormInputData>(
   formOrName: FormScope<FormInputData> | string,
-  opts?: UseFieldOpts,
+  opts?: UseFieldOpts<FormInputData>,
 ): FieldApi<FormInputData> {
   const scope = useFormScopeOrContextInternal(formOrName);
   const prefix = scope.__field_prefix__;
   const trackedState = scope.__store__.useStoreState();
 
+  const validateRef = useRef(opts?.validate);
+  useEffect(() => {
+    validateRef.current = opts?.validate;
+  });
+
+  const hasValidator = !!opts?.validate;
+  useEffect(() => {
+    if (!hasValidator) return;
+    const sym = Symbol(prefix);
+    scope.__store__.fieldValidatorRefs.setRef(
+      prefix,
+      (value, formValues, options) =>
+        validateRef.current?.(value as FormInputData, formValues, options),
+      sym,
+    );
+    return () => scope.__store__.fieldValidatorRefs.removeRef(prefix, sym);
+  }, [hasValidator, prefix, scope.__store__]);
+
   // Accessing _something_ is required. Otherwise, it will rerender on every state update.
   // I saw this done in one of the dia-shi's codebases, too, but I can't find it now.
   trackedState.setValue;
@@ -0,0 +1,115 @@
+import * as React from "react";
+import { useEffect, useState } from "react";
+import {
+  FORM_ID_FIELD_NAME,
+  FieldValues,
+  SubmitterOptions,
+  ValidationErrorResponseData,
+  isValidationErrorResponse,
+} from "@rvf/core";
+
+/**
+ * A React action, like the `dispatch` function returned from `useActionState`.
+ */
+export type FormAction = (formData: FormData) => void | Promise<void>;
+
+const withResolvers = <T,>() => {
+  let resolve;
+  let reject;
+  const promise = new Promise<T>((_resolve, _reject) => {
+    resolve = _resolve;
+    reject = _reject;
+  });
+  return {
+    promise,
+    resolve: resolve as never as (value: T) => void,
+    reject: reject as never as (error: unknown) => void,
+  };
+};
+
+// `useTransition` was added in React 18.
+// React 17 doesn't have actions either, so the action is called directly.
+const supportsTransitions = "useTransition" in React;
+const useTransition: () => [boolean, (callback: () => void) => void] =
+  supportsTransitions
+    ? React.useTransition
+    : () => [false, (callback) => callback()];
+
+const getErrorResponseForForm = (
+  actionState: unknown,
+  formId?: string,
+): ValidationErrorResponseData | null => {
+  if (!isValidationErrorResponse(actionState)) return null;
+  if ((formId ?? null) === (actionState.formId ?? null)) return actionState;
+  return null;
+};
+
+export type FormActionOpts<FormInputData> = {
+  formAction?: FormAction;
+  actionState?: unknown;
+  formId?: string;
+  defaultValues?: FormInputData;
+};
+
+/**
+ * Hands valid submissions to a React action and reads validation errors from the action's state.
+ * The returned `handleSubmit` resolves with the action state once the action has finished,
+ * or rejects if the action state contains validation errors for this form.
+ */
+export const useFormAction = <FormInputData extends FieldValues>({
+  formAction,
+  actionState,
+  formId,
+  defaultValues,
+}: FormActionOpts<FormInputData>) => {
+  const [, startTransition] = useTransition();
+  const errorResponse = getErrorResponseForForm(actionState, formId);
+
+  // Set once the action has finished, so the submission is settled
+  // with the action state from the render that includes the action's updates.
+  const [finishedSubmission, setFinishedSubmission] = useState<ReturnType<
+    typeof withResolvers<unknown>
+  > | null>(null);
+  useEffect(() => {
+    if (!finishedSubmission) return;
+    if (errorResponse) finishedSubmission.reject(errorResponse);
+    else finishedSubmission.resolve(actionState);
+  }, [finishedSubmission, errorResponse, actionState]);
+
+  const handleSubmit = (
+    _data: unknown,
+    formData: FormData | SubmitterOptions,
+  ) => {
+    if (!formAction) return;
+    if (!(formData instanceof FormData))
+      throw new Error(
+        "`formAction` can only be used with the `dom` submit source",
+      );
+
+    if (formId) formData.set(FORM_ID_FIELD_NAME, formId);
+    if (!supportsTransitions) return Promise.resolve(formAction(formData));
+
+    const submission = withResolvers<unknown>();
+
+    // In React 19, returning the promise lets the transition stay pending until the action finishes.
+    startTransition(async () => {
+      try {
+        await formAction(formData);
+      } catch (err) {
+        submission.reject(err);
+        return;
+      }
+
+      // Updates after an `await` are only part of a transition if they're wrapped again
+      startTransition(() => setFinishedSubmission(submission));
+    });
+    return submission.promise;
+  };
+
+  return {
+    handleSubmit: formAction ? handleSubmit : undefined,
+    serverValidationErrors: errorResponse?.fieldErrors,
+    defaultValues: (errorResponse?.repopulateFields ??
+      defaultValues) as FormInputData,
+  };
+};
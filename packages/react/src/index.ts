@@ -1,11 +1,16 @@
 export {
   type FieldErrors,
+  type AllFieldErrors,
+  type ValidatorFieldErrors,
+  type FieldWarnings,
+  type FieldValidator,
   type Validator,
   type Valid,
   type Invalid,
   type ValidationResult,
   type ValidationBehavior,
   type ValidationBehaviorConfig,
+  type ValidateOptions,
   type FieldArrayValidationBehavior,
   type FieldArrayValidationBehaviorConfig,
   type ValidatorData,
@@ -27,9 +32,17 @@ export {
   type FieldValue,
   getOriginalObject,
   type BeforeSubmitApi,
+  type PersistOptions,
+  type DraftStorage,
+  type DraftSerializer,
+  type FormDraft,
+  type HistoryOptions,
+  type DeepPartial,
+  defaultDraftSerializer,
 } from "@rvf/core";
 export { type FormApi, type FormFields } from "./base";
 export { useForm, FormOpts } from "./useForm";
+export { type FormAction } from "./formAction";
 export { ValidatedForm, type ValidatedFormProps } from "./ValidatedForm";
 export {
   GetInputProps,
@@ -63,6 +76,12 @@ export {
   useFormScopeOrContext,
 } from "./context";
 export { useFormScope } from "./useFormScope";
+export {
+  useFormWizard,
+  type FormWizardApi,
+  type FormWizardStep,
+  type UseFormWizardOpts,
+} from "./wizard";
 export { useNativeValidity } from "./useNativeValidity";
 export { Isolate } from "./isolation";
 export * from "./compatability/misc";
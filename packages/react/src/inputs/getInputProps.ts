@@ -1,5 +1,6 @@
-import { FormEvent, LegacyRef, Ref } from "react";
+import { FormEvent, LegacyRef, Ref, RefCallback } from "react";
 import {
+  FieldValidator,
   GenericObject,
   getCheckboxChecked,
   getNextNativeValue,
@@ -20,8 +21,10 @@ export type CreateGetInputPropsOptions = {
   onChange: (value: unknown) => void;
   onBlur: () => void;
   defaultValue?: any;
+  readOnly?: boolean;
   name: string;
-  createRef: () => Ref<HTMLElement>;
+  createRef: (shouldUnregister?: boolean) => Ref<HTMLElement>;
+  createValidatorRef: (validate: FieldValidator) => RefCallback<HTMLElement>;
   formId?: string;
   getCurrentValue: () => unknown;
 };
@@ -34,6 +37,7 @@ export type MinimalInputProps = {
   onBlur?: ((...args: any[]) => void) | undefined;
   defaultValue?: any;
   defaultChecked?: boolean | undefined;
+  readOnly?: boolean | undefined;
   name?: string | undefined;
   type?: string | undefined;
   ref?: LegacyRef<any>;
@@ -47,7 +51,17 @@ export type GetInputPropsParam<T extends MinimalInputProps> = Omit<
   T,
   HandledProps | Callbacks
 > &
-  Partial<Pick<T, Callbacks>>;
+  Partial<Pick<T, Callbacks>> & {
+    /**
+     * A validator that runs only for this field, alongside the form's `validator`.
+     */
+    validate?: FieldValidator;
+    /**
+     * Removes the field from the form when this input unmounts.
+     * Overrides the `shouldUnregister` option of the form.
+     */
+    shouldUnregister?: boolean;
+  };
 
 export type GetInputProps = <T extends MinimalInputProps>(
   props?: GetInputPropsParam<T>,
@@ -57,13 +71,18 @@ export const createGetInputProps = ({
   onChange,
   onBlur,
   defaultValue,
+  readOnly,
   name,
   createRef,
+  createValidatorRef,
   formId,
   getCurrentValue,
 }: CreateGetInputPropsOptions): GetInputProps => {
-  return <T extends MinimalInputProps>(props = {} as any) => {
-    const rvfRef = createRef();
+  return <T extends MinimalInputProps>(
+    { validate, shouldUnregister, ...props } = {} as any,
+  ) => {
+    const rvfRef = createRef(shouldUnregister);
+    const validatorRef = validate ? createValidatorRef(validate) : undefined;
     const inputProps: MinimalInputProps = {
       ...props,
       form: formId,
@@ -98,6 +117,8 @@ export const createGetInputProps = ({
 
         if (typeof rvfRef === "function") rvfRef(element);
         else if (rvfRef) (rvfRef as any).current = element;
+
+        validatorRef?.(element);
       },
     };
 
@@ -110,6 +131,8 @@ export const createGetInputProps = ({
       inputProps.defaultValue = defaultValue;
     }
 
+    if (readOnly) inputProps.readOnly = true;
+
     if (props.type === "file" && !!defaultValue) {
       console.warn("File inputs cannot have a default value.");
     }
@@ -1,4 +1,5 @@
 import {
+  FieldValidator,
   FormScope,
   getFieldValue,
   isFormControl,
@@ -6,19 +7,35 @@ import {
 } from "@rvf/core";
 import { RefCallback } from "react";
 
+const maybeUnregisterField = (
+  fieldName: string,
+  form: FormScope<any>,
+  shouldUnregister?: boolean,
+) => {
+  const { store } = form.__store__;
+  if (!(shouldUnregister ?? store.getState().flags.shouldUnregister)) return;
+
+  // Refs are recreated on every render, so the field may be about to get a new ref.
+  // Waiting until after the render lets us tell if it was actually unmounted.
+  queueMicrotask(() => store.getState().unregisterField(fieldName));
+};
+
 // This is a little hacky, but we can simplify when React adds ref cleanup functions.
 export const createTransientRef = (
   fieldName: string,
   form: FormScope<any>,
+  shouldUnregister?: boolean,
 ): RefCallback<HTMLElement> => {
   const sym = Symbol(fieldName);
   return (el) => {
     if (el == null) {
       form.__store__.transientFieldRefs.removeRef(fieldName, sym);
+      maybeUnregisterField(fieldName, form, shouldUnregister);
       return;
     }
 
     form.__store__.transientFieldRefs.setRef(fieldName, el, sym);
+    form.__store__.store.getState().registerField(fieldName);
     if (isFormControl(el)) {
       const value = getFieldValue(form.__store__.store.getState(), fieldName);
       if (value != null) setFormControlValue(el, value);
@@ -29,14 +46,33 @@ export const createTransientRef = (
 export const createControlledRef = (
   fieldName: string,
   form: FormScope<any>,
+  shouldUnregister?: boolean,
 ): RefCallback<HTMLElement> => {
   const sym = Symbol(fieldName);
   return (el) => {
     if (el == null) {
       form.__store__.controlledFieldRefs.removeRef(fieldName, sym);
+      maybeUnregisterField(fieldName, form, shouldUnregister);
       return;
     }
 
     form.__store__.controlledFieldRefs.setRef(fieldName, el, sym);
+    form.__store__.store.getState().registerField(fieldName);
+  };
+};
+
+export const createFieldValidatorRef = (
+  fieldName: string,
+  form: FormScope<any>,
+  validate: FieldValidator<any>,
+): RefCallback<HTMLElement> => {
+  const sym = Symbol(fieldName);
+  return (el) => {
+    if (el == null) {
+      form.__store__.fieldValidatorRefs.removeRef(fieldName, sym);
+      return;
+    }
+
+    form.__store__.fieldValidatorRefs.setRef(fieldName, validate, sym);
   };
 };
@@ -0,0 +1,192 @@
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { useEffect } from "react";
+import { createValidator } from "@rvf/core";
+import { useForm } from "../useForm";
+import { FormApi } from "../base";
+
+type Invoice = {
+  lines: { qty: number; price: number }[];
+  total: number;
+};
+
+const validator = createValidator<Invoice>({
+  validate: async (data) => ({ data: data as Invoice, error: undefined }),
+});
+
+const TestComp = ({
+  submitSource = "state",
+  includeInSubmission,
+  onSubmit,
+  onValueChange,
+  formRef,
+}: {
+  submitSource?: "state" | "dom";
+  includeInSubmission?: boolean;
+  onSubmit: (data: unknown, formData?: FormData) => void;
+  onValueChange?: (values: Invoice) => void;
+  formRef?: { current: FormApi<Invoice> | null };
+}) => {
+  const form = useForm({
+    defaultValues: {
+      lines: [
+        { qty: 1, price: 10 },
+        { qty: 2, price: 5 },
+      ],
+      total: 0,
+    } as Invoice,
+    validator,
+    submitSource: submitSource as "state",
+    handleSubmit: onSubmit as never,
+    computedFields: {
+      total: {
+        compute: (values) =>
+          values.lines.reduce((sum, line) => sum + line.qty * line.price, 0),
+        includeInSubmission,
+      },
+    },
+  });
+  if (formRef) formRef.current = form;
+
+  useEffect(() => {
+    if (onValueChange) return form.subscribe.value(onValueChange);
+  }, [form, onValueChange]);
+
+  return (
+    <form {...form.getFormProps()}>
+      <input
+        data-testid="qty"
+        {...form.getInputProps("lines[0].qty", { type: "number" })}
+      />
+      <input
+        data-testid="price"
+        {...form.getInputProps("lines[0].price", { type: "number" })}
+      />
+      <input {...form.getHiddenInputProps("lines[1].qty")} />
+      <input {...form.getHiddenInputProps("lines[1].price")} />
+      <input data-testid="total" {...form.getInputProps("total")} />
+      <pre data-testid="value">{form.value("total")}</pre>
+      <pre data-testid="dirty">{String(form.dirty("total"))}</pre>
+      <pre data-testid="touched">{String(form.touched("total"))}</pre>
+      <button type="submit" data-testid="submit" />
+    </form>
+  );
+};
+
+it("should compute the value from the default values", async () => {
+  render(<TestComp onSubmit={vi.fn()} />);
+  expect(screen.getByTestId("value")).toHaveTextContent("20");
+  expect(screen.getByTestId("total")).toHaveValue("20");
+  expect(screen.getByTestId("total")).toHaveAttribute("readonly");
+});
+
+it("should update in the same update as the values it depends on", async () => {
+  const onValueChange = vi.fn();
+  render(<TestComp onSubmit={vi.fn()} onValueChange={onValueChange} />);
+
+  await userEvent.clear(screen.getByTestId("qty"));
+  await userEvent.type(screen.getByTestId("qty"), "3");
+  expect(screen.getByTestId("value")).toHaveTextContent("40");
+  expect(screen.getByTestId("total")).toHaveValue("40");
+
+  expect(onValueChange).toHaveBeenCalled();
+  onValueChange.mock.calls.forEach(([values]: [Invoice]) => {
+    expect(values.total).toBe(
+      values.lines.reduce((sum, line) => sum + line.qty * line.price, 0),
+    );
+  });
+});
+
+it("should not mark the field as dirty or touched", async () => {
+  render(<TestComp onSubmit={vi.fn()} />);
+
+  await userEvent.type(screen.getByTestId("price"), "0");
+  await userEvent.tab();
+  expect(screen.getByTestId("value")).toHaveTextContent("110");
+  expect(screen.getByTestId("dirty")).toHaveTextContent("false");
+  expect(screen.getByTestId("touched")).toHaveTextContent("false");
+});
+
+it("should ignore changes made to the field directly", async () => {
+  const formRef = { current: null as FormApi<Invoice> | null };
+  render(<TestComp onSubmit={vi.fn()} formRef={formRef} />);
+
+  await userEvent.type(screen.getByTestId("total"), "5");
+  formRef.current!.setValue("total", 99);
+  await waitFor(() => {
+    expect(screen.getByTestId("value")).toHaveTextContent("20");
+  });
+  expect(screen.getByTestId("total")).toHaveValue("20");
+});
+
+it("should leave the field out of submission by default", async () => {
+  const submit = vi.fn();
+  render(<TestComp onSubmit={submit} />);
+
+  await userEvent.click(screen.getByTestId("submit"));
+  await waitFor(() => expect(submit).toHaveBeenCalledTimes(1));
+  expect(submit.mock.calls[0][0]).not.toHaveProperty("total");
+});
+
+it("should include the field in submission when configured", async () => {
+  const submit = vi.fn();
+  render(<TestComp includeInSubmission onSubmit={submit} />);
+
+  await userEvent.click(screen.getByTestId("submit"));
+  await waitFor(() => expect(submit).toHaveBeenCalledTimes(1));
+  expect(submit.mock.calls[0][0]).toHaveProperty("total", 20);
+});
+
+it("should leave the field out of the form data by default", async () => {
+  const submit = vi.fn();
+  render(<TestComp submitSource="dom" onSubmit={submit} />);
+
+  await userEvent.clear(screen.getByTestId("qty"));
+  await userEvent.type(screen.getByTestId("qty"), "2");
+  expect(screen.getByTestId("total")).toHaveValue("30");
+
+  await userEvent.click(screen.getByTestId("submit"));
+  await waitFor(() => expect(submit).toHaveBeenCalledTimes(1));
+  const [data, formData] = submit.mock.calls[0];
+  expect(data).not.toHaveProperty("total");
+  expect(formData.has("total")).toBe(false);
+});
+
+it("should let computed fields depend on earlier computed fields", async () => {
+  const TaxComp = ({ taxRate }: { taxRate: number }) => {
+    const form = useForm({
+      defaultValues: { price: 10, subtotal: 0, total: 0 },
+      validator: createValidator({
+        validate: async (data) => ({ data, error: undefined }),
+      }),
+      submitSource: "state",
+      handleSubmit: vi.fn(),
+      computedFields: {
+        subtotal: { compute: (values) => values.price * 2 },
+        total: { compute: (values) => values.subtotal * (1 + taxRate) },
+      },
+    });
+
+    return (
+      <form {...form.getFormProps()}>
+        <input
+          data-testid="price"
+          {...form.getInputProps("price", { type: "number" })}
+        />
+        <pre data-testid="total">{form.value("total")}</pre>
+      </form>
+    );
+  };
+
+  const { rerender } = render(<TaxComp taxRate={0.5} />);
+  expect(screen.getByTestId("total")).toHaveTextContent("30");
+
+  await userEvent.clear(screen.getByTestId("price"));
+  await userEvent.type(screen.getByTestId("price"), "20");
+  expect(screen.getByTestId("total")).toHaveTextContent("60");
+
+  // Inline options are picked up without the form being recreated
+  rerender(<TaxComp taxRate={1} />);
+  await userEvent.type(screen.getByTestId("price"), "0");
+  expect(screen.getByTestId("total")).toHaveTextContent("800");
+});
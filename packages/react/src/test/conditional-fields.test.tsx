@@ -0,0 +1,217 @@
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { createValidator } from "@rvf/core";
+import { useForm } from "../useForm";
+import { useField } from "../field";
+import { successValidator } from "./util/successValidator";
+import { RenderCounter } from "./util/RenderCounter";
+
+type Account = {
+  accountType: string;
+  companyName: string;
+};
+
+const TestComp = ({
+  submitSource = "state",
+  whenReactivated,
+  onSubmit,
+}: {
+  submitSource?: "state" | "dom";
+  whenReactivated?: "retain" | "reset";
+  onSubmit: (data: unknown, formData?: FormData) => void;
+}) => {
+  const form = useForm({
+    defaultValues: { accountType: "business", companyName: "" } as Account,
+    validator: createValidator<Account>({
+      validate: async (data) => {
+        if (data.accountType === "business" && !data.companyName)
+          return {
+            data: undefined,
+            error: { companyName: "Company name is required" },
+          };
+        return { data: data as Account, error: undefined };
+      },
+    }),
+    submitSource: submitSource as "state",
+    handleSubmit: onSubmit as never,
+    conditionalFields: {
+      companyName: {
+        when: (values) => values.accountType === "business",
+        whenReactivated,
+      },
+    },
+  });
+
+  return (
+    <form {...form.getFormProps()}>
+      <select data-testid="type" {...form.getInputProps("accountType")}>
+        <option value="business">Business</option>
+        <option value="personal">Personal</option>
+      </select>
+      {/* Kept in the DOM to make sure inactive fields aren't submitted */}
+      <input
+        data-testid="company"
+        hidden={!form.isActive("companyName")}
+        {...form.getInputProps("companyName")}
+      />
+      <pre data-testid="error">{form.error("companyName")}</pre>
+      <pre data-testid="touched">{String(form.touched("companyName"))}</pre>
+      <button type="submit" data-testid="submit" />
+    </form>
+  );
+};
+
+it("should leave inactive fields out of submission", async () => {
+  const submit = vi.fn();
+  render(<TestComp onSubmit={submit} />);
+
+  await userEvent.type(screen.getByTestId("company"), "Acme");
+  await userEvent.selectOptions(screen.getByTestId("type"), "personal");
+  expect(screen.getByTestId("company")).not.toBeVisible();
+
+  await userEvent.click(screen.getByTestId("submit"));
+  await waitFor(() => expect(submit).toHaveBeenCalledTimes(1));
+  expect(submit).toHaveBeenCalledWith(
+    { accountType: "personal" },
+    expect.anything(),
+  );
+});
+
+it("should leave inactive fields out of the form data", async () => {
+  const submit = vi.fn();
+  render(<TestComp submitSource="dom" onSubmit={submit} />);
+
+  await userEvent.type(screen.getByTestId("company"), "Acme");
+  await userEvent.selectOptions(screen.getByTestId("type"), "personal");
+
+  await userEvent.click(screen.getByTestId("submit"));
+  await waitFor(() => expect(submit).toHaveBeenCalledTimes(1));
+  const [data, formData] = submit.mock.calls[0];
+  expect(data).toEqual({ accountType: "personal" });
+  expect([...formData.keys()]).toEqual(["accountType"]);
+});
+
+it("should clear the field state when the field becomes inactive", async () => {
+  render(<TestComp onSubmit={vi.fn()} />);
+
+  await userEvent.click(screen.getByTestId("submit"));
+  await waitFor(() => {
+    expect(screen.getByTestId("error")).toHaveTextContent(
+      "Company name is required",
+    );
+  });
+  await userEvent.click(screen.getByTestId("company"));
+  await userEvent.tab();
+  expect(screen.getByTestId("touched")).toHaveTextContent("true");
+
+  await userEvent.selectOptions(screen.getByTestId("type"), "personal");
+  expect(screen.getByTestId("error")).toBeEmptyDOMElement();
+  expect(screen.getByTestId("touched")).toHaveTextContent("false");
+});
+
+it("should retain the value when the field becomes active again", async () => {
+  render(<TestComp onSubmit={vi.fn()} />);
+
+  await userEvent.type(screen.getByTestId("company"), "Acme");
+  await userEvent.selectOptions(screen.getByTestId("type"), "personal");
+  await userEvent.selectOptions(screen.getByTestId("type"), "business");
+  expect(screen.getByTestId("company")).toBeVisible();
+  expect(screen.getByTestId("company")).toHaveValue("Acme");
+});
+
+it("should reset the value when the field becomes active again", async () => {
+  render(<TestComp whenReactivated="reset" onSubmit={vi.fn()} />);
+
+  await userEvent.type(screen.getByTestId("company"), "Acme");
+  await userEvent.selectOptions(screen.getByTestId("type"), "personal");
+  await userEvent.selectOptions(screen.getByTestId("type"), "business");
+  expect(screen.getByTestId("company")).toHaveValue("");
+});
+
+it("should skip field validators of inactive fields", async () => {
+  const submit = vi.fn();
+
+  const TestComp = () => {
+    const form = useForm({
+      defaultValues: { hasPet: true, petName: "" },
+      validator: successValidator,
+      submitSource: "state",
+      handleSubmit: submit,
+      conditionalFields: {
+        petName: { when: (values) => values.hasPet },
+      },
+    });
+    const petName = useField(form.scope("petName"), {
+      validate: (value) => (value ? undefined : "Pet name is required"),
+    });
+
+    return (
+      <form {...form.getFormProps()}>
+        <input
+          type="checkbox"
+          data-testid="has-pet"
+          {...form.getInputProps("hasPet", { type: "checkbox" })}
+        />
+        <pre data-testid="error">{petName.error()}</pre>
+        <button type="submit" data-testid="submit" />
+      </form>
+    );
+  };
+
+  render(<TestComp />);
+
+  await userEvent.click(screen.getByTestId("submit"));
+  await waitFor(() => {
+    expect(screen.getByTestId("error")).toHaveTextContent(
+      "Pet name is required",
+    );
+  });
+  expect(submit).not.toHaveBeenCalled();
+
+  await userEvent.click(screen.getByTestId("has-pet"));
+  expect(screen.getByTestId("error")).toBeEmptyDOMElement();
+
+  await userEvent.click(screen.getByTestId("submit"));
+  await waitFor(() => expect(submit).toHaveBeenCalledTimes(1));
+  expect(submit).toHaveBeenCalledWith({ hasPet: false }, expect.anything());
+});
+
+it("should only rerender for changes to the values the field's conditions read", async () => {
+  const Comp = () => {
+    const form = useForm({
+      defaultValues: {
+        accountType: "business",
+        companyName: "",
+        name: "",
+        nickname: "",
+      },
+      validator: successValidator,
+      conditionalFields: {
+        companyName: { when: (values) => values.accountType === "business" },
+        nickname: { when: (values) => values.name !== "" },
+      },
+    });
+
+    return (
+      <form {...form.getFormProps()}>
+        <select data-testid="type" {...form.getInputProps("accountType")}>
+          <option value="business">Business</option>
+          <option value="personal">Personal</option>
+        </select>
+        <input data-testid="name" {...form.getInputProps("name")} />
+        <pre data-testid="active">{String(form.isActive("companyName"))}</pre>
+        <RenderCounter data-testid="render-count" />
+      </form>
+    );
+  };
+
+  render(<Comp />);
+  await userEvent.type(screen.getByTestId("name"), "J");
+  const renderCount = screen.getByTestId("render-count").textContent;
+
+  await userEvent.type(screen.getByTestId("name"), "ane");
+  expect(screen.getByTestId("render-count")).toHaveTextContent(renderCount!);
+
+  await userEvent.selectOptions(screen.getByTestId("type"), "personal");
+  expect(screen.getByTestId("active")).toHaveTextContent("false");
+});
@@ -117,3 +117,111 @@ it("should keep newly added field array fields dirty", async () => {
   expect(screen.getByTestId("0-dirty")).toHaveTextContent("false");
   expect(screen.getByTestId("1-dirty")).toHaveTextContent("true"); // since this was added, it's essentially dirty
 });
+
+it("should not be dirty when a checkbox group is restored to its default value", async () => {
+  const TestComp = () => {
+    const form = useForm({
+      defaultValues: {
+        foo: ["bar"],
+      },
+      validator: successValidator,
+      handleSubmit: vi.fn(),
+    });
+
+    return (
+      <form {...form.getFormProps()} data-testid="form">
+        <input
+          data-testid="foo"
+          {...form
+            .field("foo")
+            .getInputProps({ type: "checkbox", value: "foo" })}
+        />
+        <input
+          data-testid="bar"
+          {...form
+            .field("foo")
+            .getInputProps({ type: "checkbox", value: "bar" })}
+        />
+        <pre data-testid="dirty">{form.dirty("foo") ? "true" : "false"}</pre>
+      </form>
+    );
+  };
+
+  render(<TestComp />);
+  await userEvent.click(screen.getByTestId("foo"));
+  expect(screen.getByTestId("dirty")).toHaveTextContent("true");
+
+  await userEvent.click(screen.getByTestId("foo"));
+  expect(screen.getByTestId("dirty")).toHaveTextContent("false");
+});
+
+it("should recompute the dirty state after array operations", async () => {
+  const TestComp = () => {
+    const form = useForm({
+      defaultValues: {
+        foo: ["a", "b"],
+      },
+      validator: successValidator,
+      handleSubmit: vi.fn(),
+    });
+
+    return (
+      <form {...form.getFormProps()} data-testid="form">
+        {form.array("foo").map((key, item, index) => (
+          <pre key={key} data-testid={`${index}-dirty`}>
+            {item.dirty() ? "true" : "false"}
+          </pre>
+        ))}
+        <pre data-testid="dirty">{form.dirty("foo") ? "true" : "false"}</pre>
+        <button
+          type="button"
+          data-testid="swap"
+          onClick={() => form.array("foo").swap(0, 1)}
+        />
+      </form>
+    );
+  };
+
+  render(<TestComp />);
+  expect(screen.getByTestId("dirty")).toHaveTextContent("false");
+
+  await userEvent.click(screen.getByTestId("swap"));
+  expect(screen.getByTestId("dirty")).toHaveTextContent("true");
+
+  await userEvent.click(screen.getByTestId("swap"));
+  expect(screen.getByTestId("dirty")).toHaveTextContent("false");
+});
+
+it("should be possible to get only the values that changed", async () => {
+  const submit = vi.fn();
+  const TestComp = () => {
+    const form = useForm({
+      defaultValues: {
+        name: "Jane",
+        address: { city: "Paris", zip: "75001" },
+        tags: ["a"],
+      },
+      validator: successValidator,
+      handleSubmit: vi.fn(),
+    });
+
+    return (
+      <form {...form.getFormProps()} data-testid="form">
+        <input data-testid="name" {...form.getInputProps("name")} />
+        <input data-testid="city" {...form.getInputProps("address.city")} />
+        <input data-testid="zip" {...form.getInputProps("address.zip")} />
+        <button
+          type="button"
+          data-testid="save"
+          onClick={() => submit(form.getDirtyValues())}
+        />
+      </form>
+    );
+  };
+
+  render(<TestComp />);
+  await userEvent.clear(screen.getByTestId("city"));
+  await userEvent.type(screen.getByTestId("city"), "Lyon");
+  await userEvent.click(screen.getByTestId("save"));
+  expect(submit).toHaveBeenCalledWith({ address: { city: "Lyon" } });
+});
@@ -0,0 +1,142 @@
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { createValidator, ValidationBehaviorConfig } from "@rvf/core";
+import { useForm } from "../useForm";
+import { useField } from "../field";
+import { successValidator } from "./util/successValidator";
+
+type Passwords = { password: string; confirmPassword: string };
+
+const matchValidator = createValidator<Passwords>({
+  validate: async (data) => {
+    if (data.password !== data.confirmPassword)
+      return {
+        data: undefined,
+        error: { confirmPassword: "Passwords must match" },
+      };
+    return { data: data as Passwords, error: undefined };
+  },
+});
+
+const FormComp = ({
+  withDependencies = true,
+  validationBehaviorConfig,
+}: {
+  withDependencies?: boolean;
+  validationBehaviorConfig?: ValidationBehaviorConfig;
+}) => {
+  const form = useForm({
+    defaultValues: { password: "", confirmPassword: "" },
+    validator: matchValidator,
+    validationBehaviorConfig,
+    fieldDependencies: withDependencies
+      ? { confirmPassword: ["password"] }
+      : undefined,
+  });
+
+  return (
+    <form {...form.getFormProps()}>
+      <input data-testid="password" {...form.getInputProps("password")} />
+      <input data-testid="confirm" {...form.getInputProps("confirmPassword")} />
+      <pre data-testid="error">{form.error("confirmPassword")}</pre>
+    </form>
+  );
+};
+
+it("should revalidate dependent fields when a field changes", async () => {
+  render(
+    <FormComp
+      validationBehaviorConfig={{
+        initial: "onChange",
+        whenTouched: "onChange",
+        whenSubmitted: "onChange",
+      }}
+    />,
+  );
+
+  await userEvent.type(screen.getByTestId("password"), "secret");
+  await waitFor(() => {
+    expect(screen.getByTestId("error")).toHaveTextContent(
+      "Passwords must match",
+    );
+  });
+
+  await userEvent.type(screen.getByTestId("confirm"), "secret");
+  await waitFor(() => {
+    expect(screen.getByTestId("error")).toBeEmptyDOMElement();
+  });
+});
+
+it("should follow the validation behavior of the dependent field", async () => {
+  render(<FormComp />);
+
+  // `confirmPassword` hasn't been touched, so it's only validated on blur
+  await userEvent.type(screen.getByTestId("password"), "secret");
+  await userEvent.tab();
+  await userEvent.type(screen.getByTestId("confirm"), "secret");
+  await userEvent.tab();
+  expect(screen.getByTestId("error")).toBeEmptyDOMElement();
+
+  // Once it's touched, it's validated on change, including changes to `password`
+  await userEvent.type(screen.getByTestId("password"), "!");
+  await waitFor(() => {
+    expect(screen.getByTestId("error")).toHaveTextContent(
+      "Passwords must match",
+    );
+  });
+});
+
+it("should not show errors for untouched dependents by default", async () => {
+  render(<FormComp />);
+
+  await userEvent.type(screen.getByTestId("password"), "secret");
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  expect(screen.getByTestId("error")).toBeEmptyDOMElement();
+});
+
+it("should rerun the field validators of dependent fields", async () => {
+  const TestComp = ({ withDependencies }: { withDependencies: boolean }) => {
+    const form = useForm({
+      defaultValues: { password: "", confirmPassword: "" },
+      validator: successValidator,
+      fieldDependencies: withDependencies
+        ? { confirmPassword: ["password"] }
+        : undefined,
+    });
+    const confirm = useField(form.scope("confirmPassword"), {
+      validate: (value, values) =>
+        value === (values as Passwords).password
+          ? undefined
+          : "Passwords must match",
+    });
+
+    return (
+      <form {...form.getFormProps()}>
+        <input data-testid="password" {...form.getInputProps("password")} />
+        <input data-testid="confirm" {...confirm.getInputProps()} />
+        <pre data-testid="error">{confirm.error()}</pre>
+      </form>
+    );
+  };
+
+  const { unmount } = render(<TestComp withDependencies={false} />);
+  await userEvent.type(screen.getByTestId("password"), "secret");
+  await userEvent.type(screen.getByTestId("confirm"), "secret");
+  await userEvent.tab();
+  await userEvent.type(screen.getByTestId("password"), "!");
+  await userEvent.tab();
+  // Without the dependency, the result for `confirmPassword` is stale
+  expect(screen.getByTestId("error")).toBeEmptyDOMElement();
+  unmount();
+
+  render(<TestComp withDependencies />);
+  await userEvent.type(screen.getByTestId("password"), "secret");
+  await userEvent.type(screen.getByTestId("confirm"), "secret");
+  await userEvent.tab();
+  await userEvent.type(screen.getByTestId("password"), "!");
+  await waitFor(() => {
+    expect(screen.getByTestId("error")).toHaveTextContent(
+      "Passwords must match",
+    );
+  });
+});
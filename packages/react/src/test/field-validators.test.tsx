@@ -0,0 +1,255 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { FieldErrors, FormScope, createValidator } from "@rvf/core";
+import { useForm } from "../useForm";
+import { useField } from "../field";
+import { controlInputProps } from "./util/controlInput";
+
+const formValidator = (validate = vi.fn()) =>
+  createValidator({
+    validate: (data) => {
+      validate(data);
+      const errors: FieldErrors = {};
+      if (data.email.length < 3) errors.email = "too short";
+      if (Object.keys(errors).length > 0)
+        return Promise.resolve({ data: undefined, error: errors });
+      return Promise.resolve({ data, error: undefined });
+    },
+  });
+
+it("should run a field validator passed to getInputProps and merge its errors", async () => {
+  const submit = vi.fn();
+  const usernameValidator = vi.fn((value: unknown) =>
+    value === "taken" ? "username taken" : undefined,
+  );
+
+  const TestComp = () => {
+    const form = useForm({
+      defaultValues: { email: "", username: "" },
+      validator: formValidator(),
+      handleSubmit: submit,
+    });
+
+    return (
+      <form {...form.getFormProps()} data-testid="form">
+        <input data-testid="email" {...form.getInputProps("email")} />
+        <pre data-testid="email-error">{form.error("email")}</pre>
+        <input
+          data-testid="username"
+          {...form.getInputProps("username", { validate: usernameValidator })}
+        />
+        <pre data-testid="username-error">{form.error("username")}</pre>
+      </form>
+    );
+  };
+
+  render(<TestComp />);
+
+  expect(screen.getByTestId("username")).not.toHaveAttribute("validate");
+
+  await userEvent.type(screen.getByTestId("username"), "taken");
+  await userEvent.click(screen.getByTestId("form")); // blur
+
+  await waitFor(() =>
+    expect(screen.getByTestId("username-error")).toHaveTextContent(
+      "username taken",
+    ),
+  );
+  expect(screen.getByTestId("email-error")).toBeEmptyDOMElement();
+
+  fireEvent.submit(screen.getByTestId("form"));
+  await waitFor(() =>
+    expect(screen.getByTestId("email-error")).toHaveTextContent("too short"),
+  );
+  expect(screen.getByTestId("username-error")).toHaveTextContent(
+    "username taken",
+  );
+  expect(submit).not.toHaveBeenCalled();
+
+  await userEvent.type(screen.getByTestId("email"), "test@example.com");
+  await userEvent.clear(screen.getByTestId("username"));
+  await userEvent.type(screen.getByTestId("username"), "jim");
+  await waitFor(() =>
+    expect(screen.getByTestId("username-error")).toBeEmptyDOMElement(),
+  );
+  expect(screen.getByTestId("email-error")).toBeEmptyDOMElement();
+
+  fireEvent.submit(screen.getByTestId("form"));
+  await waitFor(() => expect(submit).toHaveBeenCalledTimes(1));
+  expect(usernameValidator).toHaveBeenLastCalledWith(
+    "jim",
+    {
+      email: "test@example.com",
+      username: "jim",
+    },
+    expect.anything(),
+  );
+});
+
+it("should only run a field validator when validating its own field or submitting", async () => {
+  const submit = vi.fn();
+  const usernameValidator = vi.fn(() => undefined);
+
+  const TestComp = () => {
+    const form = useForm({
+      defaultValues: { email: "", username: "" },
+      validator: formValidator(),
+      handleSubmit: submit,
+    });
+
+    return (
+      <form {...form.getFormProps()} data-testid="form">
+        <input data-testid="email" {...form.getInputProps("email")} />
+        <input
+          data-testid="username"
+          {...form.getInputProps("username", { validate: usernameValidator })}
+        />
+      </form>
+    );
+  };
+
+  render(<TestComp />);
+
+  await userEvent.type(screen.getByTestId("username"), "bob");
+  await userEvent.click(screen.getByTestId("form")); // blur
+  await waitFor(() => expect(usernameValidator).toHaveBeenCalledTimes(1));
+
+  await userEvent.type(screen.getByTestId("email"), "test@example.com");
+  await userEvent.click(screen.getByTestId("form")); // blur
+  expect(usernameValidator).toHaveBeenCalledTimes(1);
+
+  fireEvent.submit(screen.getByTestId("form"));
+  await waitFor(() => expect(submit).toHaveBeenCalledTimes(1));
+  expect(usernameValidator).toHaveBeenCalledTimes(2);
+});
+
+it("should keep the results of sibling field validators that share a prefix when resetting a field", async () => {
+  const nameValidator = vi.fn(() => undefined);
+  const name2Validator = vi.fn(() => undefined);
+
+  const TestComp = () => {
+    const form = useForm({
+      defaultValues: { email: "", name: "", name2: "" },
+      validator: formValidator(),
+    });
+
+    return (
+      <form {...form.getFormProps()} data-testid="form">
+        <input data-testid="email" {...form.getInputProps("email")} />
+        <input
+          data-testid="name"
+          {...form.getInputProps("name", { validate: nameValidator })}
+        />
+        <input
+          data-testid="name2"
+          {...form.getInputProps("name2", { validate: name2Validator })}
+        />
+        <button
+          type="button"
+          data-testid="reset-name"
+          onClick={() => form.resetField("name")}
+        />
+      </form>
+    );
+  };
+
+  render(<TestComp />);
+
+  await userEvent.type(screen.getByTestId("name2"), "bob");
+  await userEvent.click(screen.getByTestId("form")); // blur
+  await waitFor(() => expect(name2Validator).toHaveBeenCalledTimes(1));
+
+  await userEvent.click(screen.getByTestId("reset-name"));
+  await userEvent.type(screen.getByTestId("email"), "test@example.com");
+  await userEvent.click(screen.getByTestId("form")); // blur
+  await waitFor(() => expect(nameValidator).toHaveBeenCalled());
+  expect(name2Validator).toHaveBeenCalledTimes(1);
+});
+
+it("should support async field validators in getControlProps", async () => {
+  const submit = vi.fn();
+
+  const TestComp = () => {
+    const form = useForm({
+      defaultValues: { email: "", username: "" },
+      validator: formValidator(),
+      handleSubmit: submit,
+      submitSource: "state",
+    });
+
+    return (
+      <form {...form.getFormProps()} data-testid="form">
+        <input
+          data-testid="username"
+          {...controlInputProps(
+            form.getControlProps("username", {
+              validate: async (value) =>
+                value === "taken" ? "username taken" : null,
+            }),
+          )}
+        />
+        <pre data-testid="username-error">{form.error("username")}</pre>
+      </form>
+    );
+  };
+
+  render(<TestComp />);
+
+  await userEvent.type(screen.getByTestId("username"), "taken");
+  fireEvent.submit(screen.getByTestId("form"));
+
+  await waitFor(() =>
+    expect(screen.getByTestId("username-error")).toHaveTextContent(
+      "username taken",
+    ),
+  );
+  expect(submit).not.toHaveBeenCalled();
+});
+
+it("should register field validators through useField", async () => {
+  const submit = vi.fn();
+
+  const Username = ({ scope }: { scope: FormScope<string> }) => {
+    const field = useField(scope, {
+      validate: (value) => (value.length > 3 ? "too long" : undefined),
+    });
+    return (
+      <>
+        <input data-testid="username" {...field.getInputProps()} />
+        <pre data-testid="username-error">{field.error()}</pre>
+      </>
+    );
+  };
+
+  const TestComp = () => {
+    const form = useForm({
+      defaultValues: { email: "", username: "" },
+      validator: formValidator(),
+      handleSubmit: submit,
+    });
+
+    return (
+      <form {...form.getFormProps()} data-testid="form">
+        <input {...form.getInputProps("email")} />
+        <Username scope={form.scope("username")} />
+      </form>
+    );
+  };
+
+  render(<TestComp />);
+
+  await userEvent.type(screen.getByTestId("username"), "bobby");
+  await userEvent.click(screen.getByTestId("form")); // blur
+
+  await waitFor(() =>
+    expect(screen.getByTestId("username-error")).toHaveTextContent("too long"),
+  );
+
+  await userEvent.type(
+    screen.getByTestId("username"),
+    "{Backspace}{Backspace}",
+  );
+  await waitFor(() =>
+    expect(screen.getByTestId("username-error")).toBeEmptyDOMElement(),
+  );
+});
@@ -0,0 +1,259 @@
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { useState } from "react";
+import {
+  FORM_ID_FIELD_NAME,
+  ValidationErrorResponseData,
+  Validator,
+  createValidator,
+} from "@rvf/core";
+import { useForm } from "../useForm";
+import { successValidator } from "./util/successValidator";
+
+// A stand-in for React 19's `useActionState`, which isn't available in React 18.
+const useTestActionState = <State,>(
+  action: (prevState: State, formData: FormData) => State,
+  initialState: State,
+) => {
+  const [state, setState] = useState(initialState);
+  const dispatch = (formData: FormData) =>
+    setState((prev) => action(prev, formData));
+  return [state, dispatch] as const;
+};
+
+type ActionState = { message: string } | ValidationErrorResponseData | null;
+
+it("should hand valid submissions to the action with the form data", async () => {
+  const action = vi.fn(
+    (_: ActionState, formData: FormData): ActionState => ({
+      message: `You said: ${formData.get("foo")}`,
+    }),
+  );
+  const success = vi.fn();
+
+  const TestComp = () => {
+    const [state, dispatch] = useTestActionState(action, null);
+    const form = useForm({
+      id: "test-form",
+      defaultValues: { foo: "" },
+      validator: successValidator as Validator<{ foo: string }>,
+      formAction: dispatch,
+      actionState: state,
+      onSubmitSuccess: success,
+    });
+
+    return (
+      <form {...form.getFormProps()}>
+        {state && "message" in state && <p>{state.message}</p>}
+        <pre data-testid="status">{form.formState.submitStatus}</pre>
+        <input data-testid="foo" {...form.getInputProps("foo")} />
+        <button type="submit" data-testid="submit" />
+      </form>
+    );
+  };
+
+  render(<TestComp />);
+
+  await userEvent.type(screen.getByTestId("foo"), "bar");
+  await userEvent.click(screen.getByTestId("submit"));
+
+  expect(await screen.findByText("You said: bar")).toBeInTheDocument();
+  await waitFor(() =>
+    expect(screen.getByTestId("status")).toHaveTextContent("success"),
+  );
+  expect(action).toHaveBeenCalledTimes(1);
+  const formData = action.mock.calls[0][1];
+  expect(formData.get("foo")).toBe("bar");
+  expect(formData.get(FORM_ID_FIELD_NAME)).toBe("test-form");
+  expect(success).toHaveBeenCalledWith({ message: "You said: bar" });
+});
+
+it("should show validation errors returned in the action state", async () => {
+  const failure = vi.fn();
+  const success = vi.fn();
+
+  const TestComp = () => {
+    const [state, dispatch] = useTestActionState<ActionState>(
+      () => ({ fieldErrors: { foo: "Already taken" } }),
+      null,
+    );
+    const form = useForm({
+      defaultValues: { foo: "" },
+      validator: successValidator as Validator<{ foo: string }>,
+      formAction: dispatch,
+      actionState: state,
+      onSubmitSuccess: success,
+      onSubmitFailure: failure,
+    });
+
+    return (
+      <form {...form.getFormProps()}>
+        <input data-testid="foo" {...form.getInputProps("foo")} />
+        <pre data-testid="error">{form.error("foo")}</pre>
+        <button type="submit" data-testid="submit" />
+      </form>
+    );
+  };
+
+  render(<TestComp />);
+
+  await userEvent.type(screen.getByTestId("foo"), "bar");
+  await userEvent.click(screen.getByTestId("submit"));
+
+  await waitFor(() =>
+    expect(screen.getByTestId("error")).toHaveTextContent("Already taken"),
+  );
+  await waitFor(() => expect(failure).toHaveBeenCalledTimes(1));
+  expect(success).not.toHaveBeenCalled();
+});
+
+it("should ignore validation errors for other forms", async () => {
+  const TestComp = () => {
+    const [state, dispatch] = useTestActionState<ActionState>(
+      () => ({ fieldErrors: { foo: "Already taken" }, formId: "other-form" }),
+      null,
+    );
+    const form = useForm({
+      id: "test-form",
+      defaultValues: { foo: "" },
+      validator: successValidator as Validator<{ foo: string }>,
+      formAction: dispatch,
+      actionState: state,
+    });
+
+    return (
+      <form {...form.getFormProps()}>
+        {state && <p>Done</p>}
+        <input data-testid="foo" {...form.getInputProps("foo")} />
+        <pre data-testid="error">{form.error("foo")}</pre>
+        <button type="submit" data-testid="submit" />
+      </form>
+    );
+  };
+
+  render(<TestComp />);
+
+  await userEvent.click(screen.getByTestId("submit"));
+
+  expect(await screen.findByText("Done")).toBeInTheDocument();
+  expect(screen.getByTestId("error")).toBeEmptyDOMElement();
+});
+
+it("should not call the action when the form is invalid", async () => {
+  const action = vi.fn(() => null);
+  const validator = createValidator({
+    validate: async () => ({
+      data: undefined,
+      error: { foo: "Required" },
+    }),
+  });
+
+  const TestComp = () => {
+    const [state, dispatch] = useTestActionState(action, null);
+    const form = useForm({
+      defaultValues: { foo: "" },
+      validator,
+      formAction: dispatch,
+      actionState: state,
+    });
+
+    return (
+      <form {...form.getFormProps()}>
+        <input data-testid="foo" {...form.getInputProps("foo")} />
+        <pre data-testid="error">{form.error("foo")}</pre>
+        <button type="submit" data-testid="submit" />
+      </form>
+    );
+  };
+
+  render(<TestComp />);
+
+  await userEvent.click(screen.getByTestId("submit"));
+
+  await waitFor(() =>
+    expect(screen.getByTestId("error")).toHaveTextContent("Required"),
+  );
+  expect(action).not.toHaveBeenCalled();
+});
+
+it("should only pass the action function to the form in React versions that support it", () => {
+  const TestComp = () => {
+    const form = useForm({
+      action: "/submit",
+      defaultValues: { foo: "" },
+      validator: successValidator as Validator<{ foo: string }>,
+      formAction: () => {},
+    });
+
+    return (
+      <form data-testid="form" {...form.getFormProps()}>
+        <pre data-testid="action">{form.formOptions.action}</pre>
+      </form>
+    );
+  };
+
+  render(<TestComp />);
+
+  // The tests run on React 18, which doesn't support action functions
+  expect(screen.getByTestId("form")).toHaveAttribute("action", "/submit");
+  expect(screen.getByTestId("action")).toHaveTextContent("/submit");
+});
+
+it("should finish submitting when the action doesn't update any state", async () => {
+  const action = vi.fn();
+
+  const TestComp = () => {
+    const form = useForm({
+      defaultValues: { foo: "" },
+      validator: successValidator as Validator<{ foo: string }>,
+      formAction: action,
+    });
+
+    return (
+      <form {...form.getFormProps()}>
+        <pre data-testid="status">{form.formState.submitStatus}</pre>
+        <button type="submit" data-testid="submit" />
+      </form>
+    );
+  };
+
+  render(<TestComp />);
+
+  await userEvent.click(screen.getByTestId("submit"));
+
+  await waitFor(() =>
+    expect(screen.getByTestId("status")).toHaveTextContent("success"),
+  );
+  expect(action).toHaveBeenCalledTimes(1);
+});
+
+it("should fail the submission when the action throws", async () => {
+  const failure = vi.fn();
+
+  const TestComp = () => {
+    const form = useForm({
+      defaultValues: { foo: "" },
+      validator: successValidator as Validator<{ foo: string }>,
+      formAction: async () => {
+        throw new Error("Something went wrong");
+      },
+      onSubmitFailure: failure,
+    });
+
+    return (
+      <form {...form.getFormProps()}>
+        <pre data-testid="status">{form.formState.submitStatus}</pre>
+        <button type="submit" data-testid="submit" />
+      </form>
+    );
+  };
+
+  render(<TestComp />);
+
+  await userEvent.click(screen.getByTestId("submit"));
+
+  await waitFor(() =>
+    expect(screen.getByTestId("status")).toHaveTextContent("error"),
+  );
+  expect(failure).toHaveBeenCalledWith(new Error("Something went wrong"));
+});
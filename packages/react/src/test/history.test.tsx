@@ -0,0 +1,105 @@
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { useForm } from "../useForm";
+import { successValidator } from "./util/successValidator";
+
+it("should undo and redo changes to uncontrolled inputs", async () => {
+  const TestComp = () => {
+    const form = useForm({
+      defaultValues: { name: "" },
+      validator: successValidator,
+      handleSubmit: vi.fn(),
+      history: true,
+    });
+
+    return (
+      <form {...form.getFormProps()}>
+        <input data-testid="name" {...form.getInputProps("name")} />
+        <button
+          type="button"
+          data-testid="undo"
+          disabled={!form.history.canUndo}
+          onClick={() => form.history.undo()}
+        />
+        <button
+          type="button"
+          data-testid="redo"
+          disabled={!form.history.canRedo}
+          onClick={() => form.history.redo()}
+        />
+      </form>
+    );
+  };
+
+  render(<TestComp />);
+  expect(screen.getByTestId("undo")).toBeDisabled();
+
+  await userEvent.type(screen.getByTestId("name"), "Jane");
+  expect(screen.getByTestId("undo")).toBeEnabled();
+
+  await userEvent.click(screen.getByTestId("undo"));
+  expect(screen.getByTestId("name")).toHaveValue("");
+  expect(screen.getByTestId("undo")).toBeDisabled();
+  expect(screen.getByTestId("redo")).toBeEnabled();
+
+  await userEvent.click(screen.getByTestId("redo"));
+  expect(screen.getByTestId("name")).toHaveValue("Jane");
+});
+
+it("should undo field array operations", async () => {
+  const TestComp = () => {
+    const form = useForm({
+      defaultValues: {
+        todos: [{ title: "a" }, { title: "b" }, { title: "c" }],
+      },
+      validator: successValidator,
+      handleSubmit: vi.fn(),
+      history: true,
+    });
+
+    return (
+      <form {...form.getFormProps()}>
+        {form.array("todos").map((key, item, index) => (
+          <div key={key}>
+            <input
+              data-testid={`todo-${index}`}
+              {...item.getInputProps("title")}
+            />
+          </div>
+        ))}
+        <button
+          type="button"
+          data-testid="remove"
+          onClick={() => form.array("todos").remove(0)}
+        />
+        <button
+          type="button"
+          data-testid="move"
+          onClick={() => form.array("todos").move(0, 1)}
+        />
+        <button
+          type="button"
+          data-testid="undo"
+          onClick={() => form.history.undo()}
+        />
+      </form>
+    );
+  };
+
+  render(<TestComp />);
+
+  await userEvent.click(screen.getByTestId("remove"));
+  await userEvent.click(screen.getByTestId("move"));
+  expect(screen.getByTestId("todo-0")).toHaveValue("c");
+  expect(screen.getByTestId("todo-1")).toHaveValue("b");
+  expect(screen.queryByTestId("todo-2")).not.toBeInTheDocument();
+
+  await userEvent.click(screen.getByTestId("undo"));
+  expect(screen.getByTestId("todo-0")).toHaveValue("b");
+  expect(screen.getByTestId("todo-1")).toHaveValue("c");
+
+  await userEvent.click(screen.getByTestId("undo"));
+  expect(screen.getByTestId("todo-0")).toHaveValue("a");
+  expect(screen.getByTestId("todo-1")).toHaveValue("b");
+  expect(screen.getByTestId("todo-2")).toHaveValue("c");
+});
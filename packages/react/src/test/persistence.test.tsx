@@ -0,0 +1,122 @@
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { renderToString } from "react-dom/server";
+import { useForm } from "../useForm";
+import { successValidator } from "./util/successValidator";
+
+afterEach(() => {
+  localStorage.clear();
+});
+
+it("should save a draft and restore it the next time the form mounts", async () => {
+  const submit = vi.fn();
+  const TestComp = () => {
+    const form = useForm({
+      defaultValues: { name: "", bio: "" },
+      validator: successValidator,
+      handleSubmit: submit,
+      persist: { key: "profile", throttle: 0 },
+    });
+
+    return (
+      <form {...form.getFormProps()} data-testid="form">
+        <input data-testid="name" {...form.getInputProps("name")} />
+        <textarea data-testid="bio" {...form.getInputProps("bio")} />
+        <pre data-testid="name-value">{form.value("name")}</pre>
+        <pre data-testid="has-draft">
+          {form.persistence.hasDraft() ? "true" : "false"}
+        </pre>
+      </form>
+    );
+  };
+
+  const { unmount } = render(<TestComp />);
+  await userEvent.type(screen.getByTestId("name"), "Jane");
+  await userEvent.type(screen.getByTestId("bio"), "Hello");
+  await waitFor(() => expect(localStorage.getItem("profile")).not.toBeNull());
+  unmount();
+
+  render(<TestComp />);
+  expect(screen.getByTestId("name")).toHaveValue("Jane");
+  expect(screen.getByTestId("bio")).toHaveValue("Hello");
+  expect(screen.getByTestId("name-value")).toHaveTextContent("Jane");
+  expect(screen.getByTestId("has-draft")).toHaveTextContent("true");
+
+  fireEvent.submit(screen.getByTestId("form"));
+  await waitFor(() => expect(submit).toHaveBeenCalledTimes(1));
+  expect(submit).toHaveBeenCalledWith(
+    { name: "Jane", bio: "Hello" },
+    expect.any(FormData),
+    {},
+  );
+  await waitFor(() => expect(localStorage.getItem("profile")).toBeNull());
+});
+
+it("should show the restored draft in server-rendered inputs after hydration", async () => {
+  const TestComp = () => {
+    const form = useForm({
+      defaultValues: { name: "" },
+      validator: successValidator,
+      handleSubmit: vi.fn(),
+      persist: { key: "profile" },
+    });
+
+    return (
+      <form {...form.getFormProps()}>
+        <input data-testid="name" {...form.getInputProps("name")} />
+      </form>
+    );
+  };
+
+  // There's no draft on the server
+  const container = document.createElement("div");
+  container.innerHTML = renderToString(<TestComp />);
+  document.body.appendChild(container);
+  // Browsers can bring back what was in an input before the page hydrates
+  fireEvent.change(screen.getByTestId("name"), { target: { value: "Bob" } });
+
+  localStorage.setItem(
+    "profile",
+    JSON.stringify({ version: 1, values: { name: "Jane" } }),
+  );
+  render(<TestComp />, { container, hydrate: true });
+
+  await waitFor(() => expect(screen.getByTestId("name")).toHaveValue("Jane"));
+});
+
+it("should be possible to clear the draft manually", async () => {
+  localStorage.setItem(
+    "profile",
+    JSON.stringify({ version: 1, values: { name: "Jane" } }),
+  );
+
+  const TestComp = () => {
+    const form = useForm({
+      defaultValues: { name: "" },
+      validator: successValidator,
+      handleSubmit: vi.fn(),
+      persist: { key: "profile" },
+    });
+
+    return (
+      <form {...form.getFormProps()}>
+        <input data-testid="name" {...form.getInputProps("name")} />
+        <button
+          type="button"
+          data-testid="discard"
+          onClick={() => {
+            form.persistence.clear();
+            form.resetForm();
+          }}
+        />
+      </form>
+    );
+  };
+
+  render(<TestComp />);
+  expect(screen.getByTestId("name")).toHaveValue("Jane");
+
+  await userEvent.click(screen.getByTestId("discard"));
+  expect(screen.getByTestId("name")).toHaveValue("");
+  expect(localStorage.getItem("profile")).toBeNull();
+});
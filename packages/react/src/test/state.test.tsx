@@ -173,6 +173,93 @@ it("should return form dirty/touched/valid state", async () => {
   });
 });
 
+it("should return validating state", async () => {
+  let prom: PromiseWithResolvers<any> | null = null;
+  const validator = createValidator({
+    validate: () => {
+      prom = withResolvers();
+      return prom.promise;
+    },
+  });
+
+  const { result } = renderHook(() => {
+    const form = useForm({
+      submitSource: "state",
+      defaultValues: {
+        foo: "bar",
+        baz: "qux",
+      },
+      validator,
+      handleSubmit: vi.fn(),
+    });
+    return {
+      state: {
+        isValidating: form.formState.isValidating,
+        hasBeenValidated: form.formState.hasBeenValidated,
+        valid: form.formState.isValid,
+        fooValidating: form.field("foo").validating(),
+        bazValidating: form.validating("baz"),
+      },
+      foo: form.field("foo"),
+      validate: form.validate,
+    };
+  });
+
+  expect(result.current.state).toEqual({
+    isValidating: false,
+    hasBeenValidated: false,
+    valid: true,
+    fooValidating: false,
+    bazValidating: false,
+  });
+
+  act(() => {
+    result.current.foo.onBlur();
+  });
+  await waitFor(() => {
+    expect(result.current.state).toEqual({
+      isValidating: true,
+      hasBeenValidated: false,
+      valid: true,
+      fooValidating: true,
+      bazValidating: false,
+    });
+  });
+
+  act(() => {
+    prom?.resolve({ data: { foo: "bar", baz: "qux" } });
+  });
+  await waitFor(() => {
+    expect(result.current.state).toEqual({
+      isValidating: false,
+      hasBeenValidated: true,
+      valid: true,
+      fooValidating: false,
+      bazValidating: false,
+    });
+  });
+
+  act(() => {
+    void result.current.validate();
+  });
+  await waitFor(() => {
+    expect(result.current.state).toEqual({
+      isValidating: true,
+      hasBeenValidated: true,
+      valid: true,
+      fooValidating: true,
+      bazValidating: true,
+    });
+  });
+
+  act(() => {
+    prom?.resolve({ data: { foo: "bar", baz: "qux" } });
+  });
+  await waitFor(() => {
+    expect(result.current.state.isValidating).toBe(false);
+  });
+});
+
 it("should be possible to access the default values in the form or a field", async () => {
   const { result } = renderHook(() => {
     const form = useForm({
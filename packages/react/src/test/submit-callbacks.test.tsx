@@ -165,6 +165,38 @@ it("should call onSubmitFailure", async () => {
   });
 });
 
+it("should show validation errors thrown from handleSubmit", async () => {
+  const submitFailure = vi.fn();
+  const errorResponse = { fieldErrors: { foo: "Taken" } };
+
+  const TestComp = () => {
+    const form = useForm({
+      defaultValues: { foo: "bar" },
+      validator: successValidator as Validator<{ foo: string }>,
+      onSubmitFailure: submitFailure,
+      handleSubmit: async () => {
+        throw errorResponse;
+      },
+    });
+
+    return (
+      <form {...form.getFormProps()} data-testid="form">
+        <input data-testid="foo" {...form.getInputProps("foo")} />
+        <pre data-testid="error">{form.error("foo")}</pre>
+        <button type="submit" data-testid="submit" />
+      </form>
+    );
+  };
+
+  render(<TestComp />);
+
+  await userEvent.click(screen.getByTestId("submit"));
+  await waitFor(() => {
+    expect(screen.getByTestId("error")).toHaveTextContent("Taken");
+  });
+  expect(submitFailure).toHaveBeenCalledWith(errorResponse);
+});
+
 describe("onBeforeSubmit", () => {
   it("should only validate once when onBeforeSubmit performs validations", async () => {
     const callback = vi.fn();
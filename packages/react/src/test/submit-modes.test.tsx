@@ -108,10 +108,13 @@ it("should include data from the form submitter on submit", async () => {
 
   await userEvent.click(screen.getByTestId("submit"));
   expect(successValidator.validate).toHaveBeenCalledTimes(1);
-  expect(successValidator.validate).toHaveBeenCalledWith({
-    foo: 123,
-    submitterValue: "foobar",
-  });
+  expect(successValidator.validate).toHaveBeenCalledWith(
+    {
+      foo: 123,
+      submitterValue: "foobar",
+    },
+    { signal: expect.any(AbortSignal) },
+  );
   expect(submit).toHaveBeenCalledTimes(1);
   expect(submit).toHaveBeenCalledWith(
     {
@@ -146,9 +149,12 @@ it("should use state as the source of truth for state mode", async () => {
 
   await userEvent.click(screen.getByTestId("submit"));
   expect(successValidator.validate).toHaveBeenCalledTimes(1);
-  expect(successValidator.validate).toHaveBeenCalledWith({
-    foo: 123,
-  });
+  expect(successValidator.validate).toHaveBeenCalledWith(
+    {
+      foo: 123,
+    },
+    { signal: expect.any(AbortSignal) },
+  );
   expect(submit).toHaveBeenCalledTimes(1);
   expect(submit).toHaveBeenCalledWith(
     {
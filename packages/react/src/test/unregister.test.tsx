@@ -0,0 +1,250 @@
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { useState } from "react";
+import { createValidator, FieldErrors, FormScope } from "@rvf/core";
+import { useForm } from "../useForm";
+import { useField } from "../field";
+import { successValidator } from "./util/successValidator";
+
+const validator = createValidator<{ name: string; nickname?: string }>({
+  validate: async (data) => {
+    const errors: FieldErrors = {};
+    if (data.nickname === "bad") errors.nickname = "Invalid nickname";
+    if (Object.keys(errors).length > 0)
+      return { data: undefined, error: errors };
+    return { data: data as never, error: undefined };
+  },
+});
+
+const TestComp = ({
+  shouldUnregister,
+  fieldShouldUnregister,
+  onSubmit,
+}: {
+  shouldUnregister?: boolean;
+  fieldShouldUnregister?: boolean;
+  onSubmit: (data: unknown) => void;
+}) => {
+  const [showNickname, setShowNickname] = useState(true);
+  const form = useForm({
+    defaultValues: { name: "Jane", nickname: "JJ" },
+    validator,
+    submitSource: "state",
+    shouldUnregister,
+    handleSubmit: onSubmit,
+  });
+
+  return (
+    <form {...form.getFormProps()}>
+      <input data-testid="name" {...form.getInputProps("name")} />
+      {showNickname && (
+        <input
+          data-testid="nickname"
+          {...form.getInputProps("nickname", {
+            shouldUnregister: fieldShouldUnregister,
+          })}
+        />
+      )}
+      <pre data-testid="value">{JSON.stringify(form.value())}</pre>
+      <pre data-testid="touched">{String(form.touched("nickname"))}</pre>
+      <pre data-testid="error">{form.error("nickname")}</pre>
+      <button
+        type="button"
+        data-testid="toggle"
+        onClick={() => setShowNickname((prev) => !prev)}
+      />
+      <button type="submit" data-testid="submit" />
+    </form>
+  );
+};
+
+it("should remove the field when its input unmounts", async () => {
+  const submit = vi.fn();
+  render(<TestComp shouldUnregister onSubmit={submit} />);
+
+  await userEvent.clear(screen.getByTestId("nickname"));
+  await userEvent.type(screen.getByTestId("nickname"), "bad");
+  await userEvent.tab();
+  await waitFor(() => {
+    expect(screen.getByTestId("error")).toHaveTextContent("Invalid nickname");
+  });
+  expect(screen.getByTestId("touched")).toHaveTextContent("true");
+
+  await userEvent.click(screen.getByTestId("toggle"));
+  await waitFor(() => {
+    expect(screen.getByTestId("value")).toHaveTextContent('{"name":"Jane"}');
+  });
+  expect(screen.getByTestId("touched")).toHaveTextContent("false");
+  expect(screen.getByTestId("error")).toBeEmptyDOMElement();
+
+  await userEvent.click(screen.getByTestId("submit"));
+  await waitFor(() => expect(submit).toHaveBeenCalledTimes(1));
+  expect(submit).toHaveBeenCalledWith({ name: "Jane" }, expect.anything());
+});
+
+it("should restore the default value when the input mounts again", async () => {
+  render(<TestComp shouldUnregister onSubmit={vi.fn()} />);
+
+  await userEvent.type(screen.getByTestId("nickname"), "!!");
+  await userEvent.click(screen.getByTestId("toggle"));
+  await waitFor(() => {
+    expect(screen.getByTestId("value")).toHaveTextContent('{"name":"Jane"}');
+  });
+
+  await userEvent.click(screen.getByTestId("toggle"));
+  expect(screen.getByTestId("nickname")).toHaveValue("JJ");
+  expect(screen.getByTestId("value")).toHaveTextContent(
+    '{"name":"Jane","nickname":"JJ"}',
+  );
+});
+
+it("should keep fields that are still mounted", async () => {
+  render(<TestComp shouldUnregister onSubmit={vi.fn()} />);
+
+  await userEvent.type(screen.getByTestId("name"), "t");
+  await userEvent.type(screen.getByTestId("nickname"), "!!");
+  await waitFor(() => {
+    expect(screen.getByTestId("value")).toHaveTextContent(
+      '{"name":"Janet","nickname":"JJ!!"}',
+    );
+  });
+});
+
+it("should keep the value by default", async () => {
+  const submit = vi.fn();
+  render(<TestComp onSubmit={submit} />);
+
+  await userEvent.click(screen.getByTestId("toggle"));
+  await userEvent.click(screen.getByTestId("submit"));
+  await waitFor(() => expect(submit).toHaveBeenCalledTimes(1));
+  expect(submit).toHaveBeenCalledWith(
+    { name: "Jane", nickname: "JJ" },
+    expect.anything(),
+  );
+});
+
+it("should let individual fields override the form", async () => {
+  const submit = vi.fn();
+  const { unmount } = render(
+    <TestComp fieldShouldUnregister onSubmit={submit} />,
+  );
+
+  await userEvent.click(screen.getByTestId("toggle"));
+  await userEvent.click(screen.getByTestId("submit"));
+  await waitFor(() => expect(submit).toHaveBeenCalledTimes(1));
+  expect(submit).toHaveBeenCalledWith({ name: "Jane" }, expect.anything());
+  unmount();
+
+  render(
+    <TestComp
+      shouldUnregister
+      fieldShouldUnregister={false}
+      onSubmit={submit}
+    />,
+  );
+
+  await userEvent.click(screen.getByTestId("toggle"));
+  await userEvent.click(screen.getByTestId("submit"));
+  await waitFor(() => expect(submit).toHaveBeenCalledTimes(2));
+  expect(submit).toHaveBeenLastCalledWith(
+    { name: "Jane", nickname: "JJ" },
+    expect.anything(),
+  );
+});
+
+it("should unregister controlled fields", async () => {
+  const submit = vi.fn();
+
+  const Controlled = ({ scope }: { scope: FormScope<number> }) => {
+    const field = useField(scope);
+    const props = field.getControlProps({ shouldUnregister: true });
+    return (
+      <button
+        type="button"
+        data-testid="count"
+        ref={props.ref}
+        onClick={() => props.onChange(props.value + 1)}
+      >
+        {props.value}
+      </button>
+    );
+  };
+
+  const TestComp = () => {
+    const [show, setShow] = useState(true);
+    const form = useForm({
+      defaultValues: { count: 0 },
+      validator: successValidator,
+      submitSource: "state",
+      handleSubmit: submit,
+    });
+
+    return (
+      <form {...form.getFormProps()}>
+        {show && <Controlled scope={form.scope("count")} />}
+        <button
+          type="button"
+          data-testid="toggle"
+          onClick={() => setShow((prev) => !prev)}
+        />
+        <button type="submit" data-testid="submit" />
+      </form>
+    );
+  };
+
+  render(<TestComp />);
+
+  await userEvent.click(screen.getByTestId("count"));
+  expect(screen.getByTestId("count")).toHaveTextContent("1");
+
+  await userEvent.click(screen.getByTestId("toggle"));
+  await userEvent.click(screen.getByTestId("submit"));
+  await waitFor(() => expect(submit).toHaveBeenCalledTimes(1));
+  expect(submit).toHaveBeenCalledWith({}, expect.anything());
+
+  await userEvent.click(screen.getByTestId("toggle"));
+  expect(screen.getByTestId("count")).toHaveTextContent("0");
+});
+
+it("should keep the values and state of the other array items", async () => {
+  const TestComp = () => {
+    const [showMiddle, setShowMiddle] = useState(true);
+    const form = useForm({
+      defaultValues: { tags: ["a", "b", "c"] },
+      validator: successValidator,
+      submitSource: "state",
+      shouldUnregister: true,
+      handleSubmit: vi.fn(),
+    });
+
+    return (
+      <form {...form.getFormProps()}>
+        <input data-testid="tag-0" {...form.getInputProps("tags[0]")} />
+        {showMiddle && (
+          <input data-testid="tag-1" {...form.getInputProps("tags[1]")} />
+        )}
+        <input data-testid="tag-2" {...form.getInputProps("tags[2]")} />
+        <pre data-testid="touched">{String(form.touched("tags[2]"))}</pre>
+        <button
+          type="button"
+          data-testid="toggle"
+          onClick={() => setShowMiddle((prev) => !prev)}
+        />
+      </form>
+    );
+  };
+
+  render(<TestComp />);
+
+  await userEvent.type(screen.getByTestId("tag-2"), "!");
+  await userEvent.tab();
+  expect(screen.getByTestId("touched")).toHaveTextContent("true");
+
+  await userEvent.click(screen.getByTestId("toggle"));
+  await waitFor(() => {
+    expect(screen.queryByTestId("tag-1")).not.toBeInTheDocument();
+  });
+  expect(screen.getByTestId("tag-0")).toHaveValue("a");
+  expect(screen.getByTestId("tag-2")).toHaveValue("c!");
+  expect(screen.getByTestId("touched")).toHaveTextContent("true");
+});
@@ -2,7 +2,12 @@ import { fireEvent, render, screen, waitFor } from "@testing-library/react";
 import { useForm } from "../useForm";
 import userEvent from "@testing-library/user-event";
 import { RenderCounter } from "./util/RenderCounter";
-import { FieldErrors, FormScope, createValidator } from "@rvf/core";
+import {
+  FieldErrors,
+  FieldWarnings,
+  FormScope,
+  createValidator,
+} from "@rvf/core";
 import { useField } from "../field";
 
 it("should validate on onBlur, then on change after that", async () => {
@@ -550,3 +555,196 @@ it("should use the data from the form when validating in DOM mode, but with cons
   expect(screen.getByTestId("error-0")).toHaveTextContent("how dare you");
   expect(screen.getByTestId("error-1")).toHaveTextContent("how dare you");
 });
+
+it("should show warnings without blocking submission", async () => {
+  const submit = vi.fn();
+
+  const Password = ({ scope }: { scope: FormScope<string> }) => {
+    const field = useField(scope);
+    return (
+      <>
+        <input data-testid="password" {...field.getInputProps()} />
+        <pre data-testid="password-warning">{field.warning()}</pre>
+      </>
+    );
+  };
+
+  const TestComp = () => {
+    const form = useForm({
+      defaultValues: { email: "", password: "" },
+      validator: createValidator({
+        validate: (data) => {
+          const warnings: FieldWarnings = {};
+          if (!data.email.endsWith(".com"))
+            warnings.email = "unusual email domain";
+          if (data.password.length < 8) warnings.password = "weak password";
+          return Promise.resolve({ data, error: undefined, warnings });
+        },
+      }),
+      handleSubmit: submit,
+    });
+
+    return (
+      <form {...form.getFormProps()} data-testid="form">
+        <input data-testid="email" {...form.getInputProps("email")} />
+        <pre data-testid="email-warning">{form.warning("email")}</pre>
+        <Password scope={form.scope("password")} />
+      </form>
+    );
+  };
+
+  render(<TestComp />);
+
+  await userEvent.type(screen.getByTestId("email"), "bob@example.zzz");
+  await userEvent.click(screen.getByTestId("form")); // blur
+
+  await waitFor(() =>
+    expect(screen.getByTestId("email-warning")).toHaveTextContent(
+      "unusual email domain",
+    ),
+  );
+  // Untouched fields don't show warnings yet
+  expect(screen.getByTestId("password-warning")).toBeEmptyDOMElement();
+
+  fireEvent.submit(screen.getByTestId("form"));
+  await waitFor(() => expect(submit).toHaveBeenCalledTimes(1));
+  expect(screen.getByTestId("password-warning")).toHaveTextContent(
+    "weak password",
+  );
+
+  await userEvent.type(
+    screen.getByTestId("email"),
+    "{Backspace}{Backspace}{Backspace}com",
+  );
+  await waitFor(() =>
+    expect(screen.getByTestId("email-warning")).toBeEmptyDOMElement(),
+  );
+});
+
+it("should be possible to access every error message for a field", async () => {
+  const Password = ({ scope }: { scope: FormScope<string> }) => {
+    const field = useField(scope);
+    return (
+      <>
+        <input data-testid="password" {...field.getInputProps()} />
+        <ul data-testid="password-errors">
+          {field.errors().map((error) => (
+            <li key={error}>{error}</li>
+          ))}
+        </ul>
+      </>
+    );
+  };
+
+  const TestComp = () => {
+    const form = useForm({
+      defaultValues: { password: "" },
+      validator: createValidator({
+        validate: (data) => {
+          const errors: string[] = [];
+          if (!/[0-9]/.test(data.password)) errors.push("needs a number");
+          if (!/[^a-zA-Z0-9]/.test(data.password))
+            errors.push("needs a symbol");
+          if (errors.length > 0)
+            return Promise.resolve({
+              data: undefined,
+              error: { password: errors },
+            });
+          return Promise.resolve({ data, error: undefined });
+        },
+      }),
+      handleSubmit: vi.fn(),
+    });
+
+    return (
+      <form {...form.getFormProps()} data-testid="form">
+        <Password scope={form.scope("password")} />
+        <pre data-testid="password-error">{form.error("password")}</pre>
+      </form>
+    );
+  };
+
+  render(<TestComp />);
+
+  await userEvent.type(screen.getByTestId("password"), "abc");
+  await userEvent.click(screen.getByTestId("form")); // blur
+
+  await waitFor(() =>
+    expect(screen.getByTestId("password-errors").children).toHaveLength(2),
+  );
+  expect(screen.getByTestId("password-errors")).toHaveTextContent(
+    "needs a numberneeds a symbol",
+  );
+  expect(screen.getByTestId("password-error")).toHaveTextContent(
+    "needs a number",
+  );
+
+  await userEvent.type(screen.getByTestId("password"), "1");
+  await waitFor(() =>
+    expect(screen.getByTestId("password-errors").children).toHaveLength(1),
+  );
+  expect(screen.getByTestId("password-error")).toHaveTextContent(
+    "needs a symbol",
+  );
+});
+
+it("should only validate the changed field when the validator supports it", async () => {
+  const submit = vi.fn();
+  const validate = vi.fn(async (data: any) => {
+    const errors: FieldErrors = {};
+    if (data.foo.length < 3) errors.foo = "foo too short";
+    if (data.bar.length < 3) errors.bar = "bar too short";
+    if (Object.keys(errors).length > 0)
+      return { data: undefined, error: errors };
+    return { data, error: undefined };
+  });
+  const validateField = vi.fn(async (fieldName: string, data: any) =>
+    data[fieldName].length < 3
+      ? { error: { [fieldName]: `${fieldName} too short` } }
+      : {},
+  );
+
+  const TestComp = () => {
+    const form = useForm({
+      defaultValues: { foo: "", bar: "" },
+      validator: createValidator({ validate, validateField }),
+      handleSubmit: submit,
+    });
+
+    return (
+      <form {...form.getFormProps()}>
+        <input data-testid="foo" {...form.getInputProps("foo")} />
+        <pre data-testid="foo-error">{form.error("foo")}</pre>
+        <input data-testid="bar" {...form.getInputProps("bar")} />
+        <pre data-testid="bar-error">{form.error("bar")}</pre>
+        <button type="submit" data-testid="submit" />
+      </form>
+    );
+  };
+
+  render(<TestComp />);
+
+  await userEvent.click(screen.getByTestId("submit"));
+  await waitFor(() => {
+    expect(screen.getByTestId("foo-error")).toHaveTextContent("foo too short");
+  });
+  expect(screen.getByTestId("bar-error")).toHaveTextContent("bar too short");
+  expect(validate).toHaveBeenCalledTimes(1);
+
+  await userEvent.type(screen.getByTestId("foo"), "test");
+  await waitFor(() => {
+    expect(screen.getByTestId("foo-error")).toBeEmptyDOMElement();
+  });
+  expect(screen.getByTestId("bar-error")).toHaveTextContent("bar too short");
+  expect(validateField).toHaveBeenLastCalledWith(
+    "foo",
+    expect.objectContaining({ foo: "test" }),
+    expect.anything(),
+  );
+  expect(validate).toHaveBeenCalledTimes(1);
+
+  await userEvent.type(screen.getByTestId("bar"), "test");
+  await userEvent.click(screen.getByTestId("submit"));
+  await waitFor(() => expect(submit).toHaveBeenCalledTimes(1));
+  expect(validate).toHaveBeenCalledTimes(2);
+});
@@ -0,0 +1,284 @@
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { createValidator, FieldErrors, Validator } from "@rvf/core";
+import { useForm } from "../useForm";
+import { useFormWizard } from "../wizard";
+
+type Onboarding = {
+  name: string;
+  email: string;
+  address: { city: string };
+};
+
+const validator = createValidator<Onboarding>({
+  validate: async (data) => {
+    const errors: FieldErrors = {};
+    if (!data.name) errors.name = "Name is required";
+    if (!data.email) errors.email = "Email is required";
+    if (!data.address?.city) errors["address.city"] = "City is required";
+    if (Object.keys(errors).length > 0)
+      return { data: undefined, error: errors };
+    return { data: data as Onboarding, error: undefined };
+  },
+});
+
+const steps = [
+  { name: "profile", fields: ["name"] },
+  { name: "contact", fields: ["email"] },
+  { name: "address", fields: ["address"] },
+] as const;
+
+const TestComp = ({
+  defaultValues = { name: "", email: "", address: { city: "" } },
+  onSubmit = vi.fn(),
+  stepValidator = validator,
+}: {
+  defaultValues?: Onboarding;
+  onSubmit?: (data: Onboarding) => void;
+  stepValidator?: Validator<Onboarding>;
+}) => {
+  const form = useForm({
+    defaultValues,
+    validator: stepValidator,
+    submitSource: "state",
+    handleSubmit: onSubmit,
+  });
+  const wizard = useFormWizard(form.scope(), {
+    steps: steps.map((step) => ({ ...step, fields: [...step.fields] })),
+  });
+
+  return (
+    <form {...form.getFormProps()}>
+      <pre data-testid="step">{wizard.currentStepName}</pre>
+      <pre data-testid="status">
+        {steps
+          .map(
+            ({ name }) =>
+              `${name}:${wizard.isStepValid(name) ? "valid" : "invalid"}:${
+                wizard.isStepComplete(name) ? "complete" : "incomplete"
+              }`,
+          )
+          .join(",")}
+      </pre>
+
+      {wizard.currentStepName === "profile" && (
+        <>
+          <input data-testid="name" {...form.getInputProps("name")} />
+          <pre data-testid="name-error">{form.error("name")}</pre>
+        </>
+      )}
+      {wizard.currentStepName === "contact" && (
+        <>
+          <input data-testid="email" {...form.getInputProps("email")} />
+          <pre data-testid="email-error">{form.error("email")}</pre>
+        </>
+      )}
+      {wizard.currentStepName === "address" && (
+        <>
+          <input data-testid="city" {...form.getInputProps("address.city")} />
+          <pre data-testid="city-error">{form.error("address.city")}</pre>
+        </>
+      )}
+
+      <button type="button" data-testid="back" onClick={wizard.back} />
+      <button type="button" data-testid="next" onClick={wizard.next} />
+      <button
+        type="button"
+        data-testid="go-to-address"
+        onClick={() => wizard.goTo("address")}
+      />
+      <button type="submit" data-testid="submit" />
+    </form>
+  );
+};
+
+it("should only validate the fields of the current step", async () => {
+  render(<TestComp />);
+  expect(screen.getByTestId("step")).toHaveTextContent("profile");
+
+  await userEvent.click(screen.getByTestId("next"));
+  expect(await screen.findByText("Name is required")).toBeInTheDocument();
+  expect(screen.getByTestId("step")).toHaveTextContent("profile");
+  expect(screen.getByTestId("name")).toHaveFocus();
+  expect(screen.getByTestId("status")).toHaveTextContent(
+    "profile:invalid:incomplete,contact:valid:incomplete,address:valid:incomplete",
+  );
+
+  await userEvent.type(screen.getByTestId("name"), "Jane");
+  await userEvent.click(screen.getByTestId("next"));
+  await waitFor(() => {
+    expect(screen.getByTestId("step")).toHaveTextContent("contact");
+  });
+  expect(screen.getByTestId("email-error")).toBeEmptyDOMElement();
+  expect(screen.getByTestId("status")).toHaveTextContent(
+    "profile:valid:complete,contact:valid:incomplete,address:valid:incomplete",
+  );
+});
+
+it("should go back without validating", async () => {
+  render(
+    <TestComp
+      defaultValues={{ name: "Jane", email: "", address: { city: "" } }}
+    />,
+  );
+
+  await userEvent.click(screen.getByTestId("next"));
+  await waitFor(() => {
+    expect(screen.getByTestId("step")).toHaveTextContent("contact");
+  });
+
+  await userEvent.click(screen.getByTestId("back"));
+  expect(screen.getByTestId("step")).toHaveTextContent("profile");
+  expect(screen.getByTestId("name")).toHaveValue("Jane");
+  expect(screen.getByTestId("status")).toHaveTextContent(
+    "profile:valid:complete,contact:valid:incomplete",
+  );
+});
+
+it("should stop at the first invalid step when going forward", async () => {
+  render(
+    <TestComp
+      defaultValues={{ name: "Jane", email: "", address: { city: "" } }}
+    />,
+  );
+
+  await userEvent.click(screen.getByTestId("go-to-address"));
+  expect(await screen.findByText("Email is required")).toBeInTheDocument();
+  expect(screen.getByTestId("step")).toHaveTextContent("contact");
+  expect(screen.getByTestId("email")).toHaveFocus();
+  expect(screen.getByTestId("status")).toHaveTextContent(
+    "profile:valid:complete,contact:invalid:incomplete,address:valid:incomplete",
+  );
+
+  await userEvent.type(screen.getByTestId("email"), "jane@example.com");
+  await userEvent.click(screen.getByTestId("go-to-address"));
+  await waitFor(() => {
+    expect(screen.getByTestId("step")).toHaveTextContent("address");
+  });
+  expect(screen.getByTestId("city-error")).toBeEmptyDOMElement();
+});
+
+it("should only validate the fields of the step when the validator supports it", async () => {
+  const validate = vi.fn(validator.validate);
+  const validateField = vi.fn(async () => ({}));
+  render(
+    <TestComp
+      defaultValues={{ name: "Jane", email: "", address: { city: "" } }}
+      stepValidator={{ validate, validateField }}
+    />,
+  );
+
+  await userEvent.click(screen.getByTestId("next"));
+  await waitFor(() => {
+    expect(screen.getByTestId("step")).toHaveTextContent("contact");
+  });
+  expect(validateField).toHaveBeenCalledWith(
+    "name",
+    expect.anything(),
+    expect.anything(),
+  );
+  expect(validate).not.toHaveBeenCalled();
+});
+
+it("should stay on the step the user moved to while the step was validating", async () => {
+  let finishValidation = () => {};
+  const slowValidator: Validator<Onboarding> = {
+    validate: (data, options) =>
+      new Promise((resolve) => {
+        finishValidation = () => resolve(validator.validate(data, options));
+      }),
+  };
+  render(
+    <TestComp
+      defaultValues={{
+        name: "Jane",
+        email: "jane@example.com",
+        address: { city: "" },
+      }}
+      stepValidator={slowValidator}
+    />,
+  );
+
+  await userEvent.click(screen.getByTestId("next"));
+  finishValidation();
+  await waitFor(() => {
+    expect(screen.getByTestId("step")).toHaveTextContent("contact");
+  });
+
+  await userEvent.click(screen.getByTestId("next"));
+  await userEvent.click(screen.getByTestId("back"));
+  expect(screen.getByTestId("step")).toHaveTextContent("profile");
+
+  finishValidation();
+  await waitFor(() => {
+    expect(screen.getByTestId("status")).toHaveTextContent(
+      "contact:valid:complete",
+    );
+  });
+  expect(screen.getByTestId("step")).toHaveTextContent("profile");
+});
+
+it("should move to the first step with an error when the submission is invalid", async () => {
+  const submit = vi.fn();
+  render(
+    <TestComp
+      defaultValues={{ name: "Jane", email: "", address: { city: "" } }}
+      onSubmit={submit}
+    />,
+  );
+
+  await userEvent.click(screen.getByTestId("submit"));
+  await waitFor(() => {
+    expect(screen.getByTestId("step")).toHaveTextContent("contact");
+  });
+  expect(screen.getByTestId("email-error")).toHaveTextContent(
+    "Email is required",
+  );
+  expect(screen.getByTestId("email")).toHaveFocus();
+  expect(screen.getByTestId("status")).toHaveTextContent(
+    "profile:valid:incomplete,contact:invalid:incomplete,address:invalid:incomplete",
+  );
+  expect(submit).not.toHaveBeenCalled();
+});
+
+it("should work with scoped forms", async () => {
+  const ScopedComp = () => {
+    const form = useForm({
+      defaultValues: { onboarding: { name: "", email: "" } },
+      validator: createValidator<{ onboarding: { name: string } }>({
+        validate: async (data) => {
+          if (!data.onboarding.name)
+            return {
+              data: undefined,
+              error: { "onboarding.name": "Name is required" },
+            };
+          return { data: data as never, error: undefined };
+        },
+      }),
+      submitSource: "state",
+      handleSubmit: vi.fn(),
+    });
+    const wizard = useFormWizard(form.scope("onboarding"), {
+      steps: [
+        { name: "profile", fields: ["name"] },
+        { name: "contact", fields: ["email"] },
+      ],
+    });
+
+    return (
+      <form {...form.getFormProps()}>
+        <pre data-testid="step">{wizard.currentStepName}</pre>
+        <pre data-testid="error">{form.error("onboarding.name")}</pre>
+        <button type="button" data-testid="next" onClick={wizard.next} />
+      </form>
+    );
+  };
+
+  render(<ScopedComp />);
+
+  await userEvent.click(screen.getByTestId("next"));
+  await waitFor(() => {
+    expect(screen.getByTestId("error")).toHaveTextContent("Name is required");
+  });
+  expect(screen.getByTestId("step")).toHaveTextContent("profile");
+});
@@ -9,9 +9,15 @@ import {
   StateSubmitHandler,
   DomSubmitHandler,
   BeforeSubmitApi,
+  PersistOptions,
+  HistoryOptions,
+  ConditionalField,
+  ComputedField,
 } from "@rvf/core";
+import { ValidStringPaths } from "@rvf/set-get";
 import { FormApi, useFormInternal } from "./base";
-import { FieldErrors } from "@rvf/core";
+import { AllFieldErrors, FieldErrors } from "@rvf/core";
+import { FormAction, useFormAction } from "./formAction";
 
 const noOp = () => {};
 
@@ -47,7 +53,7 @@ export type FormOpts<
    * See [these docs](https://rvf-js.io/validation-library-support) for more details
    * and information on how to create a validator for other validation libraries.
    */
-  validator: Validator<FormOutputData>;
+  validator: Validator<FormOutputData, FieldErrors | AllFieldErrors>;
 
   /**
    * Called before when the form is submitted before any validations are run.
@@ -118,6 +124,13 @@ export type FormOpts<
    */
   reloadDocument?: boolean;
 
+  /**
+   * Removes a field's value, along with its touched, dirty and error state, when all of its inputs unmount.
+   * If the field is mounted again, it starts over with its default value.
+   * This can also be set for individual fields by passing `shouldUnregister` to `getInputProps` or `getControlProps`.
+   */
+  shouldUnregister?: boolean;
+
   /**
    * Optionally, you can pass other props to the form element here.
    * This is primarily useful for writing custom hooks around `useForm`.
@@ -132,7 +145,98 @@ export type FormOpts<
    * **CAREFUL**: this will cause an update every time the identity of `serverValidationErrors` changes.
    * So make sure the identity of `serverValidationErrors` is stable.
    */
-  serverValidationErrors?: FieldErrors;
+  serverValidationErrors?: FieldErrors | AllFieldErrors;
+
+  /**
+   * Saves a draft of the form to storage as the user fills it out,
+   * and restores it the next time the form is mounted.
+   * The draft is cleared after the form is submitted successfully.
+   *
+   * The form is restored before the first render, so only `storage` that can be read synchronously is supported.
+   * During server rendering there is no storage, so the draft is restored when the form is created on the client.
+   */
+  persist?: PersistOptions;
+
+  /**
+   * Records changes to the form so they can be undone with `form.history.undo()`.
+   * Pass `true` to use the default options.
+   */
+  history?: boolean | HistoryOptions;
+
+  /**
+   * Fields that are only active under certain conditions, like a "company name" field that only shows up
+   * for business accounts. The keys are field names and the values describe when the field is active.
+   * Inactive fields (and any fields nested inside them) are left out of validation and submission,
+   * and their errors, touched and dirty states are cleared.
+   *
+   * @example
+   * ```ts
+   * conditionalFields: {
+   *   companyName: {
+   *     when: (values) => values.accountType === "business",
+   *     whenReactivated: "reset",
+   *   },
+   * }
+   * ```
+   */
+  conditionalFields?: {
+    [Field in ValidStringPaths<FormInputData>]?: ConditionalField<FormInputData>;
+  };
+
+  /**
+   * Fields whose values are computed from the other values of the form, like the total of an invoice.
+   * Computed fields are updated in the same update as the values they depend on,
+   * can't be changed by the user, and never become dirty or touched.
+   * They're left out of validation and submission unless `includeInSubmission` is set.
+   *
+   * @example
+   * ```ts
+   * computedFields: {
+   *   total: {
+   *     compute: (values) =>
+   *       values.lines.reduce((sum, line) => sum + line.qty * line.price, 0),
+   *   },
+   * }
+   * ```
+   */
+  computedFields?: {
+    [Field in ValidStringPaths<FormInputData>]?: ComputedField<FormInputData>;
+  };
+
+  /**
+   * Declares which fields depend on the values of other fields.
+   * The keys are field names and the values are the fields they depend on.
+   * When a field changes, the fields that depend on it are revalidated too,
+   * as long as their validation behavior would validate them on change.
+   *
+   * @example
+   * ```ts
+   * fieldDependencies: {
+   *   confirmPassword: ["password"],
+   * }
+   * ```
+   */
+  fieldDependencies?: {
+    [Field in ValidStringPaths<FormInputData>]?: ValidStringPaths<FormInputData>[];
+  };
+
+  /**
+   * A React action to submit the form with, like the `dispatch` function returned from `useActionState`.
+   * When the form is valid, the action is called with the `FormData` of the form inside a transition,
+   * and `isSubmitting` stays `true` until the transition is no longer pending.
+   * If you also pass `handleSubmit`, `handleSubmit` is used instead.
+   * In React 19, `getFormProps` also sets it as the `action` prop of the form,
+   * so the form can submit to the action before JS has loaded.
+   * _Note_: This is only supported in the `dom` submit source.
+   */
+  formAction?: FormAction;
+
+  /**
+   * The state returned from `useActionState`.
+   * If the state is a `ValidationErrorResponseData` object for this form, the errors are shown on the form
+   * and `onSubmitFailure` is called. Otherwise, `onSubmitSuccess` is called with the state.
+   */
+  actionState?: unknown;
 } & FormSubmitOpts<FormOutputData, SubmitResponseData>;
 
 const maybeThen = <T,>(
@@ -159,7 +263,6 @@ export function useForm<
   // everything from below
   const {
     validator,
-    handleSubmit: onSubmit,
     onSubmitSuccess,
     onSubmitFailure,
     onBeforeSubmit,
@@ -167,19 +270,36 @@ export function useForm<
     submitSource,
     action,
     disableFocusOnError,
-    serverValidationErrors,
+    shouldUnregister,
     resetAfterSubmit,
     otherFormProps,
     reloadDocument,
     validationBehaviorConfig,
+    persist,
+    history,
+    conditionalFields,
+    computedFields,
+    fieldDependencies,
+    formAction,
+    actionState,
     id: providedFormId,
   } = options;
 
+  const formActionOptions = useFormAction({
+    formAction,
+    actionState,
+    formId: providedFormId,
+    defaultValues: options.defaultValues,
+  });
+  const onSubmit = options.handleSubmit ?? formActionOptions.handleSubmit;
+  const serverValidationErrors =
+    options.serverValidationErrors ?? formActionOptions.serverValidationErrors;
+
   const defaultFormId = useId();
 
   const [form] = useState<FormScope<unknown>>(() => {
     const rvf = createFormScope({
-      defaultValues: options.defaultValues ?? {},
+      defaultValues: formActionOptions.defaultValues ?? {},
       serverValidationErrors: serverValidationErrors ?? {},
       validator,
       onBeforeSubmit: onBeforeSubmit as never,
@@ -191,6 +311,7 @@ export function useForm<
           if (formElement) formElement.reset();
           else form.__store__.store.getState().reset();
         }
+        form.__store__.persistence?.clear();
       },
       onInvalidSubmit: onInvalidSubmit ?? noOp,
       onSubmitFailure: onSubmitFailure ?? noOp,
@@ -204,7 +325,14 @@ export function useForm<
       flags: {
         disableFocusOnError: disableFocusOnError ?? false,
         reloadDocument: reloadDocument ?? false,
+        shouldUnregister: shouldUnregister ?? false,
       },
+      persist,
+      history: history === true ? {} : history || undefined,
+      conditionalFields,
+      computedFields,
+      fieldDependencies,
+      formAction,
     });
     return rvf;
   });
@@ -213,7 +341,15 @@ export function useForm<
     return registerFormElementEvents(form.__store__);
   }, [form.__store__]);
 
-  const { initial, whenSubmitted, whenTouched } =
+  useEffect(() => {
+    return form.__store__.persistence?.subscribe();
+  }, [form.__store__]);
+
+  useEffect(() => {
+    return form.__store__.history?.subscribe();
+  }, [form.__store__]);
+
+  const { initial, whenSubmitted, whenTouched, debounce } =
     validationBehaviorConfig ?? {};
 
   useEffect(() => {
@@ -229,10 +365,12 @@ export function useForm<
             if (formElement) formElement.reset();
             else form.__store__.store.getState().reset();
           }
+          form.__store__.persistence?.clear();
         });
       },
       onInvalidSubmit,
       onSubmitFailure,
+      formAction,
     });
   }, [
     validator,
@@ -245,8 +383,19 @@ export function useForm<
     form.__store__.formRef,
     onInvalidSubmit,
     onBeforeSubmit,
+    form.__store__.persistence,
+    formAction,
   ]);
 
+  // These are usually declared inline, so they're kept up to date without being effect dependencies
+  useEffect(() => {
+    Object.assign(form.__store__.mutableImplStore, {
+      conditionalFields,
+      computedFields,
+      fieldDependencies,
+    });
+  });
+
   useEffect(() => {
     form.__store__.store.getState().syncOptions({
       submitSource: submitSource ?? "dom",
@@ -256,6 +405,7 @@ export function useForm<
               initial,
               whenSubmitted,
               whenTouched,
+              debounce,
             }
           : undefined,
       formProps: {
@@ -266,6 +416,7 @@ export function useForm<
       flags: {
         disableFocusOnError: disableFocusOnError ?? false,
         reloadDocument: reloadDocument ?? false,
+        shouldUnregister: shouldUnregister ?? false,
       },
     });
   }, [
@@ -274,12 +425,14 @@ export function useForm<
     submitSource,
     whenSubmitted,
     whenTouched,
+    debounce,
     action,
     providedFormId,
     defaultFormId,
     disableFocusOnError,
     otherFormProps,
     reloadDocument,
+    shouldUnregister,
   ]);
 
   useEffect(() => {
@@ -0,0 +1,236 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  FormScope,
+  FormStoreValue,
+  isFieldWithin,
+  scopeFormScope,
+} from "@rvf/core";
+import { ValidStringPaths } from "@rvf/set-get";
+
+export type FormWizardStep<FormInputData> = {
+  /**
+   * A unique name for the step. You can pass this to `goTo`.
+   */
+  name: string;
+
+  /**
+   * The fields that are part of this step.
+   * Any fields nested inside them are also part of the step.
+   */
+  fields: ValidStringPaths<FormInputData>[];
+};
+
+export type UseFormWizardOpts<FormInputData> = {
+  steps: FormWizardStep<FormInputData>[];
+
+  /**
+   * The step to start on, either as an index or a step name.
+   * Defaults to the first step with a validation error, or the first step if there are no errors.
+   */
+  initialStep?: number | string;
+};
+
+export interface FormWizardApi {
+  /**
+   * The index of the step the user is on.
+   */
+  currentStep: number;
+
+  /**
+   * The name of the step the user is on.
+   */
+  currentStepName: string;
+
+  stepCount: number;
+  isFirstStep: boolean;
+  isLastStep: boolean;
+
+  /**
+   * Validates the fields of the current step and, if they're valid, moves to the next step.
+   * Resolves to `true` if the step was valid.
+   * On the last step, this only validates the step. Submit the form to finish the wizard.
+   */
+  next: () => Promise<boolean>;
+
+  /**
+   * Moves to the previous step without validating the current one.
+   */
+  back: () => void;
+
+  /**
+   * Moves to the given step.
+   * Moving forward validates every step along the way,
+   * and stops at the first step that is invalid.
+   * Resolves to `true` if the wizard made it to the given step.
+   */
+  goTo: (step: number | string) => Promise<boolean>;
+
+  /**
+   * Checks if the step has no validation errors.
+   * Steps that haven't been validated yet are valid unless they have errors from the server.
+   * @willRerender
+   */
+  isStepValid: (step: number | string) => boolean;
+
+  /**
+   * Checks if the step has been validated successfully and is still valid.
+   * @willRerender
+   */
+  isStepComplete: (step: number | string) => boolean;
+}
+
+const hasErrorsIn = (
+  errors: FormStoreValue["validationErrors"],
+  fieldNames: string[],
+) =>
+  Object.keys(errors).some((name) =>
+    fieldNames.some((path) => isFieldWithin(name, path)),
+  );
+
+/**
+ * Splits a form into multiple steps.
+ * Each step only validates its own fields when moving to the next step.
+ * When the form is submitted, the whole form is validated
+ * and the wizard moves to the first step with an error.
+ *
+ * Since the fields of the other steps aren't rendered,
+ * you'll usually want to use `submitSource: "state"` with a wizard.
+ *
+ * @example
+ * ```tsx
+ * const form = useForm({ validator, submitSource: "state", ... });
+ * const wizard = useFormWizard(form.scope(), {
+ *   steps: [
+ *     { name: "account", fields: ["email", "password"] },
+ *     { name: "address", fields: ["address"] },
+ *   ],
+ * });
+ * ```
+ */
+export function useFormWizard<FormInputData>(
+  form: FormScope<FormInputData>,
+  { steps, initialStep }: UseFormWizardOpts<FormInputData>,
+): FormWizardApi {
+  const { store, useStoreState } = form.__store__;
+  const trackedState = useStoreState();
+
+  // Step fields are relative to the scope
+  const stepFields = steps.map((step) =>
+    step.fields.map(
+      (field) =>
+        scopeFormScope(form as FormScope<unknown>, field).__field_prefix__,
+    ),
+  );
+
+  const getStepIndex = (step: number | string) => {
+    const index =
+      typeof step === "number"
+        ? step
+        : steps.findIndex(({ name }) => name === step);
+    if (index < 0 || index >= steps.length)
+      throw new Error(`Unknown wizard step: ${step}`);
+    return index;
+  };
+
+  const getFirstStepWithError = (
+    errors: FormStoreValue["validationErrors"],
+  ) => {
+    const index = stepFields.findIndex((fields) => hasErrorsIn(errors, fields));
+    return index === -1 ? null : index;
+  };
+
+  const [currentStep, setCurrentStep] = useState(() => {
+    if (initialStep != null) return getStepIndex(initialStep);
+    return getFirstStepWithError(store.getState().validationErrors) ?? 0;
+  });
+  const [completedSteps, setCompletedSteps] = useState<Record<string, boolean>>(
+    {},
+  );
+
+  // The fields of a step aren't rendered until we move to it,
+  // so focusing the invalid field has to wait until then.
+  const shouldFocusError = useRef(false);
+  useEffect(() => {
+    if (!shouldFocusError.current) return;
+    shouldFocusError.current = false;
+    store.getState().focusFirstInvalidField();
+  }, [currentStep, store]);
+
+  const latest = useRef({ currentStep, getFirstStepWithError });
+  useEffect(() => {
+    latest.current = { currentStep, getFirstStepWithError };
+  });
+
+  // Move to the first invalid step when the submission fails
+  useEffect(
+    () =>
+      store.subscribe((state, prevState) => {
+        if (
+          state.submitStatus !== "error" ||
+          prevState.submitStatus === "error"
+        )
+          return;
+        const index = latest.current.getFirstStepWithError(
+          state.validationErrors,
+        );
+        // If the error is on the current step, the store has already focused it
+        if (index == null || index === latest.current.currentStep) return;
+        shouldFocusError.current = true;
+        setCurrentStep(index);
+      }),
+    [store],
+  );
+
+  const validateStep = async (index: number) => {
+    const errors = await store.getState().validateFields(stepFields[index]);
+    const isValid = Object.keys(errors).length === 0;
+    setCompletedSteps((prev) => ({ ...prev, [steps[index].name]: isValid }));
+    return isValid;
+  };
+
+  // The user can change steps while a step is validating,
+  // in which case the result of the validation doesn't move them.
+  const moveFrom = (from: number, to: number) =>
+    setCurrentStep((prev) => (prev === from ? to : prev));
+
+  const isStepValid = (step: number | string) =>
+    !hasErrorsIn(trackedState.validationErrors, stepFields[getStepIndex(step)]);
+
+  return {
+    currentStep,
+    currentStepName: steps[currentStep].name,
+    stepCount: steps.length,
+    isFirstStep: currentStep === 0,
+    isLastStep: currentStep === steps.length - 1,
+    next: async () => {
+      const from = latest.current.currentStep;
+      if (!(await validateStep(from))) {
+        store.getState().focusFirstInvalidField();
+        return false;
+      }
+      if (from < steps.length - 1) moveFrom(from, from + 1);
+      return true;
+    },
+    back: () => setCurrentStep((prev) => Math.max(prev - 1, 0)),
+    goTo: async (step) => {
+      const target = getStepIndex(step);
+      const from = latest.current.currentStep;
+      for (let index = from; index < target; index++) {
+        if (!(await validateStep(index))) {
+          if (index === from) {
+            store.getState().focusFirstInvalidField();
+          } else {
+            shouldFocusError.current = true;
+            moveFrom(from, index);
+          }
+          return false;
+        }
+      }
+      moveFrom(from, target);
+      return true;
+    },
+    isStepValid,
+    isStepComplete: (step) =>
+      !!completedSteps[steps[getStepIndex(step)].name] && isStepValid(step),
+  };
+}
@@ -51,6 +51,12 @@ export const ValidatedForm = <
   navigate,
   otherFormProps,
   reloadDocument,
+  shouldUnregister,
+  persist,
+  history,
+  conditionalFields,
+  computedFields,
+  fieldDependencies,
   ...rest
 }: ValidatedFormProps<FormInputData, FormOutputData, FormResponseData>) => {
   const rvf = useForm<FormInputData, FormOutputData>({
@@ -76,8 +82,14 @@ export const ValidatedForm = <
     navigate,
     otherFormProps,
     reloadDocument,
+    shouldUnregister,
     defaultValues,
     fetcher,
+    persist,
+    history,
+    conditionalFields,
+    computedFields,
+    fieldDependencies,
   } satisfies AllProps<RemixFormOpts<FormInputData, FormOutputData>>);
 
   return (
@@ -1,11 +1,16 @@
 export {
   type FieldErrors,
+  type AllFieldErrors,
+  type ValidatorFieldErrors,
+  type FieldWarnings,
+  type FieldValidator,
   type Validator,
   type Valid,
   type Invalid,
   type ValidationResult,
   type ValidationBehavior,
   type ValidationBehaviorConfig,
+  type ValidateOptions,
   type ValidatorData,
   type ValidationErrorResponseData,
   type ValidatorError,
@@ -50,6 +55,13 @@ export {
   type ScopedValues,
   type FieldValue,
   type BeforeSubmitApi,
+  type PersistOptions,
+  type DraftStorage,
+  type DraftSerializer,
+  type FormDraft,
+  type HistoryOptions,
+  type DeepPartial,
+  defaultDraftSerializer,
   useControlField,
   useUpdateControlledField,
   useIsValid,
@@ -4,7 +4,7 @@ import {
   useNavigation,
   useSubmit,
 } from "@remix-run/react";
-import { FieldErrors, GenericObject } from "@rvf/core";
+import { AllFieldErrors, FieldErrors, GenericObject } from "@rvf/core";
 import { useEffect, useRef } from "react";
 
 const withResolvers = () => {
@@ -47,7 +47,7 @@ export const useHasActiveFormSubmit = (
 
 export const useRemixSubmit = (
   fetcher?: FetcherWithComponents<unknown>,
-  serverValidationErrors?: FieldErrors,
+  serverValidationErrors?: FieldErrors | AllFieldErrors,
 ) => {
   const hasActiveSubmission = useHasActiveFormSubmit(fetcher);
   const resolver = useRef<ReturnType<typeof withResolvers>>();
@@ -1,5 +1,10 @@
 import { type TypedResponse } from "@remix-run/server-runtime";
-import { ValidationErrorResponseData, ValidatorError } from "@rvf/core";
+import {
+  AllFieldErrors,
+  FieldErrors,
+  ValidationErrorResponseData,
+  ValidatorError,
+} from "@rvf/core";
 
 /**
  * Takes the errors from a `Validator` and returns a `Response`.
@@ -18,8 +23,10 @@ import { ValidationErrorResponseData, ValidatorError } from "@rvf/core";
  * if (result.error) return validationError(result.error, result.submittedData);
  * ```
  */
-export function validationError(
-  error: ValidatorError,
+export function validationError<
+  Errors extends FieldErrors | AllFieldErrors = FieldErrors,
+>(
+  error: ValidatorError<Errors>,
   repopulateFields?: unknown,
   init?: ResponseInit,
 ) {
@@ -36,5 +43,5 @@ export function validationError(
         "Content-Type": "application/json; utf-8",
       },
     },
-  ) as TypedResponse<ValidationErrorResponseData>;
+  ) as TypedResponse<ValidationErrorResponseData<Errors>>;
 }
@@ -42,6 +42,8 @@ export type RemixFormOpts<
   | "serverValidationErrors"
   | "handleSubmit"
   | "submitSource"
+  | "formAction"
+  | "actionState"
 > &
   Pick<
     SubmitOptions,
@@ -0,0 +1,108 @@
+import { FORM_ID_FIELD_NAME, createValidator } from "@rvf/core";
+import { parseRequestBody, validateRequest, validationError } from "./fetch";
+
+const validator = createValidator<{ name: string }>({
+  validate: async (data) => {
+    if (!data.name)
+      return { data: undefined, error: { name: "Name is required" } };
+    return { data: { name: data.name }, error: undefined };
+  },
+});
+
+const url = "http://localhost/api/profile";
+
+describe("parseRequestBody", () => {
+  it("should parse urlencoded bodies", async () => {
+    const request = new Request(url, {
+      method: "POST",
+      body: new URLSearchParams({ name: "Jane" }),
+    });
+    const body = await parseRequestBody(request);
+    expect((body as FormData).get("name")).toBe("Jane");
+  });
+
+  it("should parse multipart bodies", async () => {
+    const formData = new FormData();
+    formData.append("name", "Jane");
+    const request = new Request(url, { method: "POST", body: formData });
+    const body = await parseRequestBody(request);
+    expect((body as FormData).get("name")).toBe("Jane");
+  });
+
+  it("should parse json bodies", async () => {
+    const request = new Request(url, {
+      method: "POST",
+      body: JSON.stringify({ name: "Jane" }),
+      headers: { "Content-Type": "application/json" },
+    });
+    expect(await parseRequestBody(request)).toEqual({ name: "Jane" });
+  });
+
+  it("should throw for other content types", async () => {
+    const request = new Request(url, {
+      method: "POST",
+      body: "name=Jane",
+      headers: { "Content-Type": "text/plain" },
+    });
+    await expect(parseRequestBody(request)).rejects.toThrow(
+      "Unable to validate a request with the content type `text/plain`",
+    );
+  });
+});
+
+describe("validateRequest", () => {
+  it("should validate the body of the request", async () => {
+    const request = new Request(url, {
+      method: "POST",
+      body: JSON.stringify({ name: "Jane" }),
+      headers: { "Content-Type": "application/json" },
+    });
+    const result = await validateRequest(validator, request);
+    expect(result.data).toEqual({ name: "Jane" });
+  });
+
+  it("should return the errors", async () => {
+    const request = new Request(url, {
+      method: "POST",
+      body: new URLSearchParams({ name: "", [FORM_ID_FIELD_NAME]: "profile" }),
+    });
+    const result = await validateRequest(validator, request);
+    expect(result.error).toEqual({
+      fieldErrors: { name: "Name is required" },
+      formId: "profile",
+    });
+  });
+});
+
+describe("validationError", () => {
+  it("should return a 422 json response", async () => {
+    const response = validationError(
+      { fieldErrors: { name: "Name is required" }, formId: "profile" },
+      { name: "" },
+    );
+
+    expect(response.status).toBe(422);
+    expect(response.headers.get("Content-Type")).toBe(
+      "application/json; charset=utf-8",
+    );
+    expect(await response.json()).toEqual({
+      fieldErrors: { name: "Name is required" },
+      formId: "profile",
+      repopulateFields: { name: "" },
+    });
+  });
+
+  it("should accept a custom init", async () => {
+    const response = validationError(
+      { fieldErrors: { name: "Name is required" } },
+      undefined,
+      { status: 400, headers: { "X-Custom": "yes" } },
+    );
+
+    expect(response.status).toBe(400);
+    expect(response.headers.get("X-Custom")).toBe("yes");
+    expect(response.headers.get("Content-Type")).toBe(
+      "application/json; charset=utf-8",
+    );
+  });
+});
@@ -0,0 +1,90 @@
+import {
+  AllFieldErrors,
+  FieldErrors,
+  GenericObject,
+  ValidationErrorResponseData,
+  ValidationResult,
+  Validator,
+  ValidatorError,
+} from "@rvf/core";
+
+/**
+ * Reads the body of a request as `FormData` or, for JSON requests, as an object.
+ * Supports `application/x-www-form-urlencoded`, `multipart/form-data` and `application/json` bodies.
+ */
+export const parseRequestBody = async (
+  request: Request,
+): Promise<FormData | GenericObject> => {
+  const contentType = request.headers.get("Content-Type") ?? "";
+
+  if (contentType.includes("application/json")) return request.json();
+  if (
+    contentType.includes("application/x-www-form-urlencoded") ||
+    contentType.includes("multipart/form-data")
+  )
+    return request.formData();
+
+  throw new Error(
+    `Unable to validate a request with the content type \`${contentType}\`. ` +
+      "Expected `application/x-www-form-urlencoded`, `multipart/form-data`, or `application/json`.",
+  );
+};
+
+/**
+ * Parses the body of the request and validates it with the given validator.
+ *
+ * @example
+ * ```ts
+ * const result = await validateRequest(validator, request);
+ * if (result.error) return validationError(result.error, result.submittedData);
+ * ```
+ */
+export const validateRequest = async <
+  DataType,
+  Errors extends FieldErrors | AllFieldErrors = FieldErrors,
+>(
+  validator: Validator<DataType, Errors>,
+  request: Request,
+): Promise<ValidationResult<DataType, Errors>> =>
+  validator.validate(await parseRequestBody(request));
+
+/**
+ * Creates the body of a validation error response.
+ */
+export const validationErrorBody = <
+  Errors extends FieldErrors | AllFieldErrors = FieldErrors,
+>(
+  error: ValidatorError<Errors>,
+  repopulateFields?: unknown,
+): ValidationErrorResponseData<Errors> => ({
+  fieldErrors: error.fieldErrors,
+  repopulateFields,
+  formId: error.formId,
+});
+
+/**
+ * Takes the errors from a `Validator` and returns a JSON `Response` with a 422 status code.
+ * You can use `readResponse` in your `handleSubmit` to show these errors on the form.
+ *
+ * You can also provide a second argument to `validationError`
+ * to specify how to repopulate the form when JS is disabled.
+ */
+export function validationError<
+  Errors extends FieldErrors | AllFieldErrors = FieldErrors,
+>(
+  error: ValidatorError<Errors>,
+  repopulateFields?: unknown,
+  init?: ResponseInit,
+) {
+  const headers = new Headers(init?.headers);
+  headers.set("Content-Type", "application/json; charset=utf-8");
+
+  return new Response(
+    JSON.stringify(validationErrorBody(error, repopulateFields)),
+    {
+      status: 422,
+      ...init,
+      headers,
+    },
+  );
+}
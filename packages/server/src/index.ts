@@ -0,0 +1,20 @@
+export {
+  parseRequestBody,
+  validateRequest,
+  validationError,
+  validationErrorBody,
+} from "./fetch";
+export { readResponse } from "./readResponse";
+export {
+  expressValidator,
+  fastifyValidator,
+  type ExpressRequestLike,
+  type ExpressResponseLike,
+  type ExpressNextFunction,
+  type FastifyRequestLike,
+  type FastifyReplyLike,
+} from "./node";
+export {
+  isValidationErrorResponse,
+  type ValidationErrorResponseData,
+} from "@rvf/core";
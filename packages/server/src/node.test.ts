@@ -0,0 +1,121 @@
+import { Validator, createValidator } from "@rvf/core";
+import { expressValidator, fastifyValidator } from "./node";
+
+const validator = createValidator<{ name: string }>({
+  validate: async (data) => {
+    if (!data.name)
+      return { data: undefined, error: { name: "Name is required" } };
+    return { data: { name: data.name }, error: undefined };
+  },
+});
+
+const createExpressResponse = () => {
+  const json = vi.fn();
+  const res = {
+    locals: {} as Record<string, any>,
+    status: vi.fn(() => ({ json })),
+  };
+  return { res, json };
+};
+
+describe("expressValidator", () => {
+  it("should put the validated data on res.locals", async () => {
+    const { res } = createExpressResponse();
+    const next = vi.fn();
+
+    expressValidator(validator)({ body: { name: "Jane" } }, res, next);
+
+    await vi.waitFor(() => expect(next).toHaveBeenCalledWith());
+    expect(res.locals.validatedData).toEqual({ name: "Jane" });
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it("should respond with the errors", async () => {
+    const { res, json } = createExpressResponse();
+    const next = vi.fn();
+
+    expressValidator(validator)({ body: { name: "" } }, res, next);
+
+    await vi.waitFor(() => expect(json).toHaveBeenCalled());
+    expect(res.status).toHaveBeenCalledWith(422);
+    expect(json).toHaveBeenCalledWith({
+      fieldErrors: { name: "Name is required" },
+      repopulateFields: { name: "" },
+    });
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("should unflatten url-encoded bodies with nested keys", async () => {
+    const validate = vi.fn(async (data: unknown) => ({
+      data,
+      error: undefined,
+      submittedData: data,
+    }));
+    const { res } = createExpressResponse();
+    const next = vi.fn();
+
+    expressValidator({ validate } as Validator<unknown>)(
+      {
+        body: {
+          "todos[0].title": "Buy milk",
+          "todos[1].title": "Walk the dog",
+          "owner.name": "Jane",
+        },
+      },
+      res,
+      next,
+    );
+
+    await vi.waitFor(() => expect(next).toHaveBeenCalledWith());
+    expect(validate).toHaveBeenCalledWith({
+      todos: [{ title: "Buy milk" }, { title: "Walk the dog" }],
+      owner: { name: "Jane" },
+    });
+  });
+
+  it("should pass thrown errors to next", async () => {
+    const error = new Error("Oops");
+    const throwingValidator = createValidator({
+      validate: async () => {
+        throw error;
+      },
+    });
+    const { res } = createExpressResponse();
+    const next = vi.fn();
+
+    expressValidator(throwingValidator)({ body: {} }, res, next);
+
+    await vi.waitFor(() => expect(next).toHaveBeenCalledWith(error));
+  });
+});
+
+describe("fastifyValidator", () => {
+  it("should put the validated data on the request", async () => {
+    const request: { body: unknown; validatedData?: unknown } = {
+      body: { name: "Jane" },
+    };
+    const reply = { code: vi.fn() };
+
+    await fastifyValidator(validator)(request, reply);
+
+    expect(request.validatedData).toEqual({ name: "Jane" });
+    expect(reply.code).not.toHaveBeenCalled();
+  });
+
+  it("should respond with the errors", async () => {
+    const send = vi.fn();
+    const request: { body: unknown; validatedData?: unknown } = {
+      body: { name: "" },
+    };
+    const reply = { code: vi.fn(() => ({ send })) };
+
+    await fastifyValidator(validator)(request, reply);
+
+    expect(reply.code).toHaveBeenCalledWith(422);
+    expect(send).toHaveBeenCalledWith({
+      fieldErrors: { name: "Name is required" },
+      repopulateFields: { name: "" },
+    });
+    expect(request.validatedData).toBeUndefined();
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  AllFieldErrors,
+  FieldErrors,
+  GenericObject,
+  Validator,
+  objectFromPathEntries,
+} from "@rvf/core";
+import { validationErrorBody } from "./fetch";
+
+// These are just the parts of Express and Fastify that we use,
+// so that neither is a dependency of this package.
+
+export type ExpressRequestLike = {
+  body?: unknown;
+};
+
+export type ExpressResponseLike = {
+  locals: Record<string, any>;
+  status: (code: number) => { json: (body: unknown) => unknown };
+};
+
+export type ExpressNextFunction = (err?: unknown) => void;
+
+export type FastifyRequestLike = {
+  body?: unknown;
+  validatedData?: unknown;
+};
+
+export type FastifyReplyLike = {
+  code: (statusCode: number) => { send: (payload?: unknown) => unknown };
+};
+
+/**
+ * URL-encoded bodies have flat keys like `todos[0].title`,
+ * so they're turned into nested objects the same way form data is.
+ */
+const unflattenBody = (body: unknown): GenericObject => {
+  const data = (body ?? {}) as GenericObject;
+  if (!Object.keys(data).some((key) => /[\[\]\.]/.test(key))) return data;
+  return objectFromPathEntries(Object.entries(data));
+};
+
+/**
+ * Creates an Express middleware that validates `req.body` with the given validator.
+ * Use it after a body parser like `express.json()` or `express.urlencoded()`.
+ *
+ * If the body is invalid, it responds with a 422 status code and the errors.
+ * Otherwise, the validated data is available on `res.locals.validatedData`.
+ *
+ * @example
+ * ```ts
+ * app.post("/api/profile", express.json(), expressValidator(validator), (req, res) => {
+ *   const data = res.locals.validatedData;
+ * });
+ * ```
+ */
+export const expressValidator =
+  <DataType>(validator: Validator<DataType, FieldErrors | AllFieldErrors>) =>
+  (
+    req: ExpressRequestLike,
+    res: ExpressResponseLike,
+    next: ExpressNextFunction,
+  ) => {
+    validator
+      .validate(unflattenBody(req.body))
+      .then((result) => {
+        if (result.error) {
+          res
+            .status(422)
+            .json(validationErrorBody(result.error, result.submittedData));
+          return;
+        }
+
+        res.locals.validatedData = result.data;
+        next();
+      })
+      .catch(next);
+  };
+
+/**
+ * Creates a Fastify `preHandler` hook that validates `request.body` with the given validator.
+ *
+ * If the body is invalid, it responds with a 422 status code and the errors.
+ * Otherwise, the validated data is available on `request.validatedData`.
+ *
+ * @example
+ * ```ts
+ * fastify.post(
+ *   "/api/profile",
+ *   { preHandler: fastifyValidator(validator) },
+ *   async (request) => {
+ *     const data = request.validatedData;
+ *   },
+ * );
+ * ```
+ */
+export const fastifyValidator =
+  <DataType>(validator: Validator<DataType, FieldErrors | AllFieldErrors>) =>
+  async (request: FastifyRequestLike, reply: FastifyReplyLike) => {
+    const result = await validator.validate(unflattenBody(request.body));
+
+    if (result.error) {
+      return reply
+        .code(422)
+        .send(validationErrorBody(result.error, result.submittedData));
+    }
+
+    request.validatedData = result.data;
+  };
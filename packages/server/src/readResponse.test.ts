@@ -0,0 +1,34 @@
+import { validationError } from "./fetch";
+import { readResponse } from "./readResponse";
+
+describe("readResponse", () => {
+  it("should return the json body of successful responses", async () => {
+    const response = new Response(JSON.stringify({ message: "Saved" }));
+    expect(await readResponse(response)).toEqual({ message: "Saved" });
+  });
+
+  it("should return undefined for empty responses", async () => {
+    expect(
+      await readResponse(new Response(null, { status: 204 })),
+    ).toBeUndefined();
+  });
+
+  it("should throw validation errors", async () => {
+    const response = validationError({
+      fieldErrors: { name: "Name is required" },
+    });
+    await expect(readResponse(response)).rejects.toEqual({
+      fieldErrors: { name: "Name is required" },
+    });
+  });
+
+  it("should throw an error for other failed responses", async () => {
+    const response = new Response("Oops", {
+      status: 500,
+      statusText: "Internal Server Error",
+    });
+    await expect(readResponse(response)).rejects.toThrow(
+      "Request failed with status 500 Internal Server Error",
+    );
+  });
+});
@@ -0,0 +1,41 @@
+import { isValidationErrorResponse } from "@rvf/core";
+
+/**
+ * Reads the JSON body of a response from your server.
+ * If the server responded with a validation error, the errors are thrown
+ * so that returning this from `handleSubmit` will show them on the form.
+ *
+ * @example
+ * ```tsx
+ * const form = useForm({
+ *   validator,
+ *   handleSubmit: async (data) => {
+ *     const response = await fetch("/api/profile", {
+ *       method: "POST",
+ *       body: JSON.stringify(data),
+ *       headers: { "Content-Type": "application/json" },
+ *     });
+ *     return readResponse(response);
+ *   },
+ * });
+ * ```
+ */
+export const readResponse = async <Data = unknown>(
+  response: Response,
+): Promise<Data> => {
+  if (response.ok) {
+    const text = await response.text();
+    return (text ? JSON.parse(text) : undefined) as Data;
+  }
+
+  if (response.status === 422) {
+    const body = await response.json().catch(() => undefined);
+    if (isValidationErrorResponse(body)) throw body;
+  }
+
+  throw new Error(
+    `Request failed with status ${response.status}${
+      response.statusText ? ` ${response.statusText}` : ""
+    }`,
+  );
+};
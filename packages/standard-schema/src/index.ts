@@ -0,0 +1,106 @@
+import {
+  type AllFieldErrors,
+  type FieldErrors,
+  type Validator,
+  type ValidatorFieldErrors,
+  createValidator,
+} from "@rvf/core";
+import { pathArrayToString } from "@rvf/set-get";
+import type { StandardSchemaV1 } from "./spec";
+
+export type { StandardSchemaV1 } from "./spec";
+
+// Issues without a path are for the whole form, so they end up under `""`
+function formatIssuePath(issue: StandardSchemaV1.Issue): string {
+  const pathArray = (issue.path ?? []).map((segment) => {
+    const key = typeof segment === "object" ? segment.key : segment;
+    return typeof key === "number" ? key : String(key);
+  });
+
+  return pathArrayToString(pathArray);
+}
+
+function parseIssues(
+  issues: ReadonlyArray<StandardSchemaV1.Issue>,
+): FieldErrors {
+  const parsedIssues: FieldErrors = {};
+
+  for (const issue of issues) {
+    const path = formatIssuePath(issue);
+    if (!parsedIssues[path]) parsedIssues[path] = issue.message;
+  }
+
+  return parsedIssues;
+}
+
+function parseAllIssues(
+  issues: ReadonlyArray<StandardSchemaV1.Issue>,
+): AllFieldErrors {
+  const parsedIssues: Record<string, string[]> = {};
+
+  for (const issue of issues) {
+    const path = formatIssuePath(issue);
+    parsedIssues[path] ??= [];
+    if (!parsedIssues[path].includes(issue.message))
+      parsedIssues[path].push(issue.message);
+  }
+
+  return parsedIssues;
+}
+
+export type WithStandardSchemaOptions<AllErrors extends boolean = boolean> = {
+  /**
+   * A schema for things the user should know about, but that shouldn't stop the form from being submitted.
+   * Any issues from this schema are shown as warnings instead of errors.
+   */
+  warnings?: StandardSchemaV1;
+
+  /**
+   * Return every error message for each field instead of only the first one.
+   * Use `errors(fieldName)` to access all the messages.
+   */
+  allErrors?: AllErrors;
+};
+
+/**
+ * Create a validator using any schema that implements Standard Schema v1.
+ */
+export function withStandardSchema<
+  Schema extends StandardSchemaV1,
+  AllErrors extends boolean = false,
+>(
+  schema: Schema,
+  options?: WithStandardSchemaOptions<AllErrors>,
+): Validator<
+  StandardSchemaV1.InferOutput<Schema>,
+  ValidatorFieldErrors<AllErrors>
+> {
+  const getWarnings = async (value: unknown) => {
+    if (!options?.warnings) return undefined;
+    const result = await options.warnings["~standard"].validate(value);
+    return result.issues ? parseIssues(result.issues) : undefined;
+  };
+
+  return createValidator<
+    StandardSchemaV1.InferOutput<Schema>,
+    ValidatorFieldErrors<AllErrors>
+  >({
+    validate: async (value) => {
+      const [result, warnings] = await Promise.all([
+        schema["~standard"].validate(value),
+        getWarnings(value),
+      ]);
+
+      if (!result.issues)
+        return { data: result.value, error: undefined, warnings };
+
+      return {
+        data: undefined,
+        error: (options?.allErrors
+          ? parseAllIssues(result.issues)
+          : parseIssues(result.issues)) as ValidatorFieldErrors<AllErrors>,
+        warnings,
+      };
+    },
+  });
+}
@@ -0,0 +1,168 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as semver from "semver";
+import { describe, it, expect, expectTypeOf } from "vitest";
+import { type Validator } from "@rvf/core";
+
+import { type StandardSchemaV1, withStandardSchema } from "./";
+
+const packageDir = path.join(__dirname, "..");
+const packageJsonPath = path.join(packageDir, "package.json");
+const corePackageJsonPath = path.join(packageDir, "../core/package.json");
+
+const createSchema = <Output>(
+  validate: StandardSchemaV1.Props<unknown, Output>["validate"],
+): StandardSchemaV1<unknown, Output> => ({
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate,
+  },
+});
+
+type Person = { name: string; tags: string[] };
+
+const personSchema = createSchema<Person>((value) => {
+  const input = value as Partial<Person>;
+  const issues: StandardSchemaV1.Issue[] = [];
+  if (!input.name) issues.push({ message: "Required", path: ["name"] });
+  if (input.name && input.name.length < 3)
+    issues.push({ message: "Too short", path: [{ key: "name" }] });
+  input.tags?.forEach((tag, index) => {
+    if (!tag)
+      issues.push({
+        message: "Empty tag",
+        path: [{ key: "tags" }, { key: index }],
+      });
+  });
+  if (issues.length > 0) return { issues };
+  return { value: { name: input.name!, tags: input.tags ?? [] } };
+});
+
+describe("withStandardSchema", () => {
+  it("returns the output of the schema when valid", async () => {
+    const obj = { name: "Jane", tags: ["a", "b"] };
+    expect(await withStandardSchema(personSchema).validate(obj)).toEqual({
+      data: obj,
+      error: undefined,
+      submittedData: obj,
+    });
+  });
+
+  it("maps issue paths with path segments to field names", async () => {
+    const obj = { tags: ["a", ""] };
+    expect(await withStandardSchema(personSchema).validate(obj)).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          name: "Required",
+          "tags[1]": "Empty tag",
+        },
+      },
+      submittedData: obj,
+    });
+  });
+
+  it("supports schemas that validate asynchronously", async () => {
+    const schema = createSchema<{ username: string }>(async (value) => {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      const { username } = value as { username: string };
+      if (username === "taken")
+        return {
+          issues: [{ message: "Username is taken", path: ["username"] }],
+        };
+      return { value: { username } };
+    });
+
+    expect(
+      await withStandardSchema(schema).validate({ username: "taken" }),
+    ).toMatchObject({
+      error: { fieldErrors: { username: "Username is taken" } },
+    });
+    expect(
+      await withStandardSchema(schema).validate({ username: "free" }),
+    ).toMatchObject({ data: { username: "free" }, error: undefined });
+  });
+
+  it("returns every error message for a field when allErrors is set", async () => {
+    const schema = createSchema<{ password: string }>(() => ({
+      issues: [
+        { message: "Needs a number", path: ["password"] },
+        { message: "Needs a symbol", path: [{ key: "password" }] },
+        { message: "Needs a number", path: ["password"] },
+      ],
+    }));
+    const obj = { password: "password" };
+
+    expect(
+      await withStandardSchema(schema, { allErrors: true }).validate(obj),
+    ).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          password: ["Needs a number", "Needs a symbol"],
+        },
+      },
+      submittedData: obj,
+    });
+  });
+
+  it("keys issues without a path under the root of the form", async () => {
+    type Passwords = { password: string; confirm: string };
+    const schema = createSchema<Passwords>((value) => {
+      const input = value as Passwords;
+      if (input.password !== input.confirm)
+        return { issues: [{ message: "Passwords must match", path: [] }] };
+      return { value: input };
+    });
+    const obj = { password: "abc", confirm: "abd" };
+
+    expect(await withStandardSchema(schema).validate(obj)).toEqual({
+      data: undefined,
+      error: { fieldErrors: { "": "Passwords must match" } },
+      submittedData: obj,
+    });
+    expect(
+      await withStandardSchema(schema, { allErrors: true }).validate(obj),
+    ).toEqual({
+      data: undefined,
+      error: { fieldErrors: { "": ["Passwords must match"] } },
+      submittedData: obj,
+    });
+  });
+
+  it("returns warnings without blocking validation", async () => {
+    const warnings = createSchema<unknown>(() => ({
+      issues: [{ message: "Short name", path: ["name"] }],
+    }));
+    const obj = { name: "Bob", tags: [] };
+
+    expect(
+      await withStandardSchema(personSchema, { warnings }).validate(obj),
+    ).toEqual({
+      data: obj,
+      error: undefined,
+      warnings: { name: "Short name" },
+      submittedData: obj,
+    });
+  });
+
+  it("infers the output type of the schema", () => {
+    expectTypeOf(withStandardSchema(personSchema)).toEqualTypeOf<
+      Validator<Person>
+    >();
+  });
+});
+
+describe("peer dependecy version", () => {
+  it("should have a peer dependency version that matches the lastet version of RVF", async () => {
+    const packageJson = JSON.parse(await fs.readFile(packageJsonPath, "utf-8"));
+    const peerDependencyVersion = packageJson.peerDependencies["@rvf/core"];
+    const rvfPackageJson = JSON.parse(
+      await fs.readFile(corePackageJsonPath, "utf-8"),
+    );
+    const rvfVersion = rvfPackageJson.version;
+
+    expect(semver.satisfies(rvfVersion, peerDependencyVersion)).toBe(true);
+  });
+});
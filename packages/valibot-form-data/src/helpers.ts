@@ -0,0 +1,212 @@
+import { objectFromPathEntries } from "@rvf/core";
+import * as v from "valibot";
+
+/**
+ * A transformation that runs before the provided schema.
+ * Valibot doesn't have a preprocess step, so the pipe starts from `unknown`.
+ */
+export type Preprocessed<TSchema extends v.GenericSchema> = v.SchemaWithPipe<
+  [v.UnknownSchema, v.TransformAction<unknown, unknown>, TSchema]
+>;
+
+type InputType<DefaultType extends v.GenericSchema> = {
+  (): Preprocessed<DefaultType>;
+  <ProvidedType extends v.GenericSchema>(
+    schema: ProvidedType,
+  ): Preprocessed<ProvidedType>;
+};
+
+const preprocess = (
+  action: v.TransformAction<unknown, unknown>,
+  schema: v.GenericSchema,
+) => v.pipe(v.unknown(), action, schema);
+
+/**
+ * Transforms empty strings to `undefined`.
+ * Use this at the start of a pipe that begins with `v.unknown()`.
+ */
+export const emptyStringToUndefined = () =>
+  v.transform((input: unknown) => (input === "" ? undefined : input));
+
+/**
+ * Coerces numerical strings to numbers and transforms empty strings to `undefined`.
+ * Anything else is left as-is.
+ */
+export const coerceNumber = () =>
+  v.transform((input: unknown) => {
+    if (input === "") return undefined;
+    if (typeof input !== "string") return input;
+    const numericValue = Number(input);
+    return Number.isNaN(numericValue) ? input : numericValue;
+  });
+
+/**
+ * Transforms empty `File` objects to `undefined`.
+ * Browsers submit an empty `File` for file inputs the user didn't pick a file for.
+ */
+export const emptyFileToUndefined = () =>
+  v.transform((input: unknown) =>
+    input instanceof File && input.size === 0 ? undefined : input,
+  );
+
+/**
+ * Transforms the value into an array.
+ * `undefined` becomes an empty array and single values become an array of one item.
+ */
+export const toArray = () =>
+  v.transform((input: unknown) => {
+    if (Array.isArray(input)) return input;
+    if (input === undefined) return [];
+    return [input];
+  });
+
+const safeParseJson = (jsonString: string) => {
+  try {
+    return JSON.parse(jsonString);
+  } catch {
+    return jsonString;
+  }
+};
+
+/**
+ * Parses JSON strings and transforms empty strings to `undefined`.
+ * Strings that aren't valid JSON are left as-is.
+ */
+export const parseJson = () =>
+  v.transform((input: unknown) => {
+    if (input === "") return undefined;
+    if (typeof input !== "string") return input;
+    return safeParseJson(input);
+  });
+
+const isEntry = (entry: unknown): entry is [string, unknown] =>
+  Array.isArray(entry) && entry.length === 2 && typeof entry[0] === "string";
+
+/**
+ * Turns a `FormData`, `URLSearchParams` or other iterable of entries into an object.
+ * If there are multiple entries with the same field name, that field becomes an array.
+ * Anything else is left as-is.
+ */
+export const formDataToObject = () =>
+  v.transform((input: unknown) => {
+    // We're avoiding using `instanceof` here because different environments
+    // won't necessarily have `FormData` or `URLSearchParams`
+    if (
+      typeof input !== "object" ||
+      input === null ||
+      !(Symbol.iterator in input)
+    )
+      return input;
+
+    const entries = [...(input as Iterable<unknown>)];
+    if (!entries.every(isEntry)) return input;
+    return objectFromPathEntries(entries);
+  });
+
+/**
+ * Transforms any empty strings to `undefined` before validating.
+ * This makes it so empty strings will fail required checks,
+ * allowing you to use `optional` for optional fields instead of `nonEmpty` for required fields.
+ * If you call `vfd.text` with no arguments, it will assume the field is a required string by default.
+ * If you want to customize the schema, you can pass that as an argument.
+ */
+export const text: InputType<v.StringSchema<undefined>> = (
+  schema: v.GenericSchema = v.string(),
+) => preprocess(emptyStringToUndefined(), schema) as any;
+
+/**
+ * Coerces numerical strings to numbers transforms empty strings to `undefined` before validating.
+ * If you call `vfd.numeric` with no arguments,
+ * it will assume the field is a required number by default.
+ * If you want to customize the schema, you can pass that as an argument.
+ */
+export const numeric: InputType<v.NumberSchema<undefined>> = (
+  schema: v.GenericSchema = v.number(),
+) => preprocess(coerceNumber(), schema) as any;
+
+type CheckboxOpts = {
+  trueValue?: string;
+};
+
+/**
+ * Turns the value from a checkbox field into a boolean,
+ * but does not require the checkbox to be checked.
+ * For checkboxes with a `value` attribute, you can pass that as the `trueValue` option.
+ *
+ * @example
+ * ```ts
+ * const schema = vfd.formData({
+ *   defaultCheckbox: vfd.checkbox(),
+ *   checkboxWithValue: vfd.checkbox({ trueValue: "true" }),
+ *   mustBeTrue: v.pipe(
+ *     vfd.checkbox(),
+ *     v.check((val) => val, "Please check this box"),
+ *   ),
+ * });
+ * ```
+ */
+export const checkbox = ({ trueValue = "on" }: CheckboxOpts = {}) =>
+  v.union([
+    v.pipe(
+      v.literal(trueValue),
+      v.transform(() => true),
+    ),
+    v.pipe(
+      v.undefined(),
+      v.transform(() => false),
+    ),
+  ]);
+
+export const file: InputType<v.InstanceSchema<typeof File, undefined>> = (
+  schema: v.GenericSchema = v.instance(File),
+) => preprocess(emptyFileToUndefined(), schema) as any;
+
+/**
+ * Preprocesses a field where you expect multiple values could be present for the same field name
+ * and transforms the value of that field to always be an array.
+ * If you don't provide a schema, it will assume the field is an array of vfd.text fields
+ * and will not require any values to be present.
+ */
+export const repeatable: InputType<
+  v.ArraySchema<Preprocessed<v.StringSchema<undefined>>, undefined>
+> = (schema: v.GenericSchema = v.array(text())) =>
+  preprocess(toArray(), schema) as any;
+
+/**
+ * A convenience wrapper for repeatable.
+ * Instead of passing the schema for an entire array, you pass in the schema for the item type.
+ */
+export const repeatableOfType = <TSchema extends v.GenericSchema>(
+  schema: TSchema,
+): Preprocessed<v.ArraySchema<TSchema, undefined>> =>
+  repeatable(v.array(schema));
+
+/**
+ * Parses the field as JSON before validating.
+ * Empty strings are transformed to `undefined`.
+ */
+export const json = <TSchema extends v.GenericSchema>(
+  schema: TSchema,
+): Preprocessed<TSchema> => preprocess(parseJson(), schema) as any;
+
+type FormDataType = {
+  <TEntries extends v.ObjectEntries>(
+    entries: TEntries,
+  ): Preprocessed<v.ObjectSchema<TEntries, undefined>>;
+  <TSchema extends v.GenericSchema>(schema: TSchema): Preprocessed<TSchema>;
+};
+
+/**
+ * This helper takes the place of the `v.object` at the root of your schema.
+ * It extracts all the data out of a `FormData` and transforms it into a regular object
+ * before validating it with your schema.
+ * If the `FormData` contains multiple entries with the same field name,
+ * it will automatically turn that field into an array.
+ */
+export const formData: FormDataType = (entriesOrSchema: any): any =>
+  preprocess(
+    formDataToObject(),
+    entriesOrSchema.kind === "schema"
+      ? entriesOrSchema
+      : v.object(entriesOrSchema),
+  );
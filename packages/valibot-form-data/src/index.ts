@@ -0,0 +1,4 @@
+import * as vfd from "./helpers";
+
+export * from "./helpers";
+export { vfd };
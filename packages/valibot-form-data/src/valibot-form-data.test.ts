@@ -0,0 +1,432 @@
+import { TestFormData } from "@remix-validated-form/test-utils";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as v from "valibot";
+import { vfd } from "./";
+
+const expectError = (
+  schema: v.GenericSchema,
+  val: any,
+  issues?: { path: string | null; message: string }[],
+) => {
+  const result = v.safeParse(schema, val);
+  expect(result.success).toBe(false);
+  if (issues)
+    expect(
+      result.issues?.map((issue) => ({
+        path: v.getDotPath(issue),
+        message: issue.message,
+      })),
+    ).toEqual(issues);
+};
+
+const expectValid = (schema: v.GenericSchema, val: any) => {
+  expect(v.safeParse(schema, val)).toMatchObject({
+    success: true,
+    output: val,
+  });
+};
+
+describe("valibot helpers", () => {
+  describe("text", () => {
+    it("should interperet an empty string as undefined", () => {
+      const s = vfd.text(v.optional(v.string()));
+      expect(v.parse(s, "")).toBeUndefined();
+    });
+
+    it("should fail a required check with an empty string", () => {
+      const s = vfd.text();
+      expectError(s, "");
+    });
+
+    it("should return the value if a non-empty string", () => {
+      const s = vfd.text();
+      expect(v.parse(s, "Something valid")).toBe("Something valid");
+    });
+
+    it("should not touch non-strings", () => {
+      const s = vfd.text(v.number());
+      expect(v.parse(s, 123)).toBe(123);
+    });
+
+    it("should error on anything else that would normally error", () => {
+      const s = vfd.text();
+      expectError(s, 123);
+    });
+
+    it("should respect validations from provided schema", () => {
+      const s = vfd.text(v.pipe(v.string(), v.email()));
+      expectError(s, "hi!");
+      expectValid(s, "testing@example.com");
+    });
+  });
+
+  describe("numeric", () => {
+    it("should interperet an empty string as undefined", () => {
+      const s = vfd.numeric(v.optional(v.number()));
+      expect(v.parse(s, "")).toBeUndefined();
+    });
+
+    it("should fail a required check with an empty string", () => {
+      const s = vfd.numeric();
+      expectError(s, "");
+    });
+
+    it("should coerce valid values into numbers", () => {
+      const s = vfd.numeric();
+      expect(v.parse(s, "123")).toBe(123);
+    });
+
+    it("should not touch invalid numbers", () => {
+      const s = vfd.numeric(v.string());
+      expect(v.parse(s, "asdf")).toBe("asdf");
+    });
+
+    it("should error on things that would normally error", () => {
+      const s = vfd.numeric();
+      expectError(s, "asdf");
+    });
+
+    it("should respect validations from provided schema", () => {
+      const s = vfd.numeric(v.pipe(v.number(), v.minValue(13)));
+      expectError(s, 12);
+      expectValid(s, 13);
+    });
+  });
+
+  describe("checkbox", () => {
+    it("should interperet 'on' as true", () => {
+      const s = vfd.checkbox();
+      expect(v.parse(s, "on")).toBe(true);
+    });
+
+    it("should interperet 'undefined' as false", () => {
+      const s = vfd.checkbox();
+      expect(v.parse(s, undefined)).toBe(false);
+    });
+
+    it("should fail on other strings", () => {
+      const s = vfd.checkbox();
+      expectError(s, "asdf");
+    });
+
+    it("should support custom true values", () => {
+      const s = vfd.checkbox({ trueValue: "asdf" });
+      expect(v.parse(s, "asdf")).toBe(true);
+    });
+
+    it("should fail anything else", () => {
+      const s = vfd.checkbox();
+      expectError(s, 123);
+    });
+  });
+
+  describe("repeatable", () => {
+    it("should transform single values to arrays", () => {
+      const s = vfd.repeatable();
+      expect(v.parse(s, "asdf")).toEqual(["asdf"]);
+    });
+
+    it("should leave arrays as arrays", () => {
+      const s = vfd.repeatable();
+      expect(v.parse(s, ["asdf"])).toEqual(["asdf"]);
+    });
+
+    it("should respect provided validation", () => {
+      const s = vfd.repeatable(
+        v.array(vfd.numeric(v.pipe(v.number(), v.minValue(13)))),
+      );
+      expectError(s, "12");
+      expect(v.parse(s, "13")).toEqual([13]);
+    });
+
+    it("should result in an empty array if no value is present", () => {
+      const s = vfd.repeatable(v.any());
+      expect(v.parse(s, undefined)).toEqual([]);
+    });
+
+    it("should result in an empty array if no value is present in FormData", () => {
+      const s = vfd.formData({
+        myRepeatable: vfd.repeatable(v.any()),
+      });
+      expect(v.parse(s, new TestFormData())).toEqual({ myRepeatable: [] });
+    });
+
+    it("should handle empty strings", () => {
+      const s = vfd.repeatable();
+      expectError(s, ["", ""]);
+
+      const s2 = vfd.repeatable(v.array(vfd.text(v.optional(v.string()))));
+      expect(v.parse(s2, ["", ""])).toEqual([undefined, undefined]);
+    });
+
+    it("should handle arrays of Files", () => {
+      const s = vfd.formData({
+        myRepeatable: vfd.repeatable(v.array(vfd.file())),
+      });
+      const fd = new FormData();
+      const f1 = new File(["test"], "test.txt", { type: "text/plain" });
+      const f2 = new File(["test2"], "test2.txt", { type: "text/plain" });
+      fd.append("myRepeatable", f1);
+      fd.append("myRepeatable", f2);
+      const res = v.parse(s, fd);
+      expect(res).toEqual({ myRepeatable: [f1, f2] });
+      expect(res.myRepeatable[0]?.name).toEqual("test.txt");
+    });
+  });
+
+  describe("repeatableOfType", () => {
+    it("should accept schema for item type", () => {
+      const s = vfd.repeatableOfType(
+        vfd.numeric(v.pipe(v.number(), v.minValue(13))),
+      );
+      expectError(s, "12");
+      expect(v.parse(s, "13")).toEqual([13]);
+    });
+    it("should fail on multiple items with correct error", () => {
+      const s = vfd.repeatableOfType(
+        vfd.numeric(v.pipe(v.number(), v.minValue(1))),
+      );
+      expectError(
+        s,
+        ["adsf", -123],
+        [
+          {
+            path: "0",
+            message: 'Invalid type: Expected number but received "adsf"',
+          },
+          {
+            path: "1",
+            message: "Invalid value: Expected >=1 but received -123",
+          },
+        ],
+      );
+      expect(v.parse(s, "13")).toEqual([13]);
+    });
+  });
+
+  describe("file", () => {
+    class MockFile {
+      size: number;
+
+      constructor(size: number) {
+        this.size = size;
+      }
+    }
+
+    beforeEach(() => {
+      (global as any).File = MockFile;
+    });
+
+    afterEach(() => {
+      delete (global as any).File;
+    });
+
+    it("should convert empty files to undefined", () => {
+      const file = new MockFile(0);
+      const s = vfd.file();
+      expectError(s, file);
+    });
+
+    it("should handle optional", () => {
+      const file = new MockFile(0);
+      const s = vfd.file(v.optional(v.instance(File)));
+      expect(v.parse(s, file)).toEqual(undefined);
+    });
+
+    it("should return data as-is for files that are not empty", () => {
+      const file = new MockFile(50);
+      const s = vfd.file();
+      expectValid(s, file);
+    });
+  });
+
+  describe("json", () => {
+    type Case = {
+      value: any;
+      schema: v.GenericSchema;
+    };
+    const cases: Case[] = [
+      { value: {}, schema: v.object({}) },
+      { value: { foo: "bar" }, schema: v.object({ foo: v.string() }) },
+      {
+        value: { foo: { bar: "baz" } },
+        schema: v.object({ foo: v.object({ bar: v.string() }) }),
+      },
+      { value: [], schema: v.array(v.any()) },
+      {
+        value: [{ foo: "bar" }],
+        schema: v.array(v.object({ foo: v.string() })),
+      },
+      {
+        value: [{ foo: { bar: "baz" } }],
+        schema: v.array(v.object({ foo: v.object({ bar: v.string() }) })),
+      },
+      {
+        value: [{ foo: "bar" }, { bar: "baz" }],
+        schema: v.array(
+          v.object({
+            foo: v.optional(v.string()),
+            bar: v.optional(v.string()),
+          }),
+        ),
+      },
+      { value: "simpleString", schema: v.string() },
+      { value: 12345, schema: v.number() },
+      { value: true, schema: v.boolean() },
+    ];
+
+    it.each(cases)("should correctly parse $value", ({ value, schema }) => {
+      const s = vfd.json(schema);
+      expect(v.parse(s, JSON.stringify(value))).toEqual(value);
+    });
+
+    it("should correctly error when invalid", () => {
+      const s = vfd.json(v.array(v.any()));
+      expectError(s, JSON.stringify({}));
+    });
+
+    it("should return undefined for empty strings", () => {
+      const s = vfd.json(v.optional(v.object({})));
+      expect(v.parse(s, "")).toBe(undefined);
+    });
+
+    it("should not fail validation but not error if invalid json string", () => {
+      const s = vfd.json(v.object({}));
+      expectError(s, "I am not valid json");
+    });
+  });
+
+  describe("formData", () => {
+    it("should gather up repeated fields into arrays and leave single fields alone", () => {
+      const s = vfd.formData({
+        name: v.any(),
+        checkboxGroup: v.any(),
+      });
+
+      const formData = new TestFormData();
+      formData.append("name", "Someone");
+      formData.append("checkboxGroup", "value1");
+      formData.append("checkboxGroup", "value2");
+
+      expect(v.parse(s, formData)).toEqual({
+        name: "Someone",
+        checkboxGroup: ["value1", "value2"],
+      });
+    });
+
+    it("should handle arrays of objects", () => {
+      const s = vfd.formData({
+        todos: vfd.repeatable(
+          v.array(v.object({ title: vfd.text(), description: vfd.text() })),
+        ),
+      });
+
+      const formData = new TestFormData();
+      formData.append("todos[0].title", "title 1");
+      formData.append("todos[0].description", "description 1");
+      formData.append("todos[1].title", "title 2");
+      formData.append("todos[1].description", "description 2");
+
+      expect(v.parse(s, formData)).toEqual({
+        todos: [
+          { title: "title 1", description: "description 1" },
+          { title: "title 2", description: "description 2" },
+        ],
+      });
+    });
+
+    it("should work with object schemas", () => {
+      const s = vfd.formData(
+        v.object({
+          name: v.any(),
+          checkboxGroup: v.any(),
+        }),
+      );
+
+      const formData = new TestFormData();
+      formData.append("name", "Someone");
+      formData.append("checkboxGroup", "value1");
+      formData.append("checkboxGroup", "value2");
+
+      expect(v.parse(s, formData)).toEqual({
+        name: "Someone",
+        checkboxGroup: ["value1", "value2"],
+      });
+    });
+
+    it("should combo well with other helpers", () => {
+      const s = vfd.formData({
+        name: vfd.text(v.optional(v.string())),
+        checkboxGroup: vfd.repeatable(),
+      });
+
+      const formData = new TestFormData();
+      formData.append("name", "");
+      formData.append("checkboxGroup", "value1");
+
+      expect(v.parse(s, formData)).toEqual({
+        checkboxGroup: ["value1"],
+      });
+    });
+
+    it("should work with URLSearchParams", () => {
+      const s = vfd.formData({
+        name: v.any(),
+        checkboxGroup: v.any(),
+      });
+
+      const formData = new URLSearchParams();
+      formData.append("name", "Someone");
+      formData.append("checkboxGroup", "value1");
+      formData.append("checkboxGroup", "value2");
+
+      expect(v.parse(s, formData)).toEqual({
+        name: "Someone",
+        checkboxGroup: ["value1", "value2"],
+      });
+    });
+
+    it("should work with objects", () => {
+      const s = vfd.formData({
+        name: v.any(),
+        checkboxGroup: v.any(),
+      });
+
+      const formData = {
+        name: "Someone",
+        checkboxGroup: "value1",
+      };
+
+      expect(v.parse(s, formData)).toEqual({
+        name: "Someone",
+        checkboxGroup: "value1",
+      });
+    });
+  });
+
+  describe("actions", () => {
+    it("should be usable in custom pipes", () => {
+      const s = v.pipe(
+        v.unknown(),
+        vfd.emptyStringToUndefined(),
+        vfd.coerceNumber(),
+        v.optional(v.number(), 0),
+      );
+      expect(v.parse(s, "")).toBe(0);
+      expect(v.parse(s, "12")).toBe(12);
+    });
+
+    it("should turn FormData into an object", () => {
+      const formData = new TestFormData();
+      formData.append("name", "Someone");
+      formData.append("checkboxGroup", "value1");
+      formData.append("checkboxGroup", "value2");
+
+      const s = v.pipe(v.unknown(), vfd.formDataToObject());
+      expect(v.parse(s, formData)).toEqual({
+        name: "Someone",
+        checkboxGroup: ["value1", "value2"],
+      });
+    });
+  });
+});
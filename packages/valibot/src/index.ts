@@ -1,4 +1,10 @@
-import { type FieldErrors, type Validator, createValidator } from "@rvf/core";
+import {
+  type AllFieldErrors,
+  type FieldErrors,
+  type Validator,
+  type ValidatorFieldErrors,
+  createValidator,
+} from "@rvf/core";
 import { pathArrayToString } from "@rvf/set-get";
 import {
   type BaseIssue,
@@ -38,16 +44,69 @@ function parseIssues<Schema extends GenericSchema>(
   return parsedIssues;
 }
 
-export function withValibot<Schema extends MaybeAsyncSchema>(
+function parseAllIssues<Schema extends GenericSchema>(
+  issues: [InferIssue<Schema>, ...InferIssue<Schema>[]],
+  parsedIssues: Record<string, string[]> = {},
+): AllFieldErrors {
+  for (const issue of issues) {
+    if (issue.type === "union" && issue.issues) {
+      parseAllIssues(issue.issues, parsedIssues);
+    }
+
+    const path = formatIssuePath(issue);
+    if (!path) continue;
+    parsedIssues[path] ??= [];
+    if (!parsedIssues[path].includes(issue.message))
+      parsedIssues[path].push(issue.message);
+  }
+
+  return parsedIssues;
+}
+
+export type WithValibotOptions<AllErrors extends boolean = boolean> = {
+  /**
+   * A schema for things the user should know about, but that shouldn't stop the form from being submitted.
+   * Any issues from this schema are shown as warnings instead of errors.
+   */
+  warnings?: MaybeAsyncSchema;
+
+  /**
+   * Return every error message for each field instead of only one.
+   * Use `errors(fieldName)` to access all the messages.
+   */
+  allErrors?: AllErrors;
+};
+
+export function withValibot<
+  Schema extends MaybeAsyncSchema,
+  AllErrors extends boolean = false,
+>(
   schema: Schema,
   config?: Config<InferIssue<Schema>>,
-): Validator<InferOutput<Schema>> {
-  return createValidator({
+  options?: WithValibotOptions<AllErrors>,
+): Validator<InferOutput<Schema>, ValidatorFieldErrors<AllErrors>> {
+  const getWarnings = async (input: unknown) => {
+    if (!options?.warnings) return undefined;
+    const result = await safeParseAsync(options.warnings, input);
+    return result.success ? undefined : parseIssues(result.issues);
+  };
+
+  return createValidator<InferOutput<Schema>, ValidatorFieldErrors<AllErrors>>({
     validate: async (input) => {
-      const result = await safeParseAsync(schema, input, config);
+      const [result, warnings] = await Promise.all([
+        safeParseAsync(schema, input, config),
+        getWarnings(input),
+      ]);
 
-      if (result.success) return { data: result.output, error: undefined };
-      return { data: undefined, error: parseIssues(result.issues) };
+      if (result.success)
+        return { data: result.output, error: undefined, warnings };
+      return {
+        data: undefined,
+        error: (options?.allErrors
+          ? parseAllIssues(result.issues)
+          : parseIssues(result.issues)) as ValidatorFieldErrors<AllErrors>,
+        warnings,
+      };
     },
   });
 }
@@ -66,6 +66,54 @@ describe("withValibot", () => {
       submittedData: obj,
     });
   });
+
+  it("returns every error message for a field when allErrors is set", async () => {
+    const schema = v.object({
+      password: v.pipe(
+        v.string(),
+        v.regex(/[0-9]/, "Needs a number"),
+        v.regex(/[^a-zA-Z0-9]/, "Needs a symbol"),
+      ),
+    });
+    const obj = { password: "password" };
+
+    expect(
+      await withValibot(schema, undefined, { allErrors: true }).validate(obj),
+    ).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          password: ["Needs a number", "Needs a symbol"],
+        },
+        subaction: undefined,
+      },
+      submittedData: obj,
+    });
+  });
+
+  it("returns warnings without blocking validation", async () => {
+    const schema = v.object({
+      email: v.pipe(v.string(), v.email()),
+      password: v.string(),
+    });
+    const warnings = v.object({
+      email: v.pipe(v.string(), v.endsWith(".com", "Unusual email domain")),
+      password: v.pipe(v.string(), v.minLength(12, "Weak password")),
+    });
+
+    const obj = { email: "bob@example.zzz", password: "secret" };
+    expect(
+      await withValibot(schema, undefined, { warnings }).validate(obj),
+    ).toEqual({
+      data: obj,
+      error: undefined,
+      warnings: {
+        email: "Unusual email domain",
+        password: "Weak password",
+      },
+      submittedData: obj,
+    });
+  });
 });
 
 describe("peer dependecy version", () => {
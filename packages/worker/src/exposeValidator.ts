@@ -0,0 +1,63 @@
+import { AllFieldErrors, FieldErrors, Validator } from "@rvf/core";
+import { MessageTarget, WorkerRequest, WorkerResponse } from "./messages";
+
+/**
+ * Runs the validator for `withWorker`. Call this inside of the worker.
+ *
+ * @example
+ * ```ts
+ * // validator.worker.ts
+ * import { exposeValidator } from "@rvf/worker";
+ * import { validator } from "./validator";
+ *
+ * exposeValidator(validator);
+ * ```
+ */
+export const exposeValidator = (
+  validator: Validator<any, FieldErrors | AllFieldErrors>,
+  scope: MessageTarget = self as unknown as MessageTarget,
+) => {
+  const controllers = new Map<number, AbortController>();
+  const respond = (response: WorkerResponse) => scope.postMessage(response);
+
+  scope.addEventListener("message", async (event) => {
+    const request = event.data as WorkerRequest;
+    if (request.type === "abort") {
+      controllers.get(request.id)?.abort();
+      return;
+    }
+
+    const controller = new AbortController();
+    controllers.set(request.id, controller);
+    const options = { signal: controller.signal };
+
+    let result: unknown;
+    try {
+      result =
+        request.type === "validateField" && validator.validateField
+          ? await validator.validateField(
+              request.fieldName,
+              request.data,
+              options,
+            )
+          : await validator.validate(request.data, options);
+    } catch (err) {
+      if (!controller.signal.aborted)
+        respond({
+          id: request.id,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      return;
+    } finally {
+      controllers.delete(request.id);
+    }
+
+    if (controller.signal.aborted) return;
+    try {
+      respond({ id: request.id, result });
+    } catch {
+      // The result can't be cloned, e.g. because the validator returned class instances
+      respond({ id: request.id, unsendable: true });
+    }
+  });
+};
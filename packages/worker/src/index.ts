@@ -0,0 +1,3 @@
+export { withWorker, type WithWorkerOptions } from "./withWorker";
+export { exposeValidator } from "./exposeValidator";
+export { type MessageTarget } from "./messages";
@@ -0,0 +1,29 @@
+import { GenericObject } from "@rvf/core";
+
+export type WorkerRequest =
+  | { type: "validate"; id: number; data: GenericObject }
+  | {
+      type: "validateField";
+      id: number;
+      fieldName: string;
+      data: GenericObject;
+    }
+  | { type: "abort"; id: number };
+
+export type WorkerResponse =
+  | { id: number; result: unknown }
+  | { id: number; error: string }
+  // The result couldn't be sent back, so the main thread has to validate instead
+  | { id: number; unsendable: true };
+
+/**
+ * The parts of a `Worker`, or of the global scope inside one, that RVF uses.
+ * `MessagePort`s work too.
+ */
+export interface MessageTarget {
+  postMessage(message: unknown): void;
+  addEventListener(
+    type: "message" | "error",
+    listener: (event: MessageEvent) => void,
+  ): void;
+}
@@ -0,0 +1,259 @@
+import {
+  CreateValidatorArg,
+  createValidator,
+  FieldErrors,
+  Validator,
+} from "@rvf/core";
+import { exposeValidator } from "./exposeValidator";
+import { MessageTarget } from "./messages";
+import { withWorker } from "./withWorker";
+
+type Listener = (event: any) => void;
+
+/**
+ * One end of an in-memory channel that behaves like `postMessage` between a worker and the main thread.
+ */
+class ShimEnd implements MessageTarget {
+  other!: ShimEnd;
+  listeners: Record<string, Listener[]> = { message: [], error: [] };
+
+  postMessage(message: unknown) {
+    const data = structuredClone(message);
+    setTimeout(() => this.other.dispatch("message", { data }));
+  }
+
+  addEventListener(type: "message" | "error", listener: Listener) {
+    this.listeners[type].push(listener);
+  }
+
+  dispatch(type: "message" | "error", event: unknown) {
+    this.listeners[type].forEach((listener) => listener(event));
+  }
+}
+
+const createWorkerShim = (validator: Validator<any>) => {
+  const main = new ShimEnd();
+  const worker = new ShimEnd();
+  main.other = worker;
+  worker.other = main;
+  exposeValidator(validator, worker);
+  return main;
+};
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const createTestValidator = (
+  validate: CreateValidatorArg<any>["validate"] = async (data) => {
+    await delay(data.delay ?? 0);
+    if (!data.name)
+      return { data: undefined, error: { name: "Name is required" } };
+    return { data, error: undefined };
+  },
+) => createValidator({ validate });
+
+it("should validate in the worker", async () => {
+  const mainValidate = vi.fn();
+  const workerValidate = vi.fn(async (data: any) => ({
+    data: undefined,
+    error: { name: `Invalid name: ${data.name}` },
+  }));
+  const validator = withWorker(createTestValidator(mainValidate), {
+    createWorker: () => createWorkerShim(createTestValidator(workerValidate)),
+  });
+
+  const formData = new FormData();
+  formData.set("name", "bob");
+  expect(await validator.validate(formData)).toEqual({
+    data: undefined,
+    error: { fieldErrors: { name: "Invalid name: bob" }, formId: undefined },
+    submittedData: { name: "bob" },
+    formId: undefined,
+  });
+  expect(workerValidate).toHaveBeenCalledTimes(1);
+  expect(mainValidate).not.toHaveBeenCalled();
+});
+
+it("should validate single fields in the worker", async () => {
+  const validateField = vi.fn(
+    async (fieldName: string): Promise<{ error: FieldErrors }> => ({
+      error: { [fieldName]: "Invalid" },
+    }),
+  );
+  const createFieldValidator = () =>
+    createValidator({
+      validate: async () => ({ data: undefined, error: {} }),
+      validateField,
+    });
+  const validator = withWorker(createFieldValidator(), {
+    createWorker: () => createWorkerShim(createFieldValidator()),
+  });
+
+  expect(await validator.validateField!("name", { name: "" })).toEqual({
+    error: { name: "Invalid" },
+  });
+  expect(validateField).toHaveBeenCalledTimes(1);
+
+  const withoutValidateField = withWorker(createTestValidator(), {
+    createWorker: () => createWorkerShim(createTestValidator()),
+  });
+  expect(withoutValidateField.validateField).toBeUndefined();
+});
+
+it("should return results in the order they were requested", async () => {
+  const validator = withWorker(createTestValidator(), {
+    createWorker: () => createWorkerShim(createTestValidator()),
+  });
+
+  const resolved: string[] = [];
+  await Promise.all(
+    [
+      { name: "slow", delay: 30 },
+      { name: "fast", delay: 0 },
+    ].map((data) =>
+      validator.validate(data).then(() => resolved.push(data.name)),
+    ),
+  );
+  expect(resolved).toEqual(["slow", "fast"]);
+});
+
+it("should drop the responses of aborted requests", async () => {
+  const workerSignals: AbortSignal[] = [];
+  const workerValidator = createValidator({
+    validate: async (data, { signal }) => {
+      workerSignals.push(signal!);
+      await delay(data.delay);
+      return { data, error: undefined };
+    },
+  });
+  const validator = withWorker(createTestValidator(), {
+    createWorker: () => createWorkerShim(workerValidator),
+  });
+
+  const controller = new AbortController();
+  const aborted = validator.validate(
+    { name: "old", delay: 30 },
+    { signal: controller.signal },
+  );
+  const latest = validator.validate({ name: "new", delay: 0 });
+  controller.abort();
+
+  await expect(aborted).rejects.toThrow();
+  expect((await latest).data).toEqual({ name: "new", delay: 0 });
+  await delay(40);
+  expect(workerSignals[0].aborted).toBe(true);
+});
+
+it("should reject right away when the signal is already aborted", async () => {
+  const workerValidate = vi.fn();
+  const validator = withWorker(createTestValidator(), {
+    createWorker: () => createWorkerShim(createTestValidator(workerValidate)),
+  });
+
+  const controller = new AbortController();
+  controller.abort();
+  await expect(
+    validator.validate({ name: "bob" }, { signal: controller.signal }),
+  ).rejects.toThrow();
+  await delay(10);
+  expect(workerValidate).not.toHaveBeenCalled();
+});
+
+it("should reject when the validator throws in the worker", async () => {
+  const validator = withWorker(createTestValidator(), {
+    createWorker: () =>
+      createWorkerShim(
+        createValidator({
+          validate: async () => {
+            throw new Error("Oops");
+          },
+        }),
+      ),
+  });
+
+  await expect(validator.validate({ name: "bob" })).rejects.toThrow("Oops");
+});
+
+it("should validate on the main thread when the worker can't be created", async () => {
+  const validate = vi.fn(async (data: any) => ({ data, error: undefined }));
+  const validator = withWorker(createTestValidator(validate), {
+    // jsdom doesn't support workers
+    createWorker: () => new Worker("./validator.worker.js"),
+  });
+
+  expect((await validator.validate({ name: "bob" })).data).toEqual({
+    name: "bob",
+  });
+  expect(validate).toHaveBeenCalledTimes(1);
+});
+
+it("should validate on the main thread when the data can't be sent to the worker", async () => {
+  const validate = vi.fn(async (data: any) => ({ data, error: undefined }));
+  const validator = withWorker(createTestValidator(validate), {
+    createWorker: () => createWorkerShim(createTestValidator()),
+  });
+
+  const data = { name: "bob", callback: () => {} };
+  expect((await validator.validate(data)).data).toEqual(data);
+  expect(validate).toHaveBeenCalledTimes(1);
+});
+
+it("should validate on the main thread when the result can't be sent back", async () => {
+  const validate = vi.fn(async (data: any) => ({ data, error: undefined }));
+  const validator = withWorker(createTestValidator(validate), {
+    createWorker: () =>
+      createWorkerShim(
+        createTestValidator(async (data) => ({
+          data: { ...data, format: () => data.name },
+          error: undefined,
+        })),
+      ),
+  });
+
+  expect((await validator.validate({ name: "bob" })).data).toEqual({
+    name: "bob",
+  });
+  expect(validate).toHaveBeenCalledTimes(1);
+});
+
+it("should validate on the main thread when the worker fails to load", async () => {
+  const validate = vi.fn(async (data: any) => ({ data, error: undefined }));
+  const brokenWorker = new ShimEnd();
+  brokenWorker.postMessage = () => {
+    setTimeout(() => brokenWorker.dispatch("error", new Event("error")));
+  };
+  const validator = withWorker(createTestValidator(validate), {
+    createWorker: () => brokenWorker,
+  });
+
+  expect((await validator.validate({ name: "bob" })).data).toEqual({
+    name: "bob",
+  });
+  expect((await validator.validate({ name: "alice" })).data).toEqual({
+    name: "alice",
+  });
+  expect(validate).toHaveBeenCalledTimes(2);
+});
+
+it("should return results in order after falling back to the main thread", async () => {
+  const brokenWorker = new ShimEnd();
+  let failed = false;
+  brokenWorker.postMessage = () => {
+    if (failed) return;
+    failed = true;
+    setTimeout(() => brokenWorker.dispatch("error", new Event("error")));
+  };
+  const validator = withWorker(createTestValidator(), {
+    createWorker: () => brokenWorker,
+  });
+
+  const resolved: string[] = [];
+  await Promise.all(
+    [
+      { name: "slow", delay: 30 },
+      { name: "fast", delay: 0 },
+    ].map((data) =>
+      validator.validate(data).then(() => resolved.push(data.name)),
+    ),
+  );
+  expect(resolved).toEqual(["slow", "fast"]);
+});
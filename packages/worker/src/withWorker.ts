@@ -0,0 +1,185 @@
+import {
+  AllFieldErrors,
+  FieldErrors,
+  preprocessFormData,
+  Validator,
+} from "@rvf/core";
+import { MessageTarget, WorkerRequest, WorkerResponse } from "./messages";
+
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never;
+
+type PendingRequest = {
+  resolve: (result: any) => void;
+  reject: (error: unknown) => void;
+  runOnMainThread: () => Promise<unknown>;
+  isOnMainThread?: boolean;
+  /**
+   * Set once the result is available. Results are handed out in order by `flush`.
+   */
+  settle?: () => void;
+};
+
+export type WithWorkerOptions = {
+  /**
+   * Creates the worker that runs the validator.
+   * The worker should call `exposeValidator` with the same validator.
+   * This is called the first time the validator is used.
+   */
+  createWorker: () => MessageTarget;
+};
+
+/**
+ * Runs the validator in a Web Worker, so validating doesn't block the main thread.
+ * Results are returned in the order they were requested.
+ *
+ * During server rendering, or if the worker can't be created (like in most test environments),
+ * the validator runs on the main thread instead.
+ *
+ * @example
+ * ```ts
+ * const validator = withWorker(withZod(schema), {
+ *   createWorker: () =>
+ *     new Worker(new URL("./validator.worker.ts", import.meta.url), {
+ *       type: "module",
+ *     }),
+ * });
+ * ```
+ */
+export const withWorker = <
+  DataType,
+  Errors extends FieldErrors | AllFieldErrors = FieldErrors,
+>(
+  validator: Validator<DataType, Errors>,
+  { createWorker }: WithWorkerOptions,
+): Validator<DataType, Errors> => {
+  // `null` means there's no worker, so we validate on the main thread
+  let worker: MessageTarget | null | undefined;
+  let nextId = 0;
+  const pending = new Map<number, PendingRequest>();
+
+  // Settles requests in order, stopping at the first one that's still waiting on the worker.
+  const flush = () => {
+    for (const [id, request] of pending) {
+      if (!request.settle) return;
+      pending.delete(id);
+      request.settle();
+    }
+  };
+
+  // The result still waits for the requests before it, like results from the worker do
+  const settleOnMainThread = (request: PendingRequest) => {
+    request.isOnMainThread = true;
+    request.runOnMainThread().then(
+      (result) => {
+        request.settle = () => request.resolve(result);
+        flush();
+      },
+      (error) => {
+        request.settle = () => request.reject(error);
+        flush();
+      },
+    );
+  };
+
+  const fallBackToMainThread = () => {
+    worker = null;
+    pending.forEach((request) => {
+      if (!request.settle && !request.isOnMainThread)
+        settleOnMainThread(request);
+    });
+  };
+
+  const getWorker = () => {
+    if (worker !== undefined) return worker;
+    if (typeof window === "undefined") return (worker = null);
+
+    try {
+      worker = createWorker();
+    } catch {
+      return (worker = null);
+    }
+
+    worker.addEventListener("message", (event) => {
+      const response = event.data as WorkerResponse;
+      // Aborted requests have already been settled, so their responses are dropped
+      const request = pending.get(response.id);
+      if (!request) return;
+
+      if ("unsendable" in response) {
+        settleOnMainThread(request);
+        return;
+      }
+
+      request.settle =
+        "error" in response
+          ? () => request.reject(new Error(response.error))
+          : () => request.resolve(response.result);
+      flush();
+    });
+    // The worker failed to load
+    worker.addEventListener("error", fallBackToMainThread);
+    return worker;
+  };
+
+  const request = <Result>(
+    message: DistributiveOmit<WorkerRequest, "id">,
+    runOnMainThread: () => Promise<Result>,
+    signal?: AbortSignal,
+  ): Promise<Result> => {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    const currentWorker = getWorker();
+    if (!currentWorker) return runOnMainThread();
+
+    const id = nextId++;
+    return new Promise<Result>((resolve, reject) => {
+      const pendingRequest: PendingRequest = {
+        resolve,
+        reject,
+        runOnMainThread,
+      };
+      pending.set(id, pendingRequest);
+
+      try {
+        currentWorker.postMessage({ ...message, id });
+      } catch {
+        // The data can't be sent to the worker, e.g. because it contains functions
+        settleOnMainThread(pendingRequest);
+      }
+
+      signal?.addEventListener(
+        "abort",
+        () => {
+          if (!pending.delete(id)) return;
+          currentWorker.postMessage({ type: "abort", id });
+          reject(signal.reason);
+          flush();
+        },
+        { once: true },
+      );
+    });
+  };
+
+  return {
+    validate: (data, options) =>
+      request(
+        { type: "validate", data: preprocessFormData(data) },
+        () => validator.validate(data, options),
+        options?.signal,
+      ),
+    validateField:
+      validator.validateField &&
+      ((fieldName, data, options) =>
+        request(
+          {
+            type: "validateField",
+            fieldName,
+            data: preprocessFormData(data),
+          },
+          () => validator.validateField!(fieldName, data, options),
+          options?.signal,
+        )),
+  };
+};
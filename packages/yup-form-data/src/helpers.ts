@@ -0,0 +1,192 @@
+import { setPath } from "@rvf/set-get";
+import {
+  AnyObject,
+  AnySchema,
+  array,
+  ArraySchema,
+  boolean,
+  DefaultFromShape,
+  isSchema,
+  mixed,
+  MixedSchema,
+  number,
+  NumberSchema,
+  object,
+  ObjectSchema,
+  ObjectShape,
+  string,
+  StringSchema,
+  TypeFromShape,
+} from "yup";
+
+type InputType<DefaultType extends AnySchema> = {
+  (): DefaultType;
+  <ProvidedType extends AnySchema>(schema: ProvidedType): ProvidedType;
+};
+
+// Yup skips transforms for `undefined`, so these only need to handle values that are present.
+// They look at the original value, because the schema's own coercion has already run.
+const stripEmpty = (value: unknown, originalValue: unknown) =>
+  originalValue === "" ? undefined : value;
+
+/**
+ * Transforms any empty strings to `undefined` before validating.
+ * This makes it so empty strings will fail required checks,
+ * allowing you to use `optional` for optional fields instead of `min(1)` for required fields.
+ * If you call `yfd.text` with no arguments, it will assume the field is a required string by default.
+ * If you want to customize the schema, you can pass that as an argument.
+ */
+export const text: InputType<StringSchema<string>> = (
+  schema: AnySchema = string().required(),
+) => schema.transform(stripEmpty) as any;
+
+/**
+ * Coerces numerical strings to numbers transforms empty strings to `undefined` before validating.
+ * If you call `yfd.numeric` with no arguments,
+ * it will assume the field is a required number by default.
+ * If you want to customize the schema, you can pass that as an argument.
+ */
+export const numeric: InputType<NumberSchema<number>> = (
+  schema: AnySchema = number().required(),
+) =>
+  schema.transform((value, originalValue) => {
+    if (originalValue === "") return undefined;
+    if (typeof originalValue !== "string") return value;
+    const numericValue = Number(originalValue);
+    return Number.isNaN(numericValue) ? value : numericValue;
+  }) as any;
+
+type CheckboxOpts = {
+  trueValue?: string;
+};
+
+/**
+ * Turns the value from a checkbox field into a boolean,
+ * but does not require the checkbox to be checked.
+ * For checkboxes with a `value` attribute, you can pass that as the `trueValue` option.
+ *
+ * @example
+ * ```ts
+ * const schema = yfd.formData({
+ *   defaultCheckbox: yfd.checkbox(),
+ *   checkboxWithValue: yfd.checkbox({ trueValue: "true" }),
+ *   mustBeTrue: yfd.checkbox().isTrue("Please check this box"),
+ * });
+ * ```
+ */
+export const checkbox = ({ trueValue = "on" }: CheckboxOpts = {}) =>
+  boolean()
+    .default(false)
+    .transform((_value, originalValue) =>
+      originalValue === trueValue ? true : originalValue,
+    );
+
+export const file: InputType<MixedSchema<File>> = (
+  schema: AnySchema = mixed(
+    (val): val is File => val instanceof File,
+  ).required(),
+) =>
+  schema.transform((value, originalValue) => {
+    //Empty File object on no user input, so convert to undefined
+    return originalValue instanceof File && originalValue.size === 0
+      ? undefined
+      : value;
+  }) as any;
+
+/**
+ * Preprocesses a field where you expect multiple values could be present for the same field name
+ * and transforms the value of that field to always be an array.
+ * If you don't provide a schema, it will assume the field is an array of yfd.text fields
+ * and will not require any values to be present.
+ */
+export const repeatable: InputType<ArraySchema<string[], AnyObject>> = (
+  schema: AnySchema = array(text()).defined(),
+) =>
+  schema
+    .default(() => [])
+    // Array transforms like `json()` might have already changed the value, so this wraps the original one
+    .transform((_value: unknown, originalValue: unknown) =>
+      Array.isArray(originalValue) ? originalValue : [originalValue],
+    ) as any;
+
+/**
+ * A convenience wrapper for repeatable.
+ * Instead of passing the schema for an entire array, you pass in the schema for the item type.
+ */
+export const repeatableOfType = <T extends AnySchema>(schema: T) =>
+  repeatable(array(schema));
+
+const safeParseJson = (jsonString: string) => {
+  try {
+    return JSON.parse(jsonString);
+  } catch {
+    return jsonString;
+  }
+};
+
+export const json = <T extends AnySchema>(schema: T): T =>
+  schema.transform((value, originalValue) => {
+    if (originalValue === "") return undefined;
+    if (typeof originalValue !== "string") return value;
+    return safeParseJson(originalValue);
+  });
+
+const isEntries = (val: unknown[]): val is [string, unknown][] =>
+  val.every(
+    (entry) =>
+      Array.isArray(entry) &&
+      entry.length === 2 &&
+      typeof entry[0] === "string",
+  );
+
+export const preprocessFormData = (
+  formData: unknown,
+): Record<string, unknown> => {
+  // We're avoiding using `instanceof` here because different environments
+  // won't necessarily have `FormData` or `URLSearchParams`
+  if (
+    typeof formData !== "object" ||
+    formData === null ||
+    !(Symbol.iterator in formData)
+  )
+    return formData as Record<string, unknown>;
+
+  const data = [...(formData as Iterable<unknown>)];
+  if (!isEntries(data)) return formData as Record<string, unknown>;
+
+  const map: Map<string, unknown[]> = new Map();
+  for (const [key, value] of data) {
+    if (map.has(key)) {
+      map.get(key)!.push(value);
+    } else {
+      map.set(key, [value]);
+    }
+  }
+
+  return [...map.entries()].reduce(
+    (acc, [key, value]) => {
+      return setPath(acc, key, value.length === 1 ? value[0] : value);
+    },
+    {} as Record<string, unknown | unknown[]>,
+  );
+};
+
+type FormDataType = {
+  <T extends ObjectShape>(
+    shape: T,
+  ): ObjectSchema<TypeFromShape<T, AnyObject>, AnyObject, DefaultFromShape<T>>;
+  <T extends AnySchema>(schema: T): T;
+};
+
+/**
+ * This helper takes the place of the `object` at the root of your schema.
+ * It adds a transform that extracts all the data out of a `FormData`
+ * and turns it into a regular object.
+ * If the `FormData` contains multiple entries with the same field name,
+ * it will automatically turn that field into an array.
+ */
+export const formData: FormDataType = (shapeOrSchema: any): any =>
+  (isSchema(shapeOrSchema)
+    ? (shapeOrSchema as AnySchema)
+    : object(shapeOrSchema)
+  ).transform((value) => preprocessFormData(value));
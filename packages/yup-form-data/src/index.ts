@@ -0,0 +1,4 @@
+import * as yfd from "./helpers";
+
+export * from "./helpers";
+export { yfd };
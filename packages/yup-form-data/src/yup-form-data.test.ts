@@ -0,0 +1,418 @@
+import { TestFormData } from "@remix-validated-form/test-utils";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  AnySchema,
+  array,
+  boolean,
+  mixed,
+  number,
+  object,
+  string,
+  ValidationError,
+} from "yup";
+import { yfd } from "./";
+
+const expectError = (schema: AnySchema, val: any, errors?: string[]) => {
+  expect(() => schema.validateSync(val, { abortEarly: false })).toThrow(
+    ValidationError,
+  );
+  if (errors) {
+    try {
+      schema.validateSync(val, { abortEarly: false });
+    } catch (err) {
+      expect((err as ValidationError).errors).toEqual(errors);
+    }
+  }
+};
+
+const expectValid = (schema: AnySchema, val: any) => {
+  expect(schema.validateSync(val)).toEqual(val);
+};
+
+describe("yup helpers", () => {
+  describe("text", () => {
+    it("should interperet an empty string as undefined", () => {
+      const s = yfd.text(string().optional());
+      expect(s.validateSync("")).toBeUndefined();
+    });
+
+    it("should fail a required check with an empty string", () => {
+      const s = yfd.text();
+      expectError(s, "");
+    });
+
+    it("should return the value if a non-empty string", () => {
+      const s = yfd.text();
+      expect(s.validateSync("Something valid")).toBe("Something valid");
+    });
+
+    it("should not touch non-strings", () => {
+      const s = yfd.text(number());
+      expect(s.validateSync(123)).toBe(123);
+    });
+
+    it("should error on anything else that would normally error", () => {
+      const s = yfd.text();
+      expectError(s, {});
+    });
+
+    it("should respect validations from provided schema", () => {
+      const s = yfd.text(string().email());
+      expectError(s, "hi!");
+      expectValid(s, "testing@example.com");
+    });
+  });
+
+  describe("numeric", () => {
+    it("should interperet an empty string as undefined", () => {
+      const s = yfd.numeric(number().optional());
+      expect(s.validateSync("")).toBeUndefined();
+    });
+
+    it("should fail a required check with an empty string", () => {
+      const s = yfd.numeric();
+      expectError(s, "");
+    });
+
+    it("should coerce valid values into numbers", () => {
+      const s = yfd.numeric();
+      expect(s.validateSync("123")).toBe(123);
+    });
+
+    it("should not touch invalid numbers", () => {
+      const s = yfd.numeric(string());
+      expect(s.validateSync("asdf")).toBe("asdf");
+    });
+
+    it("should error on things that would normally error", () => {
+      const s = yfd.numeric();
+      expectError(s, "asdf");
+    });
+
+    it("should respect validations from provided schema", () => {
+      const s = yfd.numeric(number().min(13));
+      expectError(s, 12);
+      expectValid(s, 13);
+    });
+  });
+
+  describe("checkbox", () => {
+    it("should interperet 'on' as true", () => {
+      const s = yfd.checkbox();
+      expect(s.validateSync("on")).toBe(true);
+    });
+
+    it("should interperet 'undefined' as false", () => {
+      const s = yfd.checkbox();
+      expect(s.validateSync(undefined)).toBe(false);
+    });
+
+    it("should fail on other strings", () => {
+      const s = yfd.checkbox();
+      expectError(s, "asdf");
+    });
+
+    it("should support custom true values", () => {
+      const s = yfd.checkbox({ trueValue: "asdf" });
+      expect(s.validateSync("asdf")).toBe(true);
+    });
+
+    it("should fail anything else", () => {
+      const s = yfd.checkbox();
+      expectError(s, 123);
+    });
+  });
+
+  describe("repeatable", () => {
+    it("should transform single values to arrays", () => {
+      const s = yfd.repeatable();
+      expect(s.validateSync("asdf")).toEqual(["asdf"]);
+    });
+
+    it("should leave arrays as arrays", () => {
+      const s = yfd.repeatable();
+      expect(s.validateSync(["asdf"])).toEqual(["asdf"]);
+    });
+
+    it("should wrap the submitted value before the array schema transforms it", () => {
+      const s = yfd.repeatable(array(string()).json());
+      expect(s.validateSync("[1,2]")).toEqual(["[1,2]"]);
+      expect(s.validateSync("1")).toEqual(["1"]);
+    });
+
+    it("should respect provided validation", () => {
+      const s = yfd.repeatable(array(yfd.numeric(number().min(13))));
+      expectError(s, "12");
+      expect(s.validateSync("13")).toEqual([13]);
+    });
+
+    it("should result in an empty array if no value is present", () => {
+      const s = yfd.repeatable(mixed());
+      expect(s.validateSync(undefined)).toEqual([]);
+    });
+
+    it("should result in an empty array if no value is present in FormData", () => {
+      const s = yfd.formData({
+        myRepeatable: yfd.repeatable(mixed()),
+      });
+      expect(s.validateSync(new TestFormData())).toEqual({
+        myRepeatable: [],
+      });
+    });
+
+    it("should handle empty strings", () => {
+      const s = yfd.repeatable();
+      expectError(s, ["", ""]);
+
+      const s2 = yfd.repeatable(array(yfd.text(string().optional())));
+      expect(s2.validateSync(["", ""])).toEqual([undefined, undefined]);
+    });
+
+    it("should handle arrays of Files", () => {
+      const s = yfd.formData({
+        myRepeatable: yfd.repeatable(array(yfd.file())),
+      });
+      const fd = new FormData();
+      const f1 = new File(["test"], "test.txt", { type: "text/plain" });
+      const f2 = new File(["test2"], "test2.txt", { type: "text/plain" });
+      fd.append("myRepeatable", f1);
+      fd.append("myRepeatable", f2);
+      const res = s.validateSync(fd);
+      expect(res).toEqual({ myRepeatable: [f1, f2] });
+      expect(res.myRepeatable?.[0]?.name).toEqual("test.txt");
+    });
+  });
+
+  describe("repeatableOfType", () => {
+    it("should accept schema for item type", () => {
+      const s = yfd.repeatableOfType(yfd.numeric(number().min(13)));
+      expectError(s, "12");
+      expect(s.validateSync("13")).toEqual([13]);
+    });
+    it("should fail on multiple items with correct error", () => {
+      const s = yfd.repeatableOfType(yfd.numeric(number().positive()));
+      expectError(
+        s,
+        ["adsf", -123],
+        [
+          '[0] must be a `number` type, but the final value was: `NaN` (cast from the value `"adsf"`).',
+          "[1] must be a positive number",
+        ],
+      );
+      expect(s.validateSync("13")).toEqual([13]);
+    });
+  });
+
+  describe("file", () => {
+    class MockFile {
+      size: number;
+
+      constructor(size: number) {
+        this.size = size;
+      }
+    }
+
+    beforeEach(() => {
+      (global as any).File = MockFile;
+    });
+
+    afterEach(() => {
+      delete (global as any).File;
+    });
+
+    it("should convert empty files to undefined", () => {
+      const file = new MockFile(0);
+      const s = yfd.file();
+      expectError(s, file);
+    });
+
+    it("should handle optional", () => {
+      const file = new MockFile(0);
+      const s = yfd.file(
+        mixed((val): val is File => val instanceof File).optional(),
+      );
+      expect(s.validateSync(file)).toEqual(undefined);
+    });
+
+    it("should return data as-is for files that are not empty", () => {
+      const file = new MockFile(50);
+      const s = yfd.file();
+      expectValid(s, file);
+    });
+  });
+
+  describe("json", () => {
+    type Case = {
+      value: any;
+      schema: AnySchema;
+    };
+    const cases: Case[] = [
+      { value: {}, schema: object({}) },
+      { value: { foo: "bar" }, schema: object({ foo: string().required() }) },
+      {
+        value: { foo: { bar: "baz" } },
+        schema: object({ foo: object({ bar: string().required() }) }),
+      },
+      { value: [], schema: array(mixed()) },
+      {
+        value: [{ foo: "bar" }],
+        schema: array(object({ foo: string().required() })),
+      },
+      {
+        value: [{ foo: { bar: "baz" } }],
+        schema: array(object({ foo: object({ bar: string().required() }) })),
+      },
+      {
+        value: [{ foo: "bar" }, { bar: "baz" }],
+        schema: array(object({ foo: string(), bar: string() })),
+      },
+      { value: "simpleString", schema: string() },
+      { value: 12345, schema: number() },
+      { value: true, schema: boolean() },
+    ];
+
+    it.each(cases)("should correctly parse $value", ({ value, schema }) => {
+      const s = yfd.json(schema);
+      expect(s.validateSync(JSON.stringify(value))).toEqual(value);
+    });
+
+    it("should correctly error when invalid", () => {
+      const s = yfd.json(object({}));
+      expectError(s, JSON.stringify([]));
+    });
+
+    it("should return undefined for empty strings", () => {
+      const s = yfd.json(object({}).optional());
+      expect(s.validateSync("")).toBe(undefined);
+    });
+
+    it("should not fail validation but not error if invalid json string", () => {
+      const s = yfd.json(object({}));
+      expectError(s, "I am not valid json");
+    });
+  });
+
+  describe("formData", () => {
+    it("should gather up repeated fields into arrays and leave single fields alone", () => {
+      const s = yfd.formData({
+        name: mixed(),
+        checkboxGroup: mixed(),
+      });
+
+      const formData = new TestFormData();
+      formData.append("name", "Someone");
+      formData.append("checkboxGroup", "value1");
+      formData.append("checkboxGroup", "value2");
+
+      expect(s.validateSync(formData)).toEqual({
+        name: "Someone",
+        checkboxGroup: ["value1", "value2"],
+      });
+    });
+
+    it("should handle arrays of objects", () => {
+      const s = yfd.formData({
+        todos: yfd.repeatable(
+          array(object({ title: yfd.text(), description: yfd.text() })),
+        ),
+      });
+
+      const formData = new TestFormData();
+      formData.append("todos[0].title", "title 1");
+      formData.append("todos[0].description", "description 1");
+      formData.append("todos[1].title", "title 2");
+      formData.append("todos[1].description", "description 2");
+
+      expect(s.validateSync(formData)).toEqual({
+        todos: [
+          { title: "title 1", description: "description 1" },
+          { title: "title 2", description: "description 2" },
+        ],
+      });
+    });
+
+    it("should work with object schemas", () => {
+      const s = yfd.formData(
+        object({
+          name: mixed(),
+          checkboxGroup: mixed(),
+        }),
+      );
+
+      const formData = new TestFormData();
+      formData.append("name", "Someone");
+      formData.append("checkboxGroup", "value1");
+      formData.append("checkboxGroup", "value2");
+
+      expect(s.validateSync(formData)).toEqual({
+        name: "Someone",
+        checkboxGroup: ["value1", "value2"],
+      });
+    });
+
+    it("should combo well with other helpers", () => {
+      const s = yfd.formData({
+        name: yfd.text(string().optional()),
+        checkboxGroup: yfd.repeatable(),
+      });
+
+      const formData = new TestFormData();
+      formData.append("name", "");
+      formData.append("checkboxGroup", "value1");
+
+      expect(s.validateSync(formData)).toEqual({
+        checkboxGroup: ["value1"],
+      });
+    });
+
+    it("should work with URLSearchParams", () => {
+      const s = yfd.formData({
+        name: mixed(),
+        checkboxGroup: mixed(),
+      });
+
+      const formData = new URLSearchParams();
+      formData.append("name", "Someone");
+      formData.append("checkboxGroup", "value1");
+      formData.append("checkboxGroup", "value2");
+
+      expect(s.validateSync(formData)).toEqual({
+        name: "Someone",
+        checkboxGroup: ["value1", "value2"],
+      });
+    });
+
+    it("should work with objects", () => {
+      const s = yfd.formData({
+        name: mixed(),
+        checkboxGroup: mixed(),
+      });
+
+      const formData = {
+        name: "Someone",
+        checkboxGroup: "value1",
+      };
+
+      expect(s.validateSync(formData)).toEqual({
+        name: "Someone",
+        checkboxGroup: "value1",
+      });
+    });
+  });
+
+  describe("preprocessFormData", () => {
+    it("should expose the same transformation as formData", () => {
+      const formData = new TestFormData();
+      formData.append("name", "Someone");
+      formData.append("checkboxGroup", "value1");
+      formData.append("checkboxGroup", "value2");
+
+      const result = yfd.preprocessFormData(formData);
+
+      expect(result).toEqual({
+        name: "Someone",
+        checkboxGroup: ["value1", "value2"],
+      });
+    });
+  });
+});
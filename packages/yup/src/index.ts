@@ -1,4 +1,10 @@
-import { createValidator, FieldErrors, Validator } from "@rvf/core";
+import {
+  createValidator,
+  AllFieldErrors,
+  FieldErrors,
+  Validator,
+  ValidatorFieldErrors,
+} from "@rvf/core";
 import type { AnyObjectSchema, InferType, ValidationError } from "yup";
 
 const validationErrorToFieldErrors = (error: ValidationError): FieldErrors => {
@@ -10,23 +16,70 @@ const validationErrorToFieldErrors = (error: ValidationError): FieldErrors => {
   return fieldErrors;
 };
 
+const validationErrorToAllFieldErrors = (
+  error: ValidationError,
+): AllFieldErrors => {
+  const fieldErrors: Record<string, string[]> = {};
+  error.inner.forEach((innerError) => {
+    if (!innerError.path) return;
+    fieldErrors[innerError.path] ??= [];
+    fieldErrors[innerError.path].push(innerError.message);
+  });
+  return fieldErrors;
+};
+
+export type WithYupOptions<AllErrors extends boolean = boolean> = {
+  /**
+   * A schema for things the user should know about, but that shouldn't stop the form from being submitted.
+   * Any errors from this schema are shown as warnings instead of errors.
+   */
+  warnings?: AnyObjectSchema;
+
+  /**
+   * Return every error message for each field instead of only one.
+   * Use `errors(fieldName)` to access all the messages.
+   */
+  allErrors?: AllErrors;
+};
+
 /**
  * Create a `Validator` using a `yup` schema.
  */
-export const withYup = <Schema extends AnyObjectSchema>(
+export const withYup = <
+  Schema extends AnyObjectSchema,
+  AllErrors extends boolean = false,
+>(
   validationSchema: Schema,
-): Validator<InferType<Schema>> => {
-  return createValidator({
+  options?: WithYupOptions<AllErrors>,
+): Validator<InferType<Schema>, ValidatorFieldErrors<AllErrors>> => {
+  const getWarnings = async (data: unknown) => {
+    if (!options?.warnings) return undefined;
+    try {
+      await options.warnings.validate(data, { abortEarly: false });
+      return undefined;
+    } catch (err) {
+      return validationErrorToFieldErrors(err as ValidationError);
+    }
+  };
+
+  return createValidator<InferType<Schema>, ValidatorFieldErrors<AllErrors>>({
     validate: async (data) => {
+      const warnings = await getWarnings(data);
       try {
         const validated = await validationSchema.validate(data, {
           abortEarly: false,
         });
-        return { data: validated, error: undefined };
+        return { data: validated, error: undefined, warnings };
       } catch (err) {
+        const validationError = err as ValidationError;
         return {
-          error: validationErrorToFieldErrors(err as ValidationError),
+          error: (options?.allErrors
+            ? validationErrorToAllFieldErrors(validationError)
+            : validationErrorToFieldErrors(
+                validationError,
+              )) as ValidatorFieldErrors<AllErrors>,
           data: undefined,
+          warnings,
         };
       }
     },
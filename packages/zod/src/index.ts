@@ -1,4 +1,11 @@
-import { createValidator, FieldErrors, Validator } from "@rvf/core";
+import {
+  createValidator,
+  AllFieldErrors,
+  FieldErrors,
+  Validator,
+  ValidatorFieldErrors,
+} from "@rvf/core";
+import { getPath, stringToPathArray } from "@rvf/set-get";
 import type { z } from "zod";
 
 const getIssuesForError = (err: z.ZodError<any>): z.ZodIssue[] => {
@@ -18,24 +25,162 @@ function pathToString(array: (string | number)[]): string {
   }, "");
 }
 
+function errorToFieldErrors(
+  error: z.ZodError<any>,
+  basePath: (string | number)[] = [],
+): FieldErrors {
+  const fieldErrors: FieldErrors = {};
+  getIssuesForError(error).forEach((issue) => {
+    const path = pathToString([...basePath, ...issue.path]);
+    if (!fieldErrors[path]) fieldErrors[path] = issue.message;
+  });
+  return fieldErrors;
+}
+
+function errorToAllFieldErrors(
+  error: z.ZodError<any>,
+  basePath: (string | number)[] = [],
+): AllFieldErrors {
+  const fieldErrors: Record<string, string[]> = {};
+  getIssuesForError(error).forEach((issue) => {
+    const path = pathToString([...basePath, ...issue.path]);
+    fieldErrors[path] ??= [];
+    // Union members can report the same issue more than once
+    if (!fieldErrors[path].includes(issue.message))
+      fieldErrors[path].push(issue.message);
+  });
+  return fieldErrors;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+/**
+ * Finds the part of the schema for the field at `path`, so the field can be validated on its own.
+ * Returns `undefined` if parsing the field on its own might not give the same errors as parsing the whole form.
+ * For example, a refinement on an object could add errors to any of its fields,
+ * and a missing parent object is reported as an error for the parent instead of the field.
+ */
+const getFieldSchema = (
+  schema: z.ZodTypeAny,
+  path: (string | number)[],
+  value: unknown,
+): z.ZodTypeAny | undefined => {
+  if (path.length === 0) return schema;
+
+  const def = schema._def;
+  const [key, ...rest] = path;
+  switch (def.typeName) {
+    case "ZodOptional":
+    case "ZodNullable":
+    case "ZodDefault":
+      return value == null
+        ? undefined
+        : getFieldSchema(def.innerType, path, value);
+    case "ZodReadonly":
+      return getFieldSchema(def.innerType, path, value);
+    case "ZodBranded":
+      return getFieldSchema(def.type, path, value);
+    case "ZodLazy":
+      return getFieldSchema(def.getter(), path, value);
+    case "ZodObject": {
+      const shape = def.shape();
+      if (!isObject(value) || !(key in shape)) return undefined;
+      return getFieldSchema(shape[key], rest, value[key]);
+    }
+    case "ZodRecord":
+      if (!isObject(value)) return undefined;
+      return getFieldSchema(def.valueType, rest, value[key]);
+    case "ZodArray":
+      if (!Array.isArray(value) || typeof key !== "number") return undefined;
+      return getFieldSchema(def.type, rest, value[key]);
+    case "ZodTuple": {
+      if (!Array.isArray(value) || typeof key !== "number") return undefined;
+      const itemSchema = def.items[key] ?? def.rest;
+      return itemSchema && getFieldSchema(itemSchema, rest, value[key]);
+    }
+    default:
+      return undefined;
+  }
+};
+
+export type WithZodOptions<AllErrors extends boolean = boolean> = {
+  /**
+   * A schema for things the user should know about, but that shouldn't stop the form from being submitted.
+   * Any issues from this schema are shown as warnings instead of errors.
+   */
+  warnings?: z.Schema<unknown, z.ZodTypeDef, unknown>;
+
+  /**
+   * Return every error message for each field instead of only the first one.
+   * Use `errors(fieldName)` to access all the messages.
+   */
+  allErrors?: AllErrors;
+};
+
 /**
  * Create a validator using a `zod` schema.
  */
-export function withZod<T, U extends z.ZodTypeDef>(
+export function withZod<
+  T,
+  U extends z.ZodTypeDef,
+  AllErrors extends boolean = false,
+>(
   zodSchema: z.Schema<T, U, unknown>,
   parseParams?: Partial<z.ParseParams>,
-): Validator<T> {
-  return createValidator({
+  options?: WithZodOptions<AllErrors>,
+): Validator<T, ValidatorFieldErrors<AllErrors>> {
+  const getWarnings = async (value: unknown) => {
+    if (!options?.warnings) return undefined;
+    const result = await options.warnings.safeParseAsync(value, parseParams);
+    return result.success ? undefined : errorToFieldErrors(result.error);
+  };
+
+  const toFieldErrors = (
+    error: z.ZodError<any>,
+    basePath?: (string | number)[],
+  ) =>
+    (options?.allErrors
+      ? errorToAllFieldErrors(error, basePath)
+      : errorToFieldErrors(error, basePath)) as ValidatorFieldErrors<AllErrors>;
+
+  return createValidator<T, ValidatorFieldErrors<AllErrors>>({
+    validateField: async (fieldName, value) => {
+      const path = stringToPathArray(fieldName);
+      const fieldSchema = getFieldSchema(zodSchema, path, value);
+      const warningsSchema =
+        options?.warnings && getFieldSchema(options.warnings, path, value);
+
+      // Other fields might be affected, so the whole form needs to be validated
+      if (!fieldSchema || (options?.warnings && !warningsSchema))
+        return undefined;
+
+      const fieldValue = getPath(value, fieldName);
+      const [result, warningsResult] = await Promise.all([
+        fieldSchema.safeParseAsync(fieldValue, parseParams),
+        warningsSchema?.safeParseAsync(fieldValue, parseParams),
+      ]);
+      return {
+        error: result.success ? undefined : toFieldErrors(result.error, path),
+        warnings:
+          warningsResult && !warningsResult.success
+            ? errorToFieldErrors(warningsResult.error, path)
+            : undefined,
+      };
+    },
     validate: async (value) => {
-      const result = await zodSchema.safeParseAsync(value, parseParams);
-      if (result.success) return { data: result.data, error: undefined };
-
-      const fieldErrors: FieldErrors = {};
-      getIssuesForError(result.error).forEach((issue) => {
-        const path = pathToString(issue.path);
-        if (!fieldErrors[path]) fieldErrors[path] = issue.message;
-      });
-      return { error: fieldErrors, data: undefined };
+      const [result, warnings] = await Promise.all([
+        zodSchema.safeParseAsync(value, parseParams),
+        getWarnings(value),
+      ]);
+      if (result.success)
+        return { data: result.data, error: undefined, warnings };
+
+      return {
+        error: toFieldErrors(result.error),
+        data: undefined,
+        warnings,
+      };
     },
   });
 }
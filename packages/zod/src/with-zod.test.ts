@@ -2,7 +2,13 @@ import * as fs from "fs/promises";
 import * as path from "path";
 import { anyString } from "@remix-validated-form/test-utils";
 import * as semver from "semver";
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, expectTypeOf, vi } from "vitest";
+import {
+  AllFieldErrors,
+  createFormScope,
+  FieldErrors,
+  ValidatorError,
+} from "@rvf/core";
 import { z } from "zod";
 import { withZod } from "./";
 
@@ -83,6 +89,233 @@ describe("withZod", () => {
       submittedData: obj,
     });
   });
+
+  it("returns every error message for a field when allErrors is set", async () => {
+    const schema = z.object({
+      password: z
+        .string()
+        .regex(/[0-9]/, "Needs a number")
+        .regex(/[^a-zA-Z0-9]/, "Needs a symbol"),
+      name: z.string().min(1, "Required"),
+    });
+    const obj = { password: "password", name: "" };
+
+    expect(await withZod(schema).validate(obj)).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          password: "Needs a number",
+          name: "Required",
+        },
+        subaction: undefined,
+      },
+      submittedData: obj,
+    });
+
+    expect(
+      await withZod(schema, undefined, { allErrors: true }).validate(obj),
+    ).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          password: ["Needs a number", "Needs a symbol"],
+          name: ["Required"],
+        },
+        subaction: undefined,
+      },
+      submittedData: obj,
+    });
+  });
+
+  it("only types the errors as arrays when allErrors is set", async () => {
+    const schema = z.object({ name: z.string() });
+
+    const result = await withZod(schema).validate({});
+    expectTypeOf(result.error).toEqualTypeOf<
+      ValidatorError<FieldErrors> | undefined
+    >();
+
+    const allResult = await withZod(schema, undefined, {
+      allErrors: true,
+    }).validate({});
+    expectTypeOf(allResult.error).toEqualTypeOf<
+      ValidatorError<AllFieldErrors> | undefined
+    >();
+  });
+
+  it("returns warnings without blocking validation", async () => {
+    const schema = z.object({
+      email: z.string().email(),
+      password: z.string(),
+    });
+    const warnings = z.object({
+      email: z.string().endsWith(".com", "Unusual email domain"),
+      password: z.string().min(12, "Weak password"),
+    });
+
+    const obj = { email: "bob@example.zzz", password: "secret" };
+    expect(
+      await withZod(schema, undefined, { warnings }).validate(obj),
+    ).toEqual({
+      data: obj,
+      error: undefined,
+      warnings: {
+        email: "Unusual email domain",
+        password: "Weak password",
+      },
+      submittedData: obj,
+    });
+
+    const invalid = { email: "bob", password: "a strong password" };
+    expect(
+      await withZod(schema, undefined, { warnings }).validate(invalid),
+    ).toEqual({
+      data: undefined,
+      error: {
+        fieldErrors: {
+          email: anyString,
+        },
+        subaction: undefined,
+      },
+      warnings: {
+        email: "Unusual email domain",
+      },
+      submittedData: invalid,
+    });
+  });
+});
+
+describe("withZod validateField", () => {
+  it("only parses the schema for the field", async () => {
+    const otherRefinement = vi.fn(() => true);
+    const schema = z.object({
+      name: z.string().min(1, "Name is required"),
+      age: z.number().refine(otherRefinement),
+    });
+    const validator = withZod(schema);
+
+    expect(
+      await validator.validateField!("name", { name: "", age: "a" }),
+    ).toEqual({ error: { name: "Name is required" }, warnings: undefined });
+    expect(await validator.validateField!("name", { name: "Bob" })).toEqual({
+      error: undefined,
+      warnings: undefined,
+    });
+    expect(otherRefinement).not.toHaveBeenCalled();
+  });
+
+  it("finds fields nested in objects and arrays", async () => {
+    const schema = z.object({
+      todos: z.array(
+        z.object({ title: z.string().min(1, "Title is required") }),
+      ),
+      meta: z.object({ tags: z.array(z.string()).optional() }).optional(),
+    });
+    const validator = withZod(schema);
+    const data = { todos: [{ title: "Foo" }, { title: "" }], meta: {} };
+
+    expect(await validator.validateField!("todos[1].title", data)).toEqual({
+      error: { "todos[1].title": "Title is required" },
+      warnings: undefined,
+    });
+    expect(await validator.validateField!("todos", data)).toEqual({
+      error: { "todos[1].title": "Title is required" },
+      warnings: undefined,
+    });
+    expect(await validator.validateField!("meta.tags", data)).toEqual({
+      error: undefined,
+      warnings: undefined,
+    });
+  });
+
+  it("leaves fields that a refinement could report errors for to the full validation", async () => {
+    const schema = z
+      .object({ password: z.string(), confirmPassword: z.string() })
+      .refine((data) => data.password === data.confirmPassword, {
+        message: "Passwords must match",
+        path: ["confirmPassword"],
+      });
+    const validator = withZod(schema);
+    const data = { password: "foo", confirmPassword: "bar" };
+
+    expect(
+      await validator.validateField!("confirmPassword", data),
+    ).toBeUndefined();
+    expect(await validator.validateField!("password", data)).toBeUndefined();
+  });
+
+  it("clears errors a refinement reported for other fields", async () => {
+    const schema = z
+      .object({ password: z.string(), confirm: z.string() })
+      .refine((data) => data.password === data.confirm, {
+        message: "mismatch",
+        path: ["confirm"],
+      });
+    const form = createFormScope({
+      defaultValues: { password: "foo", confirm: "" },
+      serverValidationErrors: {},
+      validator: withZod(schema),
+      submitSource: "state",
+      onSubmit: vi.fn(),
+      onSubmitSuccess: vi.fn(),
+      onSubmitFailure: vi.fn(),
+      onBeforeSubmit: vi.fn(),
+      onInvalidSubmit: vi.fn(),
+      flags: {
+        disableFocusOnError: false,
+        reloadDocument: false,
+      },
+      formProps: { id: "test-form" },
+    });
+    const store = form.__store__.store;
+
+    store.getState().onFieldChange("confirm", "bar");
+    store.getState().onFieldBlur("confirm");
+    await vi.waitFor(() =>
+      expect(store.getState().validationErrors).toEqual({
+        confirm: "mismatch",
+      }),
+    );
+
+    store.getState().onFieldChange("password", "bar");
+    store.getState().onFieldBlur("password");
+    await vi.waitFor(() =>
+      expect(store.getState().validatingFields).toEqual({}),
+    );
+    expect(store.getState().validationErrors).toEqual({});
+  });
+
+  it("leaves errors for missing parents to the full validation", async () => {
+    const schema = z.object({
+      address: z.object({ street: z.string() }),
+    });
+
+    expect(
+      await withZod(schema).validateField!("address.street", {}),
+    ).toBeUndefined();
+  });
+
+  it("returns warnings and every error message for the field", async () => {
+    const schema = z.object({
+      password: z.string().min(8, "Too short").regex(/\d/, "Needs a number"),
+      email: z.string().email(),
+    });
+    const warnings = z.object({
+      password: z.string().min(12, "Weak password"),
+      email: z.string().endsWith(".com"),
+    });
+    const validator = withZod(schema, undefined, { warnings, allErrors: true });
+
+    expect(
+      await validator.validateField!("password", {
+        password: "abc",
+        email: "bob",
+      }),
+    ).toEqual({
+      error: { password: ["Too short", "Needs a number"] },
+      warnings: { password: "Weak password" },
+    });
+  });
 });
 
 const packageDir = path.join(__dirname, "..");